@@ -10,20 +10,22 @@ import { Dashboard } from './components/Dashboard';
 import { UserProfile } from './components/UserProfile';
 import { Settings } from './components/Settings';
 import { SessionHistory } from './components/SessionHistory';
+import { ScenarioStudio } from './components/ScenarioStudio';
 import { OnboardingTour } from './components/OnboardingTour';
 import { NavigationMenu } from './components/NavigationMenu';
 import { QuickThemeToggle } from './components/ThemeToggle';
-import { LogOut, BarChart3, User, Settings as SettingsIcon } from 'lucide-react';
+import { LogOut, BarChart3, User, Settings as SettingsIcon, PenTool } from 'lucide-react';
 import { supabase } from './lib/supabase';
 
-type View = 'landing' | 'chat' | 'feedback' | 'dashboard' | 'profile' | 'settings' | 'session-history';
+type View = 'landing' | 'chat' | 'feedback' | 'dashboard' | 'profile' | 'settings' | 'session-history' | 'studio';
 
 function AppContent() {
   const [view, setView] = useState<View>('landing');
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
   const [currentScenarioTitle, setCurrentScenarioTitle] = useState<string>('');
+  const [retryDraft, setRetryDraft] = useState<string | null>(null);
   const [showOnboarding, setShowOnboarding] = useState(false);
-  const { user, signOut } = useAuth();
+  const { user, isAdmin, signOut } = useAuth();
 
   useEffect(() => {
     if (user) {
@@ -47,7 +49,6 @@ function AppContent() {
         .insert({
           user_id: user!.id,
           scenario_id: scenarioId,
-          status: 'active',
         })
         .select()
         .single();
@@ -85,6 +86,13 @@ function AppContent() {
     setView('session-history');
   };
 
+  const handleRetry = (sessionId: string, scenarioTitle: string, draft: string) => {
+    setCurrentSessionId(sessionId);
+    setCurrentScenarioTitle(scenarioTitle);
+    setRetryDraft(draft);
+    setView('chat');
+  };
+
   const handleSignOut = async () => {
     await signOut();
     handleReturnHome();
@@ -116,6 +124,15 @@ function AppContent() {
               <BarChart3 className="w-4 h-4 group-hover:scale-110 transition-transform" />
               <span className="hidden sm:inline">Dashboard</span>
             </button>
+            {isAdmin && (
+              <button
+                onClick={() => setView('studio')}
+                className="flex items-center gap-2 glass px-4 py-2 rounded-xl font-medium hover:bg-white/20 dark:hover:bg-white/10 transition-all duration-300 shadow-lg backdrop-blur-md group"
+              >
+                <PenTool className="w-4 h-4 group-hover:scale-110 transition-transform" />
+                <span className="hidden sm:inline">Studio</span>
+              </button>
+            )}
             <button
               onClick={() => setView('settings')}
               className="flex items-center gap-2 glass px-4 py-2 rounded-xl font-medium hover:bg-white/20 dark:hover:bg-white/10 transition-all duration-300 shadow-lg backdrop-blur-md group"
@@ -141,6 +158,8 @@ function AppContent() {
             scenarioTitle={currentScenarioTitle}
             onBack={handleReturnHome}
             onShowFeedback={handleShowFeedback}
+            initialMessage={retryDraft ?? undefined}
+            onInitialMessageSent={() => setRetryDraft(null)}
           />
         )}
 
@@ -163,10 +182,13 @@ function AppContent() {
 
         {view === 'settings' && <Settings onBack={handleReturnHome} />}
 
+        {view === 'studio' && isAdmin && <ScenarioStudio onBack={handleReturnHome} />}
+
         {view === 'session-history' && currentSessionId && (
           <SessionHistory
             sessionId={currentSessionId}
             onBack={() => setView('dashboard')}
+            onRetry={handleRetry}
           />
         )}
       </div>
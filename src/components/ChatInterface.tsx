@@ -1,13 +1,21 @@
-import { useState, useEffect, useRef } from 'react';
-import { Send, Sparkles, ArrowLeft, BarChart3, Mic, MicOff, Volume2, VolumeX, Settings, MoreVertical, Clock, Users } from 'lucide-react';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Send, Sparkles, ArrowLeft, BarChart3, Mic, MicOff, Volume2, VolumeX, Settings, MoreVertical, Clock, Users, Square, ShieldAlert, Target, CheckCircle2, Lightbulb, Flag } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { streamChat } from '../lib/chatStream';
+import { autoHintsEnabled, isWeakTurn, requestHint, setAutoHintsEnabled, STALL_MS, type HintTrigger } from '../lib/coach';
+import { FunctionError } from '../lib/functions';
+import { goalsMetSoFar, parseGoals, type ScenarioGoal } from '../lib/goals';
+import { parsePersonas, personaAvatar, type ScenarioPersona } from '../lib/personas';
+import { currentStageKey, parseStages, type ScenarioStage } from '../lib/stages';
 import { useToast } from '../contexts/ToastContext';
 import { useTheme } from '../contexts/ThemeContext';
 
 interface Message {
   id: number;
-  role: 'user' | 'assistant';
+  role: 'user' | 'assistant' | 'coach';
+  persona?: string | null;
   content: string;
+  metadata?: Record<string, unknown>;
   created_at: string;
 }
 
@@ -16,9 +24,12 @@ interface ChatInterfaceProps {
   scenarioTitle: string;
   onBack: () => void;
   onShowFeedback: () => void;
+  /** Sent as the user's next turn once the history has loaded, e.g. a rewrite being retried. */
+  initialMessage?: string;
+  onInitialMessageSent?: () => void;
 }
 
-export function ChatInterface({ sessionId, scenarioTitle, onBack, onShowFeedback }: ChatInterfaceProps) {
+export function ChatInterface({ sessionId, scenarioTitle, onBack, onShowFeedback, initialMessage, onInitialMessageSent }: ChatInterfaceProps) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
@@ -27,7 +38,17 @@ export function ChatInterface({ sessionId, scenarioTitle, onBack, onShowFeedback
   const [isAudioEnabled, setIsAudioEnabled] = useState(true);
   const [showSettings, setShowSettings] = useState(false);
   const [typingIndicator, setTypingIndicator] = useState(false);
+  // One entry per persona that has started replying this turn; single-persona replies have no persona
+  const [streamingReplies, setStreamingReplies] = useState<{ persona: string | null; content: string }[]>([]);
+  const [goals, setGoals] = useState<ScenarioGoal[]>([]);
+  const [stages, setStages] = useState<ScenarioStage[]>([]);
+  const [personas, setPersonas] = useState<ScenarioPersona[]>([]);
+  const [hinting, setHinting] = useState(false);
+  const [autoHints, setAutoHints] = useState(autoHintsEnabled);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const pendingTurnRef = useRef<{ content: string; turnId: string } | null>(null);
+  const hintingRef = useRef(false);
   const inputRef = useRef<HTMLInputElement>(null);
   const { showToast, showTip } = useToast();
   const { actualTheme } = useTheme();
@@ -38,7 +59,39 @@ export function ChatInterface({ sessionId, scenarioTitle, onBack, onShowFeedback
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [messages, streamingReplies]);
+
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  const getHint = useCallback(async (trigger: HintTrigger) => {
+    if (hintingRef.current) return;
+    hintingRef.current = true;
+    setHinting(true);
+
+    try {
+      const hint = await requestHint(sessionId, trigger);
+      setMessages((prev) => (prev.some((message) => message.id === hint.id) ? prev : [...prev, hint]));
+    } catch (error) {
+      console.error('Error getting hint:', error);
+      // Automatic hints fail quietly; the user didn't ask for them
+      if (trigger === 'request') {
+        showToast(error instanceof FunctionError ? error.message : 'Failed to get a hint. Please try again.', 'error');
+      }
+    } finally {
+      hintingRef.current = false;
+      setHinting(false);
+    }
+  }, [sessionId, showToast]);
+
+  // Step in when the user sits on an empty reply to the persona
+  useEffect(() => {
+    if (!autoHints || loading || input || messages[messages.length - 1]?.role !== 'assistant') return;
+
+    const timer = setTimeout(() => getHint('stall'), STALL_MS);
+    return () => clearTimeout(timer);
+  }, [autoHints, loading, input, messages, getHint]);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -46,19 +99,36 @@ export function ChatInterface({ sessionId, scenarioTitle, onBack, onShowFeedback
 
   const loadMessages = async () => {
     try {
-      const { data, error } = await supabase
-        .from('message')
-        .select('*')
-        .eq('session_id', sessionId)
-        .order('created_at');
+      const [{ data, error }, { data: session }] = await Promise.all([
+        supabase
+          .from('message')
+          .select('*')
+          .eq('session_id', sessionId)
+          .order('created_at'),
+        supabase
+          .from('session')
+          .select('scenario:scenario_id (goals, stages, personas)')
+          .eq('id', sessionId)
+          .maybeSingle(),
+      ]);
 
       if (error) throw error;
+      const scenario = session?.scenario as { goals?: unknown; stages?: unknown; personas?: unknown } | null;
+      setGoals(parseGoals(scenario?.goals));
+      setStages(parseStages(scenario?.stages));
+      setPersonas(parsePersonas(scenario?.personas));
 
       if (data && data.length === 0) {
         await sendMessage('', true);
       } else {
         setMessages(data || []);
       }
+
+      if (initialMessage) {
+        onInitialMessageSent?.();
+        setInitializing(false);
+        await sendMessage(initialMessage);
+      }
     } catch (error) {
       console.error('Error loading messages:', error);
     } finally {
@@ -69,75 +139,103 @@ export function ChatInterface({ sessionId, scenarioTitle, onBack, onShowFeedback
   const sendMessage = async (content: string, isInitial = false) => {
     if ((!content.trim() && !isInitial) || loading) return;
 
+    const text = content.trim();
+    // Resending the same text after a failure reuses its turn id, so the server can deduplicate the retry
+    if (!isInitial && pendingTurnRef.current?.content !== text) {
+      pendingTurnRef.current = { content: text, turnId: crypto.randomUUID() };
+    }
+    const optimisticId = -Date.now();
+
     setLoading(true);
     setTypingIndicator(true);
 
     try {
       if (!isInitial) {
-        const { data: userMessage, error: userError } = await supabase
-          .from('message')
-          .insert({
-            session_id: sessionId,
-            role: 'user',
-            content: content.trim(),
-          })
-          .select()
-          .single();
-
-        if (userError) throw userError;
-        setMessages((prev) => [...prev, userMessage]);
+        setMessages((prev) => [
+          ...prev,
+          { id: optimisticId, role: 'user', content: text, created_at: new Date().toISOString() },
+        ]);
         setInput('');
-        
+
         // Show tip for first message
         if (messages.length === 0) {
           showTip('💡 Try to be clear and specific in your responses for better feedback!');
         }
       }
 
-      const apiUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/chat`;
-      const response = await fetch(apiUrl, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+
+      const turn = await streamChat(
+        {
           session_id: sessionId,
-          user_message: isInitial ? '' : content.trim(),
+          user_message: isInitial ? '' : text,
           is_initial: isInitial,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to get AI response');
-      }
-
-      const result = await response.json();
+          turn_id: isInitial ? undefined : pendingTurnRef.current!.turnId,
+        },
+        {
+          signal: abortController.signal,
+          onSpeaker: (persona) => {
+            setTypingIndicator(false);
+            setStreamingReplies((prev) => [...prev, { persona, content: '' }]);
+          },
+          onDelta: (delta) => {
+            setTypingIndicator(false);
+            setStreamingReplies((prev) =>
+              prev.length === 0
+                ? [{ persona: null, content: delta }]
+                : [...prev.slice(0, -1), { ...prev[prev.length - 1], content: prev[prev.length - 1].content + delta }]
+            );
+          },
+        }
+      );
 
-      // Simulate typing delay for better UX
-      await new Promise(resolve => setTimeout(resolve, 1000 + Math.random() * 2000));
+      pendingTurnRef.current = null;
+      setMessages((prev) => [
+        ...prev.filter((message) => message.id !== optimisticId),
+        ...(turn.user_message ? [turn.user_message] : []),
+        ...turn.assistant_messages,
+      ]);
 
-      const { data: assistantMessage, error: assistantError } = await supabase
-        .from('message')
-        .insert({
-          session_id: sessionId,
-          role: 'assistant',
-          content: result.message,
-        })
-        .select()
-        .single();
-
-      if (assistantError) throw assistantError;
-      setMessages((prev) => [...prev, assistantMessage]);
+      if (autoHints && turn.user_message && isWeakTurn(turn.user_message)) {
+        getHint('weak_turn');
+      }
     } catch (error) {
-      console.error('Error sending message:', error);
-      showToast('Failed to send message. Please try again.', 'error');
+      // The server rolls back an unanswered turn, so put the text back for the user to resend
+      if (!isInitial) {
+        setMessages((prev) => prev.filter((message) => message.id !== optimisticId));
+        setInput(text);
+      }
+
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        showToast('Reply cancelled', 'info');
+      } else if (error instanceof FunctionError && error.status === 429) {
+        showToast(error.message, 'error');
+      } else {
+        console.error('Error sending message:', error);
+        showToast('Failed to send message. Please try again.', 'error');
+      }
     } finally {
+      abortControllerRef.current = null;
+      setStreamingReplies([]);
       setLoading(false);
       setTypingIndicator(false);
     }
   };
 
+  const cancelReply = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const metGoals = goalsMetSoFar(messages);
+  const stageIndex = Math.max(0, stages.findIndex((stage) => stage.key === currentStageKey(messages)));
+  const conversationLength = messages.filter((message) => message.role !== 'coach').length;
+
+  const toggleAutoHints = () => {
+    setAutoHintsEnabled(!autoHints);
+    setAutoHints(!autoHints);
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     sendMessage(input);
@@ -153,6 +251,34 @@ export function ChatInterface({ sessionId, scenarioTitle, onBack, onShowFeedback
     showTip(isAudioEnabled ? '🔇 Audio disabled' : '🔊 Audio enabled');
   };
 
+  // Replies from one of the scenario's personas show who spoke; anything else is the single AI character
+  const renderAvatar = (persona: string | null | undefined, thinking = false) => {
+    const avatar = personaAvatar(personas, persona);
+    return avatar ? (
+      <div
+        className={`w-10 h-10 bg-gradient-to-br ${avatar.gradient} rounded-full flex items-center justify-center shadow-lg flex-shrink-0`}
+        title={avatar.role ? `${avatar.name}, ${avatar.role}` : avatar.name}
+      >
+        <span className="text-white font-semibold text-sm">{avatar.initials}</span>
+      </div>
+    ) : (
+      <div className="w-10 h-10 bg-gradient-to-br from-primary-500 to-secondary-600 rounded-full flex items-center justify-center shadow-lg flex-shrink-0">
+        <Sparkles className={`w-5 h-5 text-white ${thinking ? 'animate-spin' : ''}`} />
+      </div>
+    );
+  };
+
+  const renderSpeakerName = (persona: string | null | undefined) => {
+    const avatar = personaAvatar(personas, persona);
+    if (!avatar) return <span className="text-xs font-semibold">AI Coach</span>;
+    return (
+      <span className="text-xs font-semibold">
+        {avatar.name}
+        {avatar.role && <span className="font-normal text-gray-500 dark:text-gray-400"> · {avatar.role}</span>}
+      </span>
+    );
+  };
+
   if (initializing) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-teal-50 dark:from-slate-900 dark:via-slate-800 dark:to-slate-900 flex items-center justify-center relative overflow-hidden">
@@ -208,6 +334,7 @@ export function ChatInterface({ sessionId, scenarioTitle, onBack, onShowFeedback
                   <span>Practice Session</span>
                   <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
                   <span>Live</span>
+                  {personas.length > 0 && <span>· with {personas.map((persona) => persona.name).join(', ')}</span>}
                 </div>
               </div>
             </div>
@@ -251,7 +378,7 @@ export function ChatInterface({ sessionId, scenarioTitle, onBack, onShowFeedback
               <Settings className="w-5 h-5 text-gray-600 dark:text-gray-300" />
             </button>
 
-            {messages.length >= 4 && (
+            {conversationLength >= 4 && (
               <button
                 onClick={onShowFeedback}
                 className="btn-primary flex items-center gap-2 animate-pulse"
@@ -264,20 +391,111 @@ export function ChatInterface({ sessionId, scenarioTitle, onBack, onShowFeedback
         </div>
       </div>
 
+      {showSettings && (
+        <div className="glass border-b border-white/20 dark:border-white/10 relative z-10">
+          <div className="max-w-6xl mx-auto px-4 py-3 flex items-center justify-between gap-4">
+            <div>
+              <p className="text-sm font-semibold text-gray-700 dark:text-gray-300">Automatic hints</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                The coach whispers a tip when you go quiet or a reply falls flat. Replies sent right after a hint count for less in your feedback.
+              </p>
+            </div>
+            <button
+              type="button"
+              role="switch"
+              aria-checked={autoHints}
+              onClick={toggleAutoHints}
+              className={`relative w-12 h-6 rounded-full flex-shrink-0 transition-colors duration-300 ${autoHints ? 'bg-primary-500' : 'bg-gray-300 dark:bg-gray-600'}`}
+            >
+              <span className={`absolute top-1 left-1 w-4 h-4 bg-white rounded-full shadow transition-transform duration-300 ${autoHints ? 'translate-x-6' : ''}`} />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {stages.length > 0 && (
+        <div className="glass border-b border-white/20 dark:border-white/10 relative z-10">
+          <div className="max-w-6xl mx-auto px-4 py-3 flex items-center gap-3 overflow-x-auto">
+            <div className="flex items-center gap-2 text-sm font-semibold text-gray-700 dark:text-gray-300 flex-shrink-0">
+              <Flag className="w-4 h-4 text-primary-500" />
+              Stage {stageIndex + 1}/{stages.length}
+            </div>
+            {stages.map((stage, index) => (
+              <div key={stage.key} className="flex items-center gap-3 flex-shrink-0">
+                {index > 0 && (
+                  <span className={`w-6 h-px ${index <= stageIndex ? 'bg-primary-400' : 'bg-gray-300 dark:bg-gray-600'}`} />
+                )}
+                <span
+                  className={`px-3 py-1 rounded-full text-xs font-medium transition-colors duration-300 ${
+                    index === stageIndex
+                      ? 'bg-primary-500 text-white'
+                      : index < stageIndex
+                        ? 'bg-primary-100 dark:bg-primary-900/30 text-primary-700 dark:text-primary-300'
+                        : 'bg-gray-100 dark:bg-gray-800 text-gray-500 dark:text-gray-400'
+                  }`}
+                >
+                  {stage.label}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {goals.length > 0 && (
+        <div className="glass border-b border-white/20 dark:border-white/10 relative z-10">
+          <div className="max-w-6xl mx-auto px-4 py-3 flex items-center gap-3 overflow-x-auto">
+            <div className="flex items-center gap-2 text-sm font-semibold text-gray-700 dark:text-gray-300 flex-shrink-0">
+              <Target className="w-4 h-4 text-primary-500" />
+              Objectives {goals.filter((goal) => metGoals.has(goal.key)).length}/{goals.length}
+            </div>
+            {goals.map((goal) => {
+              const met = metGoals.has(goal.key);
+              return (
+                <span
+                  key={goal.key}
+                  className={`flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-medium flex-shrink-0 transition-colors duration-300 ${
+                    met
+                      ? 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300'
+                      : 'bg-gray-100 dark:bg-gray-800 text-gray-500 dark:text-gray-400'
+                  }`}
+                >
+                  {met ? <CheckCircle2 className="w-3.5 h-3.5" /> : <span className="w-3.5 h-3.5 rounded-full border border-current" />}
+                  {goal.label}
+                </span>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       <div className="flex-1 overflow-y-auto px-4 py-8 relative z-10">
         <div className="max-w-5xl mx-auto space-y-8">
-          {messages.map((message, index) => (
+          {messages.map((message, index) => message.role === 'coach' ? (
+            <div key={message.id} className="flex justify-center animate-fade-in-up">
+              <div className="flex items-start gap-3 max-w-[85%] px-5 py-3 rounded-2xl border border-dashed border-accent-300 dark:border-accent-700 bg-accent-50/80 dark:bg-accent-900/20 text-accent-800 dark:text-accent-200">
+                <Lightbulb className="w-5 h-5 flex-shrink-0 mt-0.5" />
+                <div>
+                  <p className="text-xs font-semibold mb-1">Coach hint · only you can see this</p>
+                  <p className="text-sm leading-relaxed m-0">{message.content}</p>
+                </div>
+              </div>
+            </div>
+          ) : message.metadata?.moderation_notice ? (
+            <div key={message.id} className="flex justify-center animate-fade-in-up">
+              <div className="flex items-start gap-3 max-w-[85%] px-5 py-3 rounded-2xl bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-amber-800 dark:text-amber-200">
+                <ShieldAlert className="w-5 h-5 flex-shrink-0 mt-0.5" />
+                <p className="text-sm leading-relaxed m-0">{message.content}</p>
+              </div>
+            </div>
+          ) : (
             <div
               key={message.id}
               className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'} animate-fade-in-up`}
               style={{ animationDelay: `${index * 0.1}s` }}
             >
               <div className="flex items-start gap-3 max-w-[85%]">
-                {message.role === 'assistant' && (
-                  <div className="w-10 h-10 bg-gradient-to-br from-primary-500 to-secondary-600 rounded-full flex items-center justify-center shadow-lg flex-shrink-0">
-                    <Sparkles className="w-5 h-5 text-white" />
-                  </div>
-                )}
+                {message.role === 'assistant' && renderAvatar(message.persona)}
                 
                 <div
                   className={`relative rounded-3xl px-6 py-4 shadow-lg backdrop-blur-sm ${
@@ -288,7 +506,7 @@ export function ChatInterface({ sessionId, scenarioTitle, onBack, onShowFeedback
                 >
                   {message.role === 'assistant' && (
                     <div className="flex items-center gap-2 mb-2 text-primary-600 dark:text-primary-400">
-                      <span className="text-xs font-semibold">AI Coach</span>
+                      {renderSpeakerName(message.persona)}
                       <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
                     </div>
                   )}
@@ -309,6 +527,7 @@ export function ChatInterface({ sessionId, scenarioTitle, onBack, onShowFeedback
                       hour: '2-digit', 
                       minute: '2-digit' 
                     })}
+                    {Boolean(message.metadata?.assisted_by) && ' · after a hint'}
                   </div>
                 </div>
                 
@@ -321,12 +540,32 @@ export function ChatInterface({ sessionId, scenarioTitle, onBack, onShowFeedback
             </div>
           ))}
 
-          {(loading || typingIndicator) && (
+          {streamingReplies.map((reply, index) => (
+            <div key={index} className="flex justify-start">
+              <div className="flex items-start gap-3 max-w-[85%]">
+                {renderAvatar(reply.persona)}
+                <div className="relative rounded-3xl px-6 py-4 shadow-lg backdrop-blur-sm glass-strong text-gray-900 dark:text-gray-100">
+                  <div className="flex items-center gap-2 mb-2 text-primary-600 dark:text-primary-400">
+                    {renderSpeakerName(reply.persona)}
+                    <div className="w-2 h-2 bg-yellow-500 rounded-full animate-pulse"></div>
+                  </div>
+                  <div className="prose prose-sm max-w-none">
+                    <p className="leading-relaxed whitespace-pre-wrap m-0">
+                      {reply.content}
+                      {index === streamingReplies.length - 1 && (
+                        <span className="inline-block w-2 h-4 ml-1 bg-primary-500 animate-pulse align-middle"></span>
+                      )}
+                    </p>
+                  </div>
+                </div>
+              </div>
+            </div>
+          ))}
+
+          {(loading || typingIndicator) && streamingReplies.length === 0 && (
             <div className="flex justify-start animate-fade-in-up">
               <div className="flex items-start gap-3">
-                <div className="w-10 h-10 bg-gradient-to-br from-primary-500 to-secondary-600 rounded-full flex items-center justify-center shadow-lg">
-                  <Sparkles className="w-5 h-5 text-white animate-spin" />
-                </div>
+                {renderAvatar(null, true)}
                 <div className="glass-strong rounded-3xl px-6 py-4 shadow-lg">
                   <div className="flex items-center gap-2 text-primary-600 dark:text-primary-400 mb-2">
                     <span className="text-xs font-semibold">AI Coach</span>
@@ -387,14 +626,26 @@ export function ChatInterface({ sessionId, scenarioTitle, onBack, onShowFeedback
                 </div>
               </div>
               
-              <button
-                type="submit"
-                disabled={loading || !input.trim()}
-                className="btn-primary flex items-center gap-2 px-6 py-4 text-lg disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                <Send className="w-5 h-5" />
-                <span className="hidden sm:inline">Send</span>
-              </button>
+              {loading ? (
+                <button
+                  type="button"
+                  onClick={cancelReply}
+                  className="flex items-center gap-2 px-6 py-4 text-lg rounded-2xl font-medium bg-red-500 hover:bg-red-600 text-white shadow-lg transition-all duration-300"
+                  title="Stop generating"
+                >
+                  <Square className="w-5 h-5" />
+                  <span className="hidden sm:inline">Stop</span>
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  disabled={!input.trim()}
+                  className="btn-primary flex items-center gap-2 px-6 py-4 text-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Send className="w-5 h-5" />
+                  <span className="hidden sm:inline">Send</span>
+                </button>
+              )}
             </div>
             
             {/* Quick action buttons */}
@@ -402,10 +653,11 @@ export function ChatInterface({ sessionId, scenarioTitle, onBack, onShowFeedback
               <div className="flex items-center gap-2">
                 <button
                   type="button"
-                  onClick={() => showTip('💡 Try being more specific or asking follow-up questions!')}
-                  className="text-xs text-gray-500 dark:text-gray-400 hover:text-primary-500 transition-colors"
+                  onClick={() => getHint('request')}
+                  disabled={hinting || loading || conversationLength === 0}
+                  className="text-xs text-gray-500 dark:text-gray-400 hover:text-primary-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  💡 Need help?
+                  {hinting ? '💡 Thinking of a hint...' : '💡 Need a hint?'}
                 </button>
               </div>
               
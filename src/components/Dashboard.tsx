@@ -1,6 +1,7 @@
 import { useState, useEffect, useRef } from 'react';
 import { ArrowLeft, TrendingUp, Award, Target, Clock, CheckCircle, Eye, BarChart3, Calendar, Star, Zap, Users, MessageCircle, Activity } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { averageByDimension, feedbackDimensions, overallScore, type DimensionAverage, type ScoredFeedback } from '../lib/rubric';
 import { useAuth } from '../contexts/AuthContext';
 import { useToast } from '../contexts/ToastContext';
 import { useTheme } from '../contexts/ThemeContext';
@@ -15,17 +16,11 @@ interface SessionSummary {
   scenario_title: string;
   started_at: string;
   status: string;
-  feedback?: {
-    scores: {
-      clarity: number;
-      empathy: number;
-      assertiveness: number;
-    };
-  };
+  feedback?: ScoredFeedback;
 }
 
 // Progress chart component
-const ProgressChart = ({ data, label }: { data: number; label: string }) => {
+const ProgressChart = ({ data, max = 5, label }: { data: number; max?: number; label: string }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [animatedValue, setAnimatedValue] = useState(0);
 
@@ -66,14 +61,14 @@ const ProgressChart = ({ data, label }: { data: number; label: string }) => {
     ctx.stroke();
 
     // Progress arc
-    const progress = (animatedValue / 5) * 2 * Math.PI;
+    const progress = (animatedValue / max) * 2 * Math.PI;
     ctx.beginPath();
     ctx.arc(centerX, centerY, radius, -Math.PI / 2, -Math.PI / 2 + progress);
     ctx.strokeStyle = '#14b8a6';
     ctx.lineWidth = lineWidth;
     ctx.lineCap = 'round';
     ctx.stroke();
-  }, [animatedValue]);
+  }, [animatedValue, max]);
 
   return (
     <div className="relative">
@@ -97,9 +92,7 @@ export function Dashboard({ onBack, onViewSession }: DashboardProps) {
   const [stats, setStats] = useState({
     totalSessions: 0,
     completedSessions: 0,
-    avgClarity: 0,
-    avgEmpathy: 0,
-    avgAssertiveness: 0,
+    dimensionAverages: [] as DimensionAverage[],
     improvementRate: 0,
     streakDays: 0,
     totalTimeSpent: 0,
@@ -134,8 +127,10 @@ export function Dashboard({ onBack, onViewSession }: DashboardProps) {
         (sessionsData || []).map(async (session: any) => {
           const { data: feedback } = await supabase
             .from('feedback')
-            .select('scores')
+            .select('scores, rubric')
             .eq('session_id', session.id)
+            .order('version', { ascending: false })
+            .limit(1)
             .maybeSingle();
 
           return {
@@ -151,9 +146,7 @@ export function Dashboard({ onBack, onViewSession }: DashboardProps) {
       setSessions(sessionsWithFeedback);
 
       const completedWithFeedback = sessionsWithFeedback.filter(s => s.feedback);
-      const totalClarity = completedWithFeedback.reduce((sum, s) => sum + (s.feedback?.scores.clarity || 0), 0);
-      const totalEmpathy = completedWithFeedback.reduce((sum, s) => sum + (s.feedback?.scores.empathy || 0), 0);
-      const totalAssertiveness = completedWithFeedback.reduce((sum, s) => sum + (s.feedback?.scores.assertiveness || 0), 0);
+      const feedbacks = completedWithFeedback.map(s => s.feedback!);
 
       // Calculate improvement rate (simplified)
       const improvementRate = completedWithFeedback.length > 3 ? 15 : 0;
@@ -167,9 +160,7 @@ export function Dashboard({ onBack, onViewSession }: DashboardProps) {
       setStats({
         totalSessions: sessionsData?.length || 0,
         completedSessions: completedWithFeedback.length,
-        avgClarity: completedWithFeedback.length > 0 ? totalClarity / completedWithFeedback.length : 0,
-        avgEmpathy: completedWithFeedback.length > 0 ? totalEmpathy / completedWithFeedback.length : 0,
-        avgAssertiveness: completedWithFeedback.length > 0 ? totalAssertiveness / completedWithFeedback.length : 0,
+        dimensionAverages: averageByDimension(feedbacks),
         improvementRate,
         streakDays,
         totalTimeSpent,
@@ -177,7 +168,7 @@ export function Dashboard({ onBack, onViewSession }: DashboardProps) {
 
       // Show tips based on performance
       if (completedWithFeedback.length > 0) {
-        const avgScore = (stats.avgClarity + stats.avgEmpathy + stats.avgAssertiveness) / 3;
+        const avgScore = feedbacks.reduce((sum, f) => sum + overallScore(f), 0) / feedbacks.length;
         if (avgScore > 4) {
           showTip('🎉 Excellent progress! You\'re mastering communication skills!');
         } else if (avgScore > 3) {
@@ -328,29 +319,23 @@ export function Dashboard({ onBack, onViewSession }: DashboardProps) {
 
         {/* Progress charts */}
         <div className="grid md:grid-cols-3 gap-8 mb-12">
-          <div className="card-hover p-8 text-center animate-fade-in-up animate-delay-900">
-            <div className="mb-4">
-              <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-2">Clarity</h3>
-              <p className="text-sm text-gray-600 dark:text-gray-400">How clear and structured your messages are</p>
-            </div>
-            <ProgressChart data={stats.avgClarity} label="Avg Score" />
-          </div>
-
-          <div className="card-hover p-8 text-center animate-fade-in-up animate-delay-1000">
-            <div className="mb-4">
-              <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-2">Empathy</h3>
-              <p className="text-sm text-gray-600 dark:text-gray-400">Understanding and emotional awareness</p>
-            </div>
-            <ProgressChart data={stats.avgEmpathy} label="Avg Score" />
-          </div>
-
-          <div className="card-hover p-8 text-center animate-fade-in-up animate-delay-1100">
-            <div className="mb-4">
-              <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-2">Assertiveness</h3>
-              <p className="text-sm text-gray-600 dark:text-gray-400">Confidence and boundary setting</p>
+          {stats.dimensionAverages.map(({ dimension, average }, index) => (
+            <div
+              key={dimension.key}
+              className="card-hover p-8 text-center animate-fade-in-up"
+              style={{ animationDelay: `${900 + index * 100}ms` }}
+            >
+              <div className="mb-4">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-2">{dimension.label}</h3>
+                <p className="text-sm text-gray-600 dark:text-gray-400">{dimension.description}</p>
+              </div>
+              <ProgressChart
+                data={average - dimension.scale.min}
+                max={dimension.scale.max - dimension.scale.min}
+                label="Avg Score"
+              />
             </div>
-            <ProgressChart data={stats.avgAssertiveness} label="Avg Score" />
-          </div>
+          ))}
         </div>
 
         {/* Enhanced session history */}
@@ -390,9 +375,8 @@ export function Dashboard({ onBack, onViewSession }: DashboardProps) {
                     <th className="px-8 py-4 text-left text-sm font-semibold text-gray-600 dark:text-gray-300">Scenario</th>
                     <th className="px-8 py-4 text-left text-sm font-semibold text-gray-600 dark:text-gray-300">Date</th>
                     <th className="px-8 py-4 text-left text-sm font-semibold text-gray-600 dark:text-gray-300">Status</th>
-                    <th className="px-8 py-4 text-center text-sm font-semibold text-gray-600 dark:text-gray-300">Clarity</th>
-                    <th className="px-8 py-4 text-center text-sm font-semibold text-gray-600 dark:text-gray-300">Empathy</th>
-                    <th className="px-8 py-4 text-center text-sm font-semibold text-gray-600 dark:text-gray-300">Assertiveness</th>
+                    <th className="px-8 py-4 text-center text-sm font-semibold text-gray-600 dark:text-gray-300">Overall</th>
+                    <th className="px-8 py-4 text-left text-sm font-semibold text-gray-600 dark:text-gray-300">Scores</th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
@@ -433,26 +417,25 @@ export function Dashboard({ onBack, onViewSession }: DashboardProps) {
                       <td className="px-8 py-4 text-center">
                         {session.feedback ? (
                           <span className="inline-flex items-center justify-center w-10 h-10 rounded-full bg-primary-100 dark:bg-primary-900/30 text-primary-700 dark:text-primary-400 font-bold shadow-md">
-                            {session.feedback.scores.clarity.toFixed(1)}
+                            {overallScore(session.feedback).toFixed(1)}
                           </span>
                         ) : (
                           <span className="text-gray-400">-</span>
                         )}
                       </td>
-                      <td className="px-8 py-4 text-center">
-                        {session.feedback ? (
-                          <span className="inline-flex items-center justify-center w-10 h-10 rounded-full bg-secondary-100 dark:bg-secondary-900/30 text-secondary-700 dark:text-secondary-400 font-bold shadow-md">
-                            {session.feedback.scores.empathy.toFixed(1)}
-                          </span>
-                        ) : (
-                          <span className="text-gray-400">-</span>
-                        )}
-                      </td>
-                      <td className="px-8 py-4 text-center">
+                      <td className="px-8 py-4">
                         {session.feedback ? (
-                          <span className="inline-flex items-center justify-center w-10 h-10 rounded-full bg-accent-100 dark:bg-accent-900/30 text-accent-700 dark:text-accent-400 font-bold shadow-md">
-                            {session.feedback.scores.assertiveness.toFixed(1)}
-                          </span>
+                          <div className="flex flex-wrap gap-2">
+                            {feedbackDimensions(session.feedback).map((dimension) => (
+                              <span
+                                key={dimension.key}
+                                className="inline-flex items-center gap-1 px-2 py-1 rounded-full bg-secondary-100 dark:bg-secondary-900/30 text-secondary-700 dark:text-secondary-400 text-xs font-medium"
+                              >
+                                {dimension.label}
+                                <span className="font-bold">{(session.feedback!.scores[dimension.key] ?? 0).toFixed(1)}</span>
+                              </span>
+                            ))}
+                          </div>
                         ) : (
                           <span className="text-gray-400">-</span>
                         )}
@@ -1,6 +1,11 @@
 import { useState, useEffect, useRef } from 'react';
-import { ArrowLeft, TrendingUp, Award, Target, Star, Sparkles, Zap, Heart, Share2, Download, RefreshCw } from 'lucide-react';
+import { ArrowLeft, TrendingUp, Award, Target, Star, Sparkles, Zap, Heart, Share2, Download, RefreshCw, MessageSquareQuote, Ruler, GitCompare, ArrowUp, ArrowDown, ListChecks, Flag } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { FunctionError, functionError, functionHeaders, functionUrl } from '../lib/functions';
+import { readAnalysis, readConfidence, readMetrics, readStages, type GoalStatus, type LinguisticMetrics } from '../lib/analysis';
+import { compareVersions } from '../lib/feedbackVersions';
+import { parseGoals, type ScenarioGoal } from '../lib/goals';
+import { feedbackDimensions, overallScore, scoreFraction, type RubricDimension, type Scores } from '../lib/rubric';
 import { useToast } from '../contexts/ToastContext';
 import { useTheme } from '../contexts/ThemeContext';
 
@@ -12,18 +17,26 @@ interface FeedbackDisplayProps {
 
 interface Feedback {
   id: number;
+  session_id: string;
   summary: string;
-  scores: {
-    clarity: number;
-    empathy: number;
-    assertiveness: number;
-  };
-  recommendations: string;
+  scores: Scores;
+  rubric: RubricDimension[] | null;
+  recommendations: string[];
+  detailed_analysis: unknown;
+  version: number;
+  message_count: number | null;
   created_at: string;
 }
 
-// Animated progress ring component
-const AnimatedProgressRing = ({ score, color, delay = 0 }: { score: number; color: string; delay?: number }) => {
+interface ScoreBand {
+  low: number;
+  high: number;
+  spread: number;
+  uncertain: boolean;
+}
+
+// Animated progress ring component; `band` shades the range an ensemble of judges gave
+const AnimatedProgressRing = ({ score, max = 5, color, delay = 0, band }: { score: number; max?: number; color: string; delay?: number; band?: ScoreBand }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [animatedScore, setAnimatedScore] = useState(0);
 
@@ -67,8 +80,18 @@ const AnimatedProgressRing = ({ score, color, delay = 0 }: { score: number; colo
     ctx.lineWidth = lineWidth;
     ctx.stroke();
 
+    // Confidence band
+    if (band && band.high > band.low) {
+      ctx.beginPath();
+      ctx.arc(centerX, centerY, radius, -Math.PI / 2 + (band.low / max) * 2 * Math.PI, -Math.PI / 2 + (band.high / max) * 2 * Math.PI);
+      ctx.strokeStyle = `${color}40`;
+      ctx.lineWidth = lineWidth + 10;
+      ctx.lineCap = 'butt';
+      ctx.stroke();
+    }
+
     // Progress arc
-    const progress = (animatedScore / 5) * 2 * Math.PI;
+    const progress = (animatedScore / max) * 2 * Math.PI;
     ctx.beginPath();
     ctx.arc(centerX, centerY, radius, -Math.PI / 2, -Math.PI / 2 + progress);
     ctx.strokeStyle = color;
@@ -80,47 +103,152 @@ const AnimatedProgressRing = ({ score, color, delay = 0 }: { score: number; colo
     ctx.shadowColor = color;
     ctx.shadowBlur = 20;
     ctx.stroke();
-  }, [animatedScore, color]);
+  }, [animatedScore, max, color, band]);
 
   return (
     <div className="relative">
       <canvas ref={canvasRef} width={160} height={160} className="mx-auto" />
       <div className="absolute inset-0 flex flex-col items-center justify-center">
-        <div className="text-3xl font-bold text-gray-900 dark:text-gray-100">
-          {animatedScore.toFixed(1)}
-        </div>
+        {band?.uncertain ? (
+          // The judges disagreed too much for a single number to mean much
+          <div className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+            {band.low.toFixed(1)}–{band.high.toFixed(1)}
+          </div>
+        ) : (
+          <div className="text-3xl font-bold text-gray-900 dark:text-gray-100">
+            {animatedScore.toFixed(1)}
+          </div>
+        )}
         <div className="text-sm text-gray-500 dark:text-gray-400">
-          out of 5.0
+          out of {max.toFixed(1)}
         </div>
+        {band && !band.uncertain && band.spread > 0 && (
+          <div className="text-xs text-gray-400 dark:text-gray-500">± {band.spread.toFixed(1)}</div>
+        )}
       </div>
     </div>
   );
 };
 
+const METRIC_STYLES = [
+  { icon: Target, color: '#14b8a6' },
+  { icon: Award, color: '#06b6d4' },
+  { icon: TrendingUp, color: '#8b5cf6' },
+  { icon: Heart, color: '#f43f5e' },
+  { icon: Zap, color: '#f59e0b' },
+];
+
+// Measured straight from the transcript, so they don't move between runs the way AI scores can
+const evidenceItems = (metrics: LinguisticMetrics) => [
+  { label: 'Talk ratio', value: `${Math.round(metrics.talk_ratio * 100)}%`, hint: 'of the words in the conversation were yours' },
+  { label: 'Average turn', value: `${metrics.avg_turn_words} words`, hint: `across ${metrics.user_turns} messages` },
+  { label: 'Questions asked', value: String(metrics.questions_asked), hint: 'open the other person up' },
+  { label: 'Hedges', value: String(metrics.hedges), hint: '"maybe", "I guess", "kind of"…' },
+  { label: 'Filler words', value: String(metrics.fillers), hint: '"um", "basically", "you know"…' },
+  { label: 'Apologies', value: String(metrics.apologies), hint: '"sorry", "I apologize"…' },
+  { label: '"I" vs "you"', value: `${metrics.i_statements} : ${metrics.you_statements}`, hint: 'self-focused vs other-focused language' },
+  { label: 'Readability', value: `Grade ${metrics.readability_grade}`, hint: 'Flesch-Kincaid reading level' },
+  ...(metrics.assisted_turns
+    ? [{ label: 'Coached turns', value: String(metrics.assisted_turns), hint: 'replies sent right after a hint count for less' }]
+    : []),
+  {
+    label: 'Response time',
+    value: metrics.median_response_seconds === null ? '—' : `${Math.round(metrics.median_response_seconds)}s`,
+    hint: 'median time before you replied',
+  },
+];
+
+const GOAL_STATUS_LABELS: Record<GoalStatus, string> = { met: 'Met', partial: 'Partly met', missed: 'Missed' };
+
+const GOAL_STATUS_STYLES: Record<GoalStatus, string> = {
+  met: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300',
+  partial: 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300',
+  missed: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300',
+};
+
 export function FeedbackDisplay({ sessionId, onBack, onReturnHome }: FeedbackDisplayProps) {
-  const [feedback, setFeedback] = useState<Feedback | null>(null);
+  const [versions, setVersions] = useState<Feedback[]>([]);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [compareVersion, setCompareVersion] = useState<number | null>(null);
+  const [messageCount, setMessageCount] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
   const [generating, setGenerating] = useState(false);
   const [showCelebration, setShowCelebration] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [userMessages, setUserMessages] = useState<{ id: number; content: string }[]>([]);
+  const [scenarioGoals, setScenarioGoals] = useState<ScenarioGoal[]>([]);
   const { showToast, showCelebration: showCelebrationToast } = useToast();
   const { actualTheme } = useTheme();
 
+  const feedback = versions.find((version) => version.version === selectedVersion) ?? versions[versions.length - 1] ?? null;
+  const latest = versions[versions.length - 1];
+  // The user kept practising after the latest version was generated
+  const isStale = Boolean(latest?.message_count && messageCount && messageCount > latest.message_count);
+
   useEffect(() => {
     loadOrGenerateFeedback();
+    loadUserMessages();
+    loadMessageCount();
+    loadScenarioGoals();
   }, [sessionId]);
 
+  const loadScenarioGoals = async () => {
+    const { data, error } = await supabase
+      .from('session')
+      .select('scenario:scenario_id (goals)')
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading scenario goals:', error);
+      return;
+    }
+    setScenarioGoals(parseGoals((data?.scenario as { goals?: unknown } | null)?.goals));
+  };
+
+  const loadMessageCount = async () => {
+    const { count, error } = await supabase
+      .from('message')
+      .select('id', { count: 'exact', head: true })
+      .eq('session_id', sessionId)
+      .neq('role', 'coach');
+
+    if (error) {
+      console.error('Error counting messages:', error);
+      return;
+    }
+    setMessageCount(count);
+  };
+
+  // Recommendations point back at the user's own turns by message id
+  const loadUserMessages = async () => {
+    const { data, error } = await supabase
+      .from('message')
+      .select('id, content')
+      .eq('session_id', sessionId)
+      .eq('role', 'user')
+      .order('created_at');
+
+    if (error) {
+      console.error('Error loading messages:', error);
+      return;
+    }
+    setUserMessages(data || []);
+  };
+
   const loadOrGenerateFeedback = async () => {
     try {
-      const { data: existingFeedback, error } = await supabase
+      const { data: existingVersions, error } = await supabase
         .from('feedback')
         .select('*')
         .eq('session_id', sessionId)
-        .maybeSingle();
+        .order('version');
 
       if (error) throw error;
 
-      if (existingFeedback) {
-        setFeedback(existingFeedback);
+      if (existingVersions && existingVersions.length > 0) {
+        setVersions(existingVersions);
+        setSelectedVersion(existingVersions[existingVersions.length - 1].version);
         setLoading(false);
       } else {
         await generateFeedback();
@@ -133,26 +261,26 @@ export function FeedbackDisplay({ sessionId, onBack, onReturnHome }: FeedbackDis
 
   const generateFeedback = async () => {
     setGenerating(true);
+    setErrorMessage(null);
     try {
-      const apiUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/feedback`;
-      const response = await fetch(apiUrl, {
+      const response = await fetch(functionUrl('feedback'), {
         method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-          'Content-Type': 'application/json',
-        },
+        headers: await functionHeaders(),
         body: JSON.stringify({ session_id: sessionId }),
       });
 
       if (!response.ok) {
-        throw new Error('Failed to generate feedback');
+        throw await functionError(response, 'Failed to generate feedback');
       }
 
-      const feedbackData = await response.json();
-      setFeedback(feedbackData);
+      const feedbackData: Feedback = await response.json();
+      setVersions((prev) => [...prev, feedbackData]);
+      setSelectedVersion(feedbackData.version);
+      setCompareVersion(versions.length > 0 ? versions[versions.length - 1].version : null);
+      loadMessageCount();
       
       // Show celebration for good scores
-      const avgScore = (feedbackData.scores.clarity + feedbackData.scores.empathy + feedbackData.scores.assertiveness) / 3;
+      const avgScore = overallScore(feedbackData);
       if (avgScore >= 4) {
         setShowCelebration(true);
         showCelebrationToast('🎉 Outstanding performance! You\'re mastering communication skills!');
@@ -163,7 +291,12 @@ export function FeedbackDisplay({ sessionId, onBack, onReturnHome }: FeedbackDis
       }
     } catch (error) {
       console.error('Error generating feedback:', error);
-      showToast('Failed to generate feedback. Please try again.', 'error');
+      // Quota, validation and short-conversation failures carry a message meant for the user
+      const message = error instanceof FunctionError && error.code
+        ? error.message
+        : 'Failed to generate feedback. Please try again.';
+      setErrorMessage(message);
+      showToast(message, 'error');
     } finally {
       setGenerating(false);
       setLoading(false);
@@ -174,7 +307,9 @@ export function FeedbackDisplay({ sessionId, onBack, onReturnHome }: FeedbackDis
     if (navigator.share && feedback) {
       navigator.share({
         title: 'My Communication Skills Progress',
-        text: `Just completed a practice session! My scores: Clarity ${feedback.scores.clarity}/5, Empathy ${feedback.scores.empathy}/5, Assertiveness ${feedback.scores.assertiveness}/5`,
+        text: `Just completed a practice session! My scores: ${feedbackDimensions(feedback)
+          .map((dimension) => `${dimension.label} ${feedback.scores[dimension.key]}/${dimension.scale.max}`)
+          .join(', ')}`,
         url: window.location.href,
       });
     } else {
@@ -212,18 +347,56 @@ export function FeedbackDisplay({ sessionId, onBack, onReturnHome }: FeedbackDis
     return (
       <div className="min-h-screen bg-gradient-to-br from-slate-50 to-teal-50 flex items-center justify-center">
         <div className="text-center">
-          <p className="text-gray-600 mb-4">Unable to generate feedback</p>
-          <button
-            onClick={onBack}
-            className="px-6 py-3 bg-teal-500 text-white rounded-lg hover:bg-teal-600 transition-colors"
-          >
-            Back to Chat
-          </button>
+          <p className="text-gray-600 mb-4">{errorMessage ?? 'Unable to generate feedback'}</p>
+          <div className="flex justify-center gap-3">
+            <button
+              onClick={generateFeedback}
+              className="flex items-center gap-2 px-6 py-3 bg-white text-teal-600 border border-teal-500 rounded-lg hover:bg-teal-50 transition-colors"
+            >
+              <RefreshCw className="w-4 h-4" />
+              Try Again
+            </button>
+            <button
+              onClick={onBack}
+              className="px-6 py-3 bg-teal-500 text-white rounded-lg hover:bg-teal-600 transition-colors"
+            >
+              Back to Chat
+            </button>
+          </div>
         </div>
       </div>
     );
   }
 
+  const analysis = readAnalysis(feedback.detailed_analysis);
+  const citedTurns = (messageIds: number[]) =>
+    messageIds
+      .map((id) => {
+        const position = userMessages.findIndex((message) => message.id === id);
+        return position === -1 ? null : { ...userMessages[position], number: position + 1 };
+      })
+      .filter((turn): turn is { id: number; content: string; number: number } => turn !== null);
+  const linkedTurns = (index: number) => citedTurns(analysis.recommendations[index]?.message_ids ?? []);
+
+  // Goals the scenario has since dropped are still shown, by key
+  const goalResults = analysis.goals.map((result) => ({
+    ...result,
+    label: scenarioGoals.find((goal) => goal.key === result.key)?.label ?? result.key,
+  }));
+
+  const stageResults = readStages(feedback.detailed_analysis);
+  const dimensions = feedbackDimensions(feedback);
+
+  const metrics = readMetrics(feedback.detailed_analysis);
+  const confidence = readConfidence(feedback.detailed_analysis);
+
+  const compared = versions.find((version) => version.version === compareVersion && version.version !== feedback.version);
+  const comparison = compared
+    ? compared.version < feedback.version
+      ? { before: compared, after: feedback, changes: compareVersions(compared, feedback) }
+      : { before: feedback, after: compared, changes: compareVersions(feedback, compared) }
+    : null;
+
   const getScoreColor = (score: number) => {
     if (score >= 4) return 'from-green-500 to-emerald-600';
     if (score >= 3) return 'from-teal-500 to-cyan-600';
@@ -277,13 +450,133 @@ export function FeedbackDisplay({ sessionId, onBack, onReturnHome }: FeedbackDis
           </p>
         </div>
 
+        {/* Versions */}
+        <div className="glass-strong rounded-2xl p-4 mb-8 flex flex-wrap items-center gap-4 animate-fade-in-up animate-delay-300">
+          <div className="flex items-center gap-2">
+            <label htmlFor="feedback-version" className="text-sm font-medium text-gray-700 dark:text-gray-300">Version</label>
+            <select
+              id="feedback-version"
+              value={feedback.version}
+              onChange={(e) => setSelectedVersion(Number(e.target.value))}
+              className="px-3 py-1.5 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 text-sm"
+            >
+              {versions.map((version) => (
+                <option key={version.version} value={version.version}>
+                  {version.version} — {new Date(version.created_at).toLocaleString()}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {versions.length > 1 && (
+            <div className="flex items-center gap-2">
+              <GitCompare className="w-4 h-4 text-gray-500 dark:text-gray-400" />
+              <label htmlFor="compare-version" className="text-sm font-medium text-gray-700 dark:text-gray-300">Compare with</label>
+              <select
+                id="compare-version"
+                value={compared?.version ?? ''}
+                onChange={(e) => setCompareVersion(e.target.value ? Number(e.target.value) : null)}
+                className="px-3 py-1.5 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 text-sm"
+              >
+                <option value="">None</option>
+                {versions
+                  .filter((version) => version.version !== feedback.version)
+                  .map((version) => (
+                    <option key={version.version} value={version.version}>
+                      Version {version.version}
+                    </option>
+                  ))}
+              </select>
+            </div>
+          )}
+
+          <span className="text-sm text-gray-500 dark:text-gray-400">
+            {feedback.message_count ? `Generated from ${feedback.message_count} messages` : 'Generated before versioning'}
+          </span>
+
+          <button
+            onClick={generateFeedback}
+            className="ml-auto flex items-center gap-2 px-4 py-2 bg-white dark:bg-gray-800 text-teal-600 dark:text-teal-400 border border-teal-500 rounded-lg hover:bg-teal-50 dark:hover:bg-gray-700 transition-colors text-sm font-medium"
+          >
+            <RefreshCw className="w-4 h-4" />
+            Regenerate
+          </button>
+
+          {isStale && (
+            <p className="w-full text-sm text-amber-700 dark:text-amber-400">
+              You've continued this conversation since the latest feedback. Regenerate to be scored on everything you've said.
+            </p>
+          )}
+        </div>
+
+        {/* Version comparison */}
+        {comparison && (
+          <div className="card-hover p-8 mb-8 animate-fade-in-up">
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-6 flex items-center gap-3">
+              <GitCompare className="w-6 h-6 text-primary-500" />
+              Version {comparison.before.version} → Version {comparison.after.version}
+            </h2>
+
+            <div className="grid md:grid-cols-2 gap-8">
+              <div>
+                <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-3">Scores</h3>
+                <div className="space-y-2">
+                  {comparison.changes.scores.map(({ dimension, before, after }) => {
+                    const change = before !== null && after !== null ? after - before : null;
+                    return (
+                      <div key={dimension.key} className="flex items-center justify-between p-3 glass rounded-xl">
+                        <span className="text-gray-700 dark:text-gray-300">{dimension.label}</span>
+                        <span className="flex items-center gap-3 text-sm">
+                          <span className="text-gray-500 dark:text-gray-400">{before?.toFixed(1) ?? '—'}</span>
+                          <span className="text-gray-400">→</span>
+                          <span className="font-semibold text-gray-900 dark:text-gray-100">{after?.toFixed(1) ?? '—'}</span>
+                          {change !== null && change !== 0 && (
+                            <span className={`flex items-center font-medium ${change > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                              {change > 0 ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />}
+                              {Math.abs(change).toFixed(1)}
+                            </span>
+                          )}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+
+              <div>
+                <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-3">Recommendations</h3>
+                <ul className="space-y-2 text-sm">
+                  {comparison.changes.added.map((text) => (
+                    <li key={`added-${text}`} className="p-3 rounded-xl bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-300">
+                      <span className="font-semibold">New:</span> {text}
+                    </li>
+                  ))}
+                  {comparison.changes.removed.map((text) => (
+                    <li key={`removed-${text}`} className="p-3 rounded-xl bg-gray-100 dark:bg-gray-800 text-gray-500 dark:text-gray-400 line-through">
+                      {text}
+                    </li>
+                  ))}
+                  {comparison.changes.kept.map((text) => (
+                    <li key={`kept-${text}`} className="p-3 rounded-xl glass text-gray-700 dark:text-gray-300">
+                      <span className="font-semibold">Still relevant:</span> {text}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Enhanced score displays */}
         <div className="grid md:grid-cols-3 gap-8 mb-12">
-          {[
-            { label: 'Clarity', score: feedback.scores.clarity, icon: Target, color: '#14b8a6', description: 'Message structure and precision' },
-            { label: 'Empathy', score: feedback.scores.empathy, icon: Award, color: '#06b6d4', description: 'Emotional awareness and validation' },
-            { label: 'Assertiveness', score: feedback.scores.assertiveness, icon: TrendingUp, color: '#8b5cf6', description: 'Confidence and boundary setting' },
-          ].map((metric, index) => (
+          {feedbackDimensions(feedback).map((dimension, index) => ({
+            ...METRIC_STYLES[index % METRIC_STYLES.length],
+            label: dimension.label,
+            description: dimension.description,
+            score: feedback.scores[dimension.key] ?? dimension.scale.min,
+            confidence: confidence?.[dimension.key],
+            dimension,
+          })).map((metric, index) => (
             <div
               key={metric.label}
               className="card-hover p-8 text-center animate-fade-in-up"
@@ -298,16 +591,29 @@ export function FeedbackDisplay({ sessionId, onBack, onReturnHome }: FeedbackDis
               </div>
 
               <AnimatedProgressRing 
-                score={metric.score} 
+                score={metric.score - metric.dimension.scale.min}
+                max={metric.dimension.scale.max - metric.dimension.scale.min}
                 color={metric.color} 
                 delay={600 + index * 200} 
+                band={metric.confidence && {
+                  low: metric.confidence.low - metric.dimension.scale.min,
+                  high: metric.confidence.high - metric.dimension.scale.min,
+                  spread: metric.confidence.spread,
+                  uncertain: metric.confidence.uncertain,
+                }}
               />
 
+              {metric.confidence?.uncertain && (
+                <p className="mt-3 inline-flex items-center gap-1 px-3 py-1 rounded-full bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-300 text-xs font-medium">
+                  Uncertain: {metric.confidence.judgements.length} judges disagreed
+                </p>
+              )}
+
               <div className="mt-6">
                 <p className="text-sm text-gray-600 dark:text-gray-400">
-                  {metric.score >= 4 ? '🌟 Excellent performance!' :
-                   metric.score >= 3 ? '💪 Good job, keep improving!' :
-                   metric.score >= 2 ? '🚀 Fair, needs practice' :
+                  {scoreFraction(metric.score, metric.dimension) >= 0.8 ? '🌟 Excellent performance!' :
+                   scoreFraction(metric.score, metric.dimension) >= 0.6 ? '💪 Good job, keep improving!' :
+                   scoreFraction(metric.score, metric.dimension) >= 0.4 ? '🚀 Fair, needs practice' :
                    '📈 Needs significant improvement'}
                 </p>
               </div>
@@ -315,6 +621,122 @@ export function FeedbackDisplay({ sessionId, onBack, onReturnHome }: FeedbackDis
           ))}
         </div>
 
+        {/* Objective evidence */}
+        {metrics && (
+          <div className="card-hover p-8 mb-8 animate-fade-in-up animate-delay-500">
+            <h2 className="text-3xl font-bold text-gray-900 dark:text-gray-100 mb-2 flex items-center gap-4">
+              <div className="w-12 h-12 bg-gradient-to-br from-secondary-500 to-accent-600 rounded-2xl flex items-center justify-center shadow-lg">
+                <Ruler className="w-6 h-6 text-white" />
+              </div>
+              Objective Evidence
+            </h2>
+            <p className="text-gray-600 dark:text-gray-400 mb-6">
+              Measured directly from your messages, so these numbers are the same every time this conversation is analyzed.
+            </p>
+
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+              {evidenceItems(metrics).map((item) => (
+                <div key={item.label} className="p-4 glass-strong rounded-2xl border border-white/20 dark:border-white/10">
+                  <p className="text-sm text-gray-600 dark:text-gray-400">{item.label}</p>
+                  <p className="text-2xl font-bold text-gray-900 dark:text-gray-100">{item.value}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{item.hint}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Objective checklist */}
+        {goalResults.length > 0 && (
+          <div className="card-hover p-8 mb-8 animate-fade-in-up animate-delay-500">
+            <h2 className="text-3xl font-bold text-gray-900 dark:text-gray-100 mb-2 flex items-center gap-4">
+              <div className="w-12 h-12 bg-gradient-to-br from-accent-500 to-primary-600 rounded-2xl flex items-center justify-center shadow-lg">
+                <ListChecks className="w-6 h-6 text-white" />
+              </div>
+              Objective Checklist
+            </h2>
+            <p className="text-gray-600 dark:text-gray-400 mb-6">
+              {goalResults.filter((goal) => goal.status === 'met').length} of {goalResults.length} objectives met in this conversation.
+            </p>
+
+            <div className="space-y-4">
+              {goalResults.map((goal) => (
+                <div key={goal.key} className="p-5 glass-strong rounded-2xl border border-white/20 dark:border-white/10">
+                  <div className="flex items-center justify-between gap-4 mb-2">
+                    <p className="font-semibold text-gray-900 dark:text-gray-100">{goal.label}</p>
+                    <span className={`px-3 py-1 rounded-full text-xs font-semibold flex-shrink-0 ${GOAL_STATUS_STYLES[goal.status]}`}>
+                      {GOAL_STATUS_LABELS[goal.status]}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">{goal.evidence}</p>
+                  {citedTurns(goal.message_ids).length > 0 && (
+                    <div className="mt-3 space-y-2">
+                      {citedTurns(goal.message_ids).map((turn) => (
+                        <div
+                          key={turn.id}
+                          className="flex items-start gap-2 text-sm text-gray-600 dark:text-gray-400 border-l-2 border-primary-300 dark:border-primary-700 pl-3"
+                        >
+                          <MessageSquareQuote className="w-4 h-4 flex-shrink-0 mt-0.5 text-primary-500" />
+                          <span>
+                            <span className="font-medium">Your message {turn.number}:</span>{' '}
+                            <span className="italic">
+                              "{turn.content.length > 120 ? `${turn.content.slice(0, 120)}…` : turn.content}"
+                            </span>
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Scores by stage */}
+        {stageResults.length > 0 && (
+          <div className="card-hover p-8 mb-8 animate-fade-in-up animate-delay-500">
+            <h2 className="text-3xl font-bold text-gray-900 dark:text-gray-100 mb-2 flex items-center gap-4">
+              <div className="w-12 h-12 bg-gradient-to-br from-secondary-500 to-primary-600 rounded-2xl flex items-center justify-center shadow-lg">
+                <Flag className="w-6 h-6 text-white" />
+              </div>
+              Scores by Stage
+            </h2>
+            <p className="text-gray-600 dark:text-gray-400 mb-6">
+              How each part of the conversation went, scored on your turns within it.
+            </p>
+
+            <div className="space-y-4">
+              {stageResults.map((stage, index) => (
+                <div key={stage.key} className="p-5 glass-strong rounded-2xl border border-white/20 dark:border-white/10">
+                  <div className="flex items-center justify-between gap-4 mb-3">
+                    <p className="font-semibold text-gray-900 dark:text-gray-100">
+                      {index + 1}. {stage.label}
+                    </p>
+                    <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">
+                      {stage.message_ids.length} {stage.message_ids.length === 1 ? 'turn' : 'turns'}
+                    </span>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {dimensions
+                      .filter((dimension) => typeof stage.scores[dimension.key] === 'number')
+                      .map((dimension) => (
+                        <span
+                          key={dimension.key}
+                          className={`px-3 py-1 rounded-full text-xs font-semibold text-white bg-gradient-to-r ${getScoreColor(
+                            scoreFraction(stage.scores[dimension.key], dimension) * 5
+                          )}`}
+                        >
+                          {dimension.label}: {stage.scores[dimension.key].toFixed(1)}/{dimension.scale.max}
+                        </span>
+                      ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Enhanced recommendations section */}
         <div className="card-hover p-8 mb-8 animate-fade-in-up animate-delay-1000">
           <h2 className="text-3xl font-bold text-gray-900 dark:text-gray-100 mb-8 flex items-center gap-4">
@@ -325,7 +747,7 @@ export function FeedbackDisplay({ sessionId, onBack, onReturnHome }: FeedbackDis
           </h2>
 
           <div className="space-y-6">
-            {feedback.recommendations.split('\n').filter(line => line.trim()).map((rec, index) => (
+            {feedback.recommendations.map((rec, index) => (
               <div 
                 key={index} 
                 className="flex gap-6 p-6 glass-strong rounded-2xl border border-white/20 dark:border-white/10 animate-fade-in-up"
@@ -336,8 +758,26 @@ export function FeedbackDisplay({ sessionId, onBack, onReturnHome }: FeedbackDis
                 </div>
                 <div className="flex-1">
                   <p className="text-gray-700 dark:text-gray-300 leading-relaxed text-lg">
-                    {rec.replace(/^[•\-]\s*/, '')}
+                    {rec}
                   </p>
+                  {linkedTurns(index).length > 0 && (
+                    <div className="mt-4 space-y-2">
+                      {linkedTurns(index).map((turn) => (
+                        <div
+                          key={turn.id}
+                          className="flex items-start gap-2 text-sm text-gray-600 dark:text-gray-400 border-l-2 border-primary-300 dark:border-primary-700 pl-3"
+                        >
+                          <MessageSquareQuote className="w-4 h-4 flex-shrink-0 mt-0.5 text-primary-500" />
+                          <span>
+                            <span className="font-medium">Your message {turn.number}:</span>{' '}
+                            <span className="italic">
+                              "{turn.content.length > 120 ? `${turn.content.slice(0, 120)}…` : turn.content}"
+                            </span>
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
             ))}
@@ -372,11 +812,11 @@ export function FeedbackDisplay({ sessionId, onBack, onReturnHome }: FeedbackDis
               </div>
               <div>
                 <h3 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Overall Score</h3>
-                <p className="text-gray-600 dark:text-gray-400">Based on all three metrics</p>
+                <p className="text-gray-600 dark:text-gray-400">Weighted across all {feedbackDimensions(feedback).length} dimensions</p>
               </div>
             </div>
             <div className="text-6xl font-bold gradient-text mb-2">
-              {((feedback.scores.clarity + feedback.scores.empathy + feedback.scores.assertiveness) / 3).toFixed(1)}
+              {overallScore(feedback).toFixed(1)}
             </div>
             <p className="text-lg text-gray-600 dark:text-gray-400">out of 5.0</p>
           </div>
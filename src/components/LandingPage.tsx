@@ -1,10 +1,11 @@
-import { useState, useEffect, useRef } from 'react';
-import { Briefcase, MessageCircle, Users, TrendingUp, Sparkles, Star, Zap, Target, Award, ArrowRight, Play, Pause, Volume2 } from 'lucide-react';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Briefcase, MessageCircle, Users, TrendingUp, Sparkles, Star, Zap, Target, Award, ArrowRight, Play, Pause, Volume2, Plus, Pencil, Lock } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { useToast } from '../contexts/ToastContext';
 import { useTheme } from '../contexts/ThemeContext';
 import { AuthModal } from './AuthModal';
+import { ScenarioBuilder } from './ScenarioBuilder';
 
 interface Scenario {
   id: string;
@@ -141,6 +142,8 @@ const FloatingStats = () => {
 
 export function LandingPage({ onStartSession }: LandingPageProps) {
   const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [myScenarios, setMyScenarios] = useState<Scenario[]>([]);
+  const [builder, setBuilder] = useState<{ scenarioId: string | null } | null>(null);
   const [loading, setLoading] = useState(true);
   const [showAuth, setShowAuth] = useState(false);
   const [selectedScenario, setSelectedScenario] = useState<string | null>(null);
@@ -160,6 +163,7 @@ export function LandingPage({ onStartSession }: LandingPageProps) {
         .from('scenario')
         .select('id, title, description, icon, difficulty_level, estimated_duration, objective')
         .eq('is_active', true)
+        .is('owner_id', null)
         .order('created_at');
 
       if (error) throw error;
@@ -177,6 +181,34 @@ export function LandingPage({ onStartSession }: LandingPageProps) {
     }
   };
 
+  const loadMyScenarios = useCallback(async () => {
+    if (!user) {
+      setMyScenarios([]);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('scenario')
+      .select('id, title, description, icon, difficulty_level, estimated_duration, objective')
+      .eq('owner_id', user.id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error loading your scenarios:', error);
+      return;
+    }
+    setMyScenarios(data || []);
+  }, [user]);
+
+  useEffect(() => {
+    loadMyScenarios();
+  }, [loadMyScenarios]);
+
+  const handleScenarioSaved = async () => {
+    setBuilder(null);
+    await loadMyScenarios();
+  };
+
   const handleScenarioClick = (scenarioId: string, title: string) => {
     if (!user) {
       setSelectedScenario(scenarioId);
@@ -210,6 +242,106 @@ export function LandingPage({ onStartSession }: LandingPageProps) {
     }
   }, [user, selectedScenario]);
 
+  const renderScenarioCard = (scenario: Scenario, index: number, onEdit?: () => void) => {
+    const Icon = iconMap[scenario.icon] || MessageCircle;
+    const isHovered = hoveredScenario === scenario.id;
+    
+    return (
+      <div
+        key={scenario.id}
+        className="group card-hover cursor-pointer perspective-1000"
+        onClick={() => handleScenarioClick(scenario.id, scenario.title)}
+        onMouseEnter={() => setHoveredScenario(scenario.id)}
+        onMouseLeave={() => setHoveredScenario(null)}
+        style={{
+          animation: `fadeInUp 0.6s ease-out ${index * 0.1}s both`,
+        }}
+      >
+        <div className="relative overflow-hidden">
+          {/* Background gradient */}
+          <div className={`absolute inset-0 bg-gradient-to-br from-primary-500/10 via-secondary-500/10 to-accent-500/10 transition-all duration-500 ${
+            isHovered ? 'opacity-100' : 'opacity-0'
+          }`} />
+          
+          {/* Icon with glow effect */}
+          <div className={`relative w-16 h-16 bg-gradient-to-br from-primary-100 to-secondary-100 dark:from-primary-900/30 dark:to-secondary-900/30 rounded-2xl flex items-center justify-center mb-6 group-hover:scale-110 transition-all duration-500 ${
+            isHovered ? 'shadow-glow-lg' : ''
+          }`}>
+            <Icon className={`w-8 h-8 text-primary-600 dark:text-primary-400 transition-all duration-300 ${
+              isHovered ? 'animate-bounce-gentle' : ''
+            }`} />
+          </div>
+
+          {/* Difficulty badge */}
+          {scenario.difficulty_level && (
+            <div className={`absolute top-4 right-4 px-3 py-1 rounded-full text-xs font-semibold ${getDifficultyColor(scenario.difficulty_level)}`}>
+              {scenario.difficulty_level}
+            </div>
+          )}
+
+          <h3 className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-3 group-hover:gradient-text transition-all duration-300">
+            {scenario.title}
+          </h3>
+
+          <p className="text-gray-600 dark:text-gray-300 leading-relaxed mb-4 text-sm">
+            {scenario.description}
+          </p>
+
+          {/* Duration and objective */}
+          <div className="space-y-2 mb-6">
+            {scenario.estimated_duration && (
+              <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                <div className="w-2 h-2 bg-primary-500 rounded-full animate-pulse"></div>
+                <span>{scenario.estimated_duration} minutes</span>
+              </div>
+            )}
+            {scenario.objective && (
+              <div className="text-xs text-gray-500 dark:text-gray-400 line-clamp-2">
+                {scenario.objective}
+              </div>
+            )}
+            {onEdit && (
+              <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                <Lock className="w-3 h-3" />
+                <span>Only visible to you</span>
+              </div>
+            )}
+          </div>
+
+          {/* Action button */}
+          <div className="flex items-center justify-between">
+            <div className="flex items-center text-primary-600 dark:text-primary-400 font-medium group-hover:gap-3 transition-all duration-300">
+              <span className="text-sm">Start Practice</span>
+              <ArrowRight className={`w-4 h-4 transition-all duration-300 ${
+                isHovered ? 'translate-x-1 scale-110' : 'opacity-0 -translate-x-2'
+              }`} />
+            </div>
+            
+            <div className="flex items-center gap-2">
+              {onEdit && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onEdit();
+                  }}
+                  className="p-2 rounded-full text-gray-400 hover:text-primary-600 hover:bg-primary-50 dark:hover:bg-primary-900/30 transition-colors"
+                  title="Edit scenario"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+              )}
+              <div className={`w-8 h-8 rounded-full bg-gradient-to-r from-primary-500 to-secondary-600 flex items-center justify-center transition-all duration-300 ${
+                isHovered ? 'scale-100 opacity-100' : 'scale-0 opacity-0'
+              }`}>
+                <Play className="w-4 h-4 text-white ml-0.5" />
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
   return (
     <div className="min-h-screen relative overflow-hidden">
       <ParticleBackground />
@@ -284,85 +416,36 @@ export function LandingPage({ onStartSession }: LandingPageProps) {
           </div>
         ) : (
           <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8 mb-12">
-            {scenarios.map((scenario, index) => {
-              const Icon = iconMap[scenario.icon] || MessageCircle;
-              const isHovered = hoveredScenario === scenario.id;
-              
-              return (
-                <div
-                  key={scenario.id}
-                  className="group card-hover cursor-pointer perspective-1000"
-                  onClick={() => handleScenarioClick(scenario.id, scenario.title)}
-                  onMouseEnter={() => setHoveredScenario(scenario.id)}
-                  onMouseLeave={() => setHoveredScenario(null)}
-                  style={{
-                    animation: `fadeInUp 0.6s ease-out ${index * 0.1}s both`,
-                  }}
-                >
-                  <div className="relative overflow-hidden">
-                    {/* Background gradient */}
-                    <div className={`absolute inset-0 bg-gradient-to-br from-primary-500/10 via-secondary-500/10 to-accent-500/10 transition-all duration-500 ${
-                      isHovered ? 'opacity-100' : 'opacity-0'
-                    }`} />
-                    
-                    {/* Icon with glow effect */}
-                    <div className={`relative w-16 h-16 bg-gradient-to-br from-primary-100 to-secondary-100 dark:from-primary-900/30 dark:to-secondary-900/30 rounded-2xl flex items-center justify-center mb-6 group-hover:scale-110 transition-all duration-500 ${
-                      isHovered ? 'shadow-glow-lg' : ''
-                    }`}>
-                      <Icon className={`w-8 h-8 text-primary-600 dark:text-primary-400 transition-all duration-300 ${
-                        isHovered ? 'animate-bounce-gentle' : ''
-                      }`} />
-                    </div>
-
-                    {/* Difficulty badge */}
-                    {scenario.difficulty_level && (
-                      <div className={`absolute top-4 right-4 px-3 py-1 rounded-full text-xs font-semibold ${getDifficultyColor(scenario.difficulty_level)}`}>
-                        {scenario.difficulty_level}
-                      </div>
-                    )}
-
-                    <h3 className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-3 group-hover:gradient-text transition-all duration-300">
-                      {scenario.title}
-                    </h3>
-
-                    <p className="text-gray-600 dark:text-gray-300 leading-relaxed mb-4 text-sm">
-                      {scenario.description}
-                    </p>
-
-                    {/* Duration and objective */}
-                    <div className="space-y-2 mb-6">
-                      {scenario.estimated_duration && (
-                        <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
-                          <div className="w-2 h-2 bg-primary-500 rounded-full animate-pulse"></div>
-                          <span>{scenario.estimated_duration} minutes</span>
-                        </div>
-                      )}
-                      {scenario.objective && (
-                        <div className="text-xs text-gray-500 dark:text-gray-400 line-clamp-2">
-                          {scenario.objective}
-                        </div>
-                      )}
-                    </div>
-
-                    {/* Action button */}
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center text-primary-600 dark:text-primary-400 font-medium group-hover:gap-3 transition-all duration-300">
-                        <span className="text-sm">Start Practice</span>
-                        <ArrowRight className={`w-4 h-4 transition-all duration-300 ${
-                          isHovered ? 'translate-x-1 scale-110' : 'opacity-0 -translate-x-2'
-                        }`} />
-                      </div>
-                      
-                      <div className={`w-8 h-8 rounded-full bg-gradient-to-r from-primary-500 to-secondary-600 flex items-center justify-center transition-all duration-300 ${
-                        isHovered ? 'scale-100 opacity-100' : 'scale-0 opacity-0'
-                      }`}>
-                        <Play className="w-4 h-4 text-white ml-0.5" />
-                      </div>
-                    </div>
-                  </div>
-                </div>
-              );
-            })}
+            {scenarios.map((scenario, index) => renderScenarioCard(scenario, index))}
+          </div>
+        )}
+
+        {/* Private scenarios the user drafted from their own briefs */}
+        {user && !loading && (
+          <div className="mb-16 animate-fade-in-up">
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+              <div>
+                <h2 className="text-3xl font-bold text-gray-900 dark:text-gray-100">My scenarios</h2>
+                <p className="text-gray-600 dark:text-gray-300">Rehearse your own real conversations</p>
+              </div>
+              <button onClick={() => setBuilder({ scenarioId: null })} className="btn-primary">
+                <Plus className="w-5 h-5 mr-2" />
+                Create your own
+              </button>
+            </div>
+
+            {myScenarios.length === 0 ? (
+              <div className="glass rounded-2xl p-8 text-center text-gray-600 dark:text-gray-300">
+                Describe a conversation you're dreading, like telling your manager you're resigning, and we'll turn it into a
+                practice scenario only you can see.
+              </div>
+            ) : (
+              <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
+                {myScenarios.map((scenario, index) =>
+                  renderScenarioCard(scenario, index, () => setBuilder({ scenarioId: scenario.id }))
+                )}
+              </div>
+            )}
           </div>
         )}
 
@@ -418,6 +501,13 @@ export function LandingPage({ onStartSession }: LandingPageProps) {
       </div>
 
       <AuthModal isOpen={showAuth} onClose={() => setShowAuth(false)} />
+      {builder && (
+        <ScenarioBuilder
+          scenarioId={builder.scenarioId}
+          onClose={() => setBuilder(null)}
+          onSaved={handleScenarioSaved}
+        />
+      )}
     </div>
   );
 }
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { Menu, X, Home, BarChart3, User, Settings as SettingsIcon, LogOut, Bell, Star, Target, Zap, MessageCircle } from 'lucide-react';
+import { Menu, X, Home, BarChart3, User, Settings as SettingsIcon, LogOut, Bell, Star, Target, Zap, MessageCircle, PenTool } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { useToast } from '../contexts/ToastContext';
 import { QuickThemeToggle } from './ThemeToggle';
@@ -13,7 +13,7 @@ interface NavigationMenuProps {
 export function NavigationMenu({ currentView, onNavigate, onSignOut }: NavigationMenuProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [showTooltips, setShowTooltips] = useState(true);
-  const { user } = useAuth();
+  const { user, isAdmin } = useAuth();
   const { showTip } = useToast();
 
   useEffect(() => {
@@ -58,6 +58,15 @@ export function NavigationMenu({ currentView, onNavigate, onSignOut }: Navigatio
       description: 'Preferences',
       badge: null
     },
+    ...(isAdmin
+      ? [{
+          id: 'studio',
+          label: 'Scenario Studio',
+          icon: PenTool,
+          description: 'Author scenarios',
+          badge: null
+        }]
+      : []),
   ];
 
   const handleNavigate = (view: string) => {
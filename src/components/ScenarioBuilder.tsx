@@ -0,0 +1,265 @@
+import { useState, useEffect } from 'react';
+import { X, Sparkles, Plus, Trash2, ArrowLeft } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { BRIEF_EXAMPLES, draftFromBrief, MAX_BRIEF_LENGTH, MIN_BRIEF_LENGTH } from '../lib/brief';
+import { FunctionError } from '../lib/functions';
+import {
+  DIFFICULTY_LEVELS,
+  draftToRow,
+  newDimension,
+  toDraft,
+  validateDraft,
+  type DifficultyLevel,
+  type ScenarioDraft,
+} from '../lib/scenarioDraft';
+import type { RubricDimension } from '../lib/rubric';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+
+interface ScenarioBuilderProps {
+  /** An existing private scenario to edit; without one the builder starts from a brief. */
+  scenarioId?: string | null;
+  onClose: () => void;
+  onSaved: (scenarioId: string) => void;
+}
+
+const inputClass = 'w-full px-4 py-2 rounded-xl border border-gray-200 focus:border-teal-500 focus:ring-2 focus:ring-teal-200 outline-none';
+
+export function ScenarioBuilder({ scenarioId, onClose, onSaved }: ScenarioBuilderProps) {
+  const [brief, setBrief] = useState('');
+  const [draft, setDraft] = useState<ScenarioDraft | null>(null);
+  const [drafting, setDrafting] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { user } = useAuth();
+  const { showToast } = useToast();
+
+  useEffect(() => {
+    if (!scenarioId) return;
+
+    supabase
+      .from('scenario')
+      .select('*')
+      .eq('id', scenarioId)
+      .single()
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error loading scenario:', error);
+          showToast('Failed to load scenario', 'error');
+          return;
+        }
+        setDraft(toDraft(data));
+      });
+  }, [scenarioId, showToast]);
+
+  const errors = draft ? validateDraft(draft) : [];
+  const briefLength = brief.trim().length;
+
+  const update = <K extends keyof ScenarioDraft>(field: K, value: ScenarioDraft[K]) =>
+    setDraft((prev) => (prev ? { ...prev, [field]: value } : prev));
+
+  const updateDimension = (index: number, changes: Partial<RubricDimension>) =>
+    draft && update('rubric', draft.rubric.map((dimension, i) => (i === index ? { ...dimension, ...changes } : dimension)));
+
+  const generate = async () => {
+    setDrafting(true);
+    try {
+      setDraft(await draftFromBrief(brief.trim()));
+    } catch (error) {
+      console.error('Error drafting scenario:', error);
+      showToast(error instanceof FunctionError ? error.message : 'Failed to draft a scenario', 'error');
+    } finally {
+      setDrafting(false);
+    }
+  };
+
+  const save = async () => {
+    if (!draft || !user) return;
+    if (errors.length > 0) {
+      showToast(errors[0], 'error');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const row = draftToRow(draft);
+      const { data, error } = draft.id
+        ? await supabase.from('scenario').update(row).eq('id', draft.id).select('id').single()
+        : await supabase.from('scenario').insert({ ...row, owner_id: user.id }).select('id').single();
+
+      if (error) throw error;
+
+      showToast('Scenario saved', 'success');
+      onSaved(data.id);
+    } catch (error) {
+      console.error('Error saving scenario:', error);
+      showToast('Failed to save scenario', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl mx-4 p-8 relative max-h-[90vh] overflow-y-auto">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          <X className="w-6 h-6" />
+        </button>
+
+        {!draft ? (
+          <div className="space-y-4">
+            <div>
+              <h2 className="text-3xl font-bold text-gray-900 mb-2">Create your own scenario</h2>
+              <p className="text-gray-600">
+                Describe a real conversation you want to rehearse. We'll draft the scenario, and you can change anything before
+                saving it. Only you will see it.
+              </p>
+            </div>
+            <textarea
+              className={inputClass}
+              rows={5}
+              maxLength={MAX_BRIEF_LENGTH}
+              value={brief}
+              placeholder="Who you're talking to, what you need from them and what makes it hard"
+              onChange={(e) => setBrief(e.target.value)}
+            />
+            <div className="flex flex-wrap gap-2">
+              {BRIEF_EXAMPLES.map((example) => (
+                <button
+                  key={example}
+                  onClick={() => setBrief(example)}
+                  className="px-3 py-1 rounded-full bg-teal-50 text-teal-700 text-xs hover:bg-teal-100 transition-colors"
+                >
+                  {example}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={generate}
+              disabled={drafting || briefLength < MIN_BRIEF_LENGTH}
+              className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-teal-500 text-white rounded-xl hover:bg-teal-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <Sparkles className="w-4 h-4" />
+              {drafting ? 'Drafting your scenario...' : 'Draft scenario'}
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <h2 className="text-3xl font-bold text-gray-900 mb-2">{draft.id ? 'Edit your scenario' : 'Review your scenario'}</h2>
+              <p className="text-gray-600">Adjust anything that doesn't match the real conversation, then save.</p>
+            </div>
+
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Title</span>
+              <input className={inputClass} value={draft.title} onChange={(e) => update('title', e.target.value)} />
+            </label>
+
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Description</span>
+              <textarea className={inputClass} rows={2} value={draft.description} onChange={(e) => update('description', e.target.value)} />
+            </label>
+
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Your objective</span>
+              <textarea className={inputClass} rows={2} value={draft.objective} onChange={(e) => update('objective', e.target.value)} />
+            </label>
+
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">The person you're talking to</span>
+              <textarea className={inputClass} rows={4} value={draft.ai_persona} onChange={(e) => update('ai_persona', e.target.value)} />
+            </label>
+
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block">
+                <span className="text-sm font-medium text-gray-700">Difficulty</span>
+                <select
+                  className={inputClass}
+                  value={draft.difficulty_level}
+                  onChange={(e) => update('difficulty_level', e.target.value as DifficultyLevel)}
+                >
+                  {DIFFICULTY_LEVELS.map((level) => (
+                    <option key={level} value={level}>{level}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="block">
+                <span className="text-sm font-medium text-gray-700">Minutes</span>
+                <input
+                  type="number"
+                  min={1}
+                  className={inputClass}
+                  value={draft.estimated_duration}
+                  onChange={(e) => update('estimated_duration', Number(e.target.value))}
+                />
+              </label>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-sm font-medium text-gray-700">What you'll be scored on</span>
+                <button
+                  onClick={() => update('rubric', [...draft.rubric, newDimension()])}
+                  className="flex items-center gap-1 text-sm font-medium text-teal-600 hover:text-teal-700"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add skill
+                </button>
+              </div>
+              <div className="space-y-3">
+                {draft.rubric.map((dimension, index) => (
+                  <div key={index} className="p-3 rounded-xl border border-gray-200 space-y-2">
+                    <div className="flex gap-2">
+                      <input
+                        className={inputClass}
+                        placeholder="Skill, e.g. Staying Calm"
+                        value={dimension.label}
+                        onChange={(e) => updateDimension(index, { label: e.target.value })}
+                      />
+                      <button
+                        onClick={() => update('rubric', draft.rubric.filter((_, i) => i !== index))}
+                        className="p-2 text-gray-400 hover:text-red-500 transition-colors"
+                        title="Remove skill"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                    <input
+                      className={inputClass}
+                      placeholder="What doing this well looks like"
+                      value={dimension.description}
+                      onChange={(e) => updateDimension(index, { description: e.target.value })}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {errors.length > 0 && <p className="text-sm text-red-600">{errors[0]}</p>}
+
+            <div className="flex gap-3">
+              {!draft.id && (
+                <button
+                  onClick={() => setDraft(null)}
+                  className="flex items-center gap-2 px-4 py-3 border border-gray-200 text-gray-700 rounded-xl hover:bg-gray-50 transition-colors"
+                >
+                  <ArrowLeft className="w-4 h-4" />
+                  Back to brief
+                </button>
+              )}
+              <button
+                onClick={save}
+                disabled={saving || errors.length > 0}
+                className="flex-1 px-4 py-3 bg-teal-500 text-white rounded-xl hover:bg-teal-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {saving ? 'Saving...' : 'Save scenario'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+import { useState, type ChangeEvent } from 'react';
+import { Download, Upload, FileCheck, AlertCircle } from 'lucide-react';
+import {
+  CONFLICT_STRATEGIES,
+  describePackError,
+  exportPack,
+  importPack,
+  InvalidPackError,
+  type ConflictStrategy,
+  type ImportResult,
+  type PackError,
+  type PackFormat,
+} from '../lib/packs';
+import { FunctionError } from '../lib/functions';
+import { useToast } from '../contexts/ToastContext';
+
+interface ScenarioPacksProps {
+  scenarios: { id: string; title: string }[];
+  /** Called after a pack is imported, so the studio can refresh its scenario list. */
+  onImported: () => void;
+}
+
+const OUTCOME_LABELS: Record<ImportResult['outcome'], string> = {
+  created: 'Created',
+  updated: 'Overwritten',
+  skipped: 'Skipped',
+  copied: 'Copied',
+};
+
+const OUTCOME_STYLES: Record<ImportResult['outcome'], string> = {
+  created: 'bg-green-100 text-green-700',
+  updated: 'bg-amber-100 text-amber-700',
+  skipped: 'bg-gray-100 text-gray-600',
+  copied: 'bg-blue-100 text-blue-700',
+};
+
+const selectClass = 'px-3 py-2 rounded-xl border border-gray-200 focus:border-teal-500 focus:ring-2 focus:ring-teal-200 outline-none text-sm';
+
+export function ScenarioPacks({ scenarios, onImported }: ScenarioPacksProps) {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [format, setFormat] = useState<PackFormat>('yaml');
+  const [exporting, setExporting] = useState(false);
+  const [source, setSource] = useState('');
+  const [onConflict, setOnConflict] = useState<ConflictStrategy>('skip');
+  const [importing, setImporting] = useState(false);
+  const [packErrors, setPackErrors] = useState<PackError[]>([]);
+  const [results, setResults] = useState<{ dryRun: boolean; items: ImportResult[] } | null>(null);
+  const { showToast } = useToast();
+
+  const toggle = (id: string) =>
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      await exportPack([...selected], format);
+    } catch (error) {
+      console.error('Error exporting scenarios:', error);
+      showToast(error instanceof FunctionError ? error.message : 'Failed to export scenarios', 'error');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setSource(await file.text());
+    setPackErrors([]);
+    setResults(null);
+    e.target.value = '';
+  };
+
+  const handleImport = async (dryRun: boolean) => {
+    setImporting(true);
+    setPackErrors([]);
+    setResults(null);
+    try {
+      const items = await importPack(source, onConflict, dryRun);
+      setResults({ dryRun, items });
+      if (!dryRun) {
+        showToast('Pack imported', 'success');
+        onImported();
+      }
+    } catch (error) {
+      if (error instanceof InvalidPackError) {
+        setPackErrors(error.errors);
+        return;
+      }
+      console.error('Error importing pack:', error);
+      showToast(error instanceof FunctionError ? error.message : 'Failed to import the pack', 'error');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mt-6">
+      {/* Export */}
+      <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6 space-y-4">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">Export a pack</h2>
+          <p className="text-sm text-gray-600">Scenarios, rubrics, goals and knowledge docs, ready to import elsewhere</p>
+        </div>
+        <div className="max-h-48 overflow-y-auto space-y-1">
+          {scenarios.map((scenario) => (
+            <label key={scenario.id} className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={selected.has(scenario.id)}
+                onChange={() => toggle(scenario.id)}
+                className="rounded text-teal-500 focus:ring-teal-200"
+              />
+              <span className="truncate">{scenario.title}</span>
+            </label>
+          ))}
+        </div>
+        <div className="flex items-center gap-3">
+          <select className={selectClass} value={format} onChange={(e) => setFormat(e.target.value as PackFormat)}>
+            <option value="yaml">YAML</option>
+            <option value="json">JSON</option>
+          </select>
+          <button
+            onClick={handleExport}
+            disabled={exporting || scenarios.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-teal-500 text-white rounded-xl hover:bg-teal-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Download className="w-4 h-4" />
+            {selected.size > 0 ? `Export ${selected.size} selected` : 'Export all'}
+          </button>
+        </div>
+      </div>
+
+      {/* Import */}
+      <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6 space-y-4">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">Import a pack</h2>
+          <p className="text-sm text-gray-600">Upload a .json or .yaml pack, or paste one below</p>
+        </div>
+        <input
+          type="file"
+          accept=".json,.yaml,.yml,application/json,application/yaml"
+          onChange={handleFile}
+          className="block text-sm text-gray-600 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-teal-50 file:text-teal-700"
+        />
+        <textarea
+          className={`${selectClass} w-full font-mono`}
+          rows={6}
+          value={source}
+          placeholder="format: ai-coach-scenario-pack"
+          onChange={(e) => {
+            setSource(e.target.value);
+            setPackErrors([]);
+            setResults(null);
+          }}
+        />
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="text-sm text-gray-700">
+            If a scenario already exists{' '}
+            <select className={selectClass} value={onConflict} onChange={(e) => setOnConflict(e.target.value as ConflictStrategy)}>
+              {CONFLICT_STRATEGIES.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            onClick={() => handleImport(true)}
+            disabled={importing || !source.trim()}
+            className="flex items-center gap-2 px-4 py-2 border border-gray-200 text-gray-700 rounded-xl hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <FileCheck className="w-4 h-4" />
+            Validate
+          </button>
+          <button
+            onClick={() => handleImport(false)}
+            disabled={importing || !source.trim()}
+            className="flex items-center gap-2 px-4 py-2 bg-teal-500 text-white rounded-xl hover:bg-teal-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Upload className="w-4 h-4" />
+            Import
+          </button>
+        </div>
+
+        {packErrors.length > 0 && (
+          <div className="rounded-xl bg-red-50 border border-red-100 p-4">
+            <p className="flex items-center gap-2 text-sm font-semibold text-red-700 mb-2">
+              <AlertCircle className="w-4 h-4" />
+              {packErrors.length} problem{packErrors.length === 1 ? '' : 's'} to fix before importing
+            </p>
+            <ul className="space-y-1 text-sm text-red-700 font-mono">
+              {packErrors.map((error, index) => (
+                <li key={index}>{describePackError(error)}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {results && (
+          <div className="rounded-xl bg-gray-50 border border-gray-100 p-4">
+            <p className="text-sm font-semibold text-gray-700 mb-2">
+              {results.dryRun ? 'The pack is valid. Importing it would:' : 'Imported:'}
+            </p>
+            <ul className="space-y-1">
+              {results.items.map((result) => (
+                <li key={result.title} className="flex items-center justify-between gap-2 text-sm text-gray-700">
+                  <span className="truncate">
+                    {result.title}
+                    {result.conflict && (
+                      <span className="text-gray-500"> · matches "{result.conflict.title}" by {result.conflict.on}</span>
+                    )}
+                  </span>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-semibold flex-shrink-0 ${OUTCOME_STYLES[result.outcome]}`}>
+                    {OUTCOME_LABELS[result.outcome]}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
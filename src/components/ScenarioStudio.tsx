@@ -0,0 +1,473 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { ArrowLeft, Plus, Trash2, Save, PenTool, MessageSquare, Send, RotateCcw, Square, Eye, EyeOff } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { streamPreview, type PreviewMessage } from '../lib/chatStream';
+import { FunctionError } from '../lib/functions';
+import {
+  DIFFICULTY_LEVELS,
+  SCENARIO_ICONS,
+  draftToRow,
+  emptyDraft,
+  newDimension,
+  toDraft,
+  validateDraft,
+  type DifficultyLevel,
+  type ScenarioDraft,
+} from '../lib/scenarioDraft';
+import type { RubricDimension } from '../lib/rubric';
+import { useToast } from '../contexts/ToastContext';
+import { ScenarioPacks } from './ScenarioPacks';
+
+interface ScenarioStudioProps {
+  onBack: () => void;
+}
+
+interface ScenarioSummary {
+  id: string;
+  title: string;
+  is_active: boolean;
+}
+
+const inputClass = 'w-full px-4 py-2 rounded-xl border border-gray-200 focus:border-teal-500 focus:ring-2 focus:ring-teal-200 outline-none';
+
+export function ScenarioStudio({ onBack }: ScenarioStudioProps) {
+  const [scenarios, setScenarios] = useState<ScenarioSummary[]>([]);
+  const [draft, setDraft] = useState<ScenarioDraft>(emptyDraft);
+  const [saving, setSaving] = useState(false);
+  const [testMessages, setTestMessages] = useState<PreviewMessage[]>([]);
+  const [testInput, setTestInput] = useState('');
+  const [streamingReply, setStreamingReply] = useState('');
+  const [testing, setTesting] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const { showToast } = useToast();
+
+  const errors = validateDraft(draft);
+
+  const loadScenarios = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('scenario')
+      .select('id, title, is_active')
+      .is('owner_id', null)
+      .order('created_at');
+
+    if (error) {
+      console.error('Error loading scenarios:', error);
+      showToast('Failed to load scenarios', 'error');
+      return;
+    }
+    setScenarios(data || []);
+  }, [showToast]);
+
+  useEffect(() => {
+    loadScenarios();
+  }, [loadScenarios]);
+
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  const resetTestChat = () => {
+    abortControllerRef.current?.abort();
+    setTestMessages([]);
+    setTestInput('');
+  };
+
+  const openScenario = async (id: string) => {
+    const { data, error } = await supabase.from('scenario').select('*').eq('id', id).single();
+    if (error) {
+      console.error('Error loading scenario:', error);
+      showToast('Failed to load scenario', 'error');
+      return;
+    }
+    setDraft(toDraft(data));
+    resetTestChat();
+  };
+
+  const startNew = () => {
+    setDraft(emptyDraft());
+    resetTestChat();
+  };
+
+  const update = <K extends keyof ScenarioDraft>(field: K, value: ScenarioDraft[K]) =>
+    setDraft((prev) => ({ ...prev, [field]: value }));
+
+  const updateDimension = (index: number, changes: Partial<RubricDimension>) =>
+    update('rubric', draft.rubric.map((dimension, i) => (i === index ? { ...dimension, ...changes } : dimension)));
+
+  const saveDraft = async (publish = draft.is_active) => {
+    if (errors.length > 0) {
+      showToast(errors[0], 'error');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const row = draftToRow({ ...draft, is_active: publish });
+      const { data, error } = draft.id
+        ? await supabase.from('scenario').update(row).eq('id', draft.id).select('*').single()
+        : await supabase.from('scenario').insert(row).select('*').single();
+
+      if (error) throw error;
+
+      setDraft(toDraft(data));
+      await loadScenarios();
+      showToast(publish ? 'Scenario published' : 'Draft saved', 'success');
+    } catch (error) {
+      console.error('Error saving scenario:', error);
+      showToast('Failed to save scenario', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // The test chat runs the unsaved draft, so edits can be tried before they reach users
+  const sendTestMessage = async (content: string) => {
+    if (testing) return;
+
+    const history: PreviewMessage[] = content.trim()
+      ? [...testMessages, { role: 'user', content: content.trim() }]
+      : testMessages;
+    setTestMessages(history);
+    setTestInput('');
+    setTesting(true);
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    try {
+      const reply = await streamPreview(
+        {
+          title: draft.title,
+          objective: draft.objective,
+          ai_persona: draft.ai_persona,
+          difficulty_level: draft.difficulty_level,
+        },
+        draft.id,
+        history,
+        { signal: abortController.signal, onDelta: (delta) => setStreamingReply((prev) => prev + delta) }
+      );
+      setTestMessages([...history, reply]);
+    } catch (error) {
+      if (!(error instanceof DOMException && error.name === 'AbortError')) {
+        console.error('Error running test chat:', error);
+        showToast(error instanceof FunctionError ? error.message : 'Test chat failed. Please try again.', 'error');
+      }
+    } finally {
+      abortControllerRef.current = null;
+      setStreamingReply('');
+      setTesting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-teal-50">
+      <div className="max-w-7xl mx-auto px-4 py-8">
+        <button
+          onClick={onBack}
+          className="flex items-center gap-2 text-gray-600 hover:text-gray-900 mb-8 transition-colors"
+        >
+          <ArrowLeft className="w-5 h-5" />
+          Back to Home
+        </button>
+
+        <div className="flex items-center gap-4 mb-8">
+          <div className="w-12 h-12 bg-teal-100 rounded-xl flex items-center justify-center">
+            <PenTool className="w-6 h-6 text-teal-600" />
+          </div>
+          <div>
+            <h1 className="text-4xl font-bold text-gray-900">Scenario Studio</h1>
+            <p className="text-gray-600">Write scenarios, try them out, then publish them to users</p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+          {/* Scenario list */}
+          <div className="lg:col-span-3 bg-white rounded-2xl shadow-lg border border-gray-100 p-4 h-fit">
+            <button
+              onClick={startNew}
+              className="w-full flex items-center justify-center gap-2 px-4 py-2 mb-4 bg-teal-500 text-white rounded-xl hover:bg-teal-600 transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              New scenario
+            </button>
+            <div className="space-y-1">
+              {scenarios.map((scenario) => (
+                <button
+                  key={scenario.id}
+                  onClick={() => openScenario(scenario.id)}
+                  className={`w-full flex items-center justify-between gap-2 px-3 py-2 rounded-xl text-left text-sm transition-colors ${
+                    draft.id === scenario.id ? 'bg-teal-50 text-teal-700 font-semibold' : 'text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  <span className="truncate">{scenario.title}</span>
+                  {!scenario.is_active && (
+                    <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-500 text-xs flex-shrink-0">Draft</span>
+                  )}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Editor */}
+          <div className="lg:col-span-5 bg-white rounded-2xl shadow-lg border border-gray-100 p-6 space-y-5">
+            <div className="flex items-center justify-between">
+              <h2 className="text-2xl font-bold text-gray-900">{draft.id ? 'Edit scenario' : 'New scenario'}</h2>
+              <span className={`px-3 py-1 rounded-full text-xs font-semibold ${draft.is_active ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'}`}>
+                {draft.is_active ? 'Published' : 'Draft'}
+              </span>
+            </div>
+
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Title</span>
+              <input className={inputClass} value={draft.title} onChange={(e) => update('title', e.target.value)} />
+            </label>
+
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Description</span>
+              <textarea className={inputClass} rows={2} value={draft.description} onChange={(e) => update('description', e.target.value)} />
+            </label>
+
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Objective</span>
+              <textarea className={inputClass} rows={2} value={draft.objective} onChange={(e) => update('objective', e.target.value)} />
+            </label>
+
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">AI persona</span>
+              <textarea
+                className={inputClass}
+                rows={4}
+                value={draft.ai_persona}
+                placeholder="Who the AI plays, what they want and how they behave"
+                onChange={(e) => update('ai_persona', e.target.value)}
+              />
+            </label>
+
+            <div className="grid grid-cols-3 gap-3">
+              <label className="block">
+                <span className="text-sm font-medium text-gray-700">Difficulty</span>
+                <select
+                  className={inputClass}
+                  value={draft.difficulty_level}
+                  onChange={(e) => update('difficulty_level', e.target.value as DifficultyLevel)}
+                >
+                  {DIFFICULTY_LEVELS.map((level) => (
+                    <option key={level} value={level}>{level}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="block">
+                <span className="text-sm font-medium text-gray-700">Minutes</span>
+                <input
+                  type="number"
+                  min={1}
+                  className={inputClass}
+                  value={draft.estimated_duration}
+                  onChange={(e) => update('estimated_duration', Number(e.target.value))}
+                />
+              </label>
+              <label className="block">
+                <span className="text-sm font-medium text-gray-700">Icon</span>
+                <select className={inputClass} value={draft.icon} onChange={(e) => update('icon', e.target.value)}>
+                  {SCENARIO_ICONS.map((icon) => (
+                    <option key={icon} value={icon}>{icon}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-sm font-medium text-gray-700">Rubric</span>
+                <button
+                  onClick={() => update('rubric', [...draft.rubric, newDimension()])}
+                  className="flex items-center gap-1 text-sm font-medium text-teal-600 hover:text-teal-700"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add dimension
+                </button>
+              </div>
+              <div className="space-y-3">
+                {draft.rubric.map((dimension, index) => (
+                  <div key={index} className="p-3 rounded-xl border border-gray-200 space-y-2">
+                    <div className="flex gap-2">
+                      <input
+                        className={inputClass}
+                        placeholder="Label, e.g. Value Framing"
+                        value={dimension.label}
+                        onChange={(e) => updateDimension(index, { label: e.target.value })}
+                      />
+                      <button
+                        onClick={() => update('rubric', draft.rubric.filter((_, i) => i !== index))}
+                        className="p-2 text-gray-400 hover:text-red-500 transition-colors"
+                        title="Remove dimension"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                    <input
+                      className={inputClass}
+                      placeholder="What a strong performance looks like"
+                      value={dimension.description}
+                      onChange={(e) => updateDimension(index, { description: e.target.value })}
+                    />
+                    <div className="grid grid-cols-4 gap-2 text-xs text-gray-500">
+                      <label>
+                        Key
+                        <input
+                          className={inputClass}
+                          placeholder="from label"
+                          value={dimension.key}
+                          onChange={(e) => updateDimension(index, { key: e.target.value })}
+                        />
+                      </label>
+                      <label>
+                        Weight
+                        <input
+                          type="number"
+                          step={0.5}
+                          className={inputClass}
+                          value={dimension.weight}
+                          onChange={(e) => updateDimension(index, { weight: Number(e.target.value) })}
+                        />
+                      </label>
+                      <label>
+                        Min
+                        <input
+                          type="number"
+                          className={inputClass}
+                          value={dimension.scale.min}
+                          onChange={(e) => updateDimension(index, { scale: { ...dimension.scale, min: Number(e.target.value) } })}
+                        />
+                      </label>
+                      <label>
+                        Max
+                        <input
+                          type="number"
+                          className={inputClass}
+                          value={dimension.scale.max}
+                          onChange={(e) => updateDimension(index, { scale: { ...dimension.scale, max: Number(e.target.value) } })}
+                        />
+                      </label>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {errors.length > 0 && (
+              <ul className="text-sm text-amber-700 bg-amber-50 rounded-xl px-4 py-3 list-disc list-inside">
+                {errors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex gap-3">
+              <button
+                onClick={() => saveDraft()}
+                disabled={saving || errors.length > 0}
+                className="flex-1 flex items-center justify-center gap-2 px-4 py-3 border border-teal-500 text-teal-600 rounded-xl hover:bg-teal-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Save className="w-4 h-4" />
+                Save
+              </button>
+              <button
+                onClick={() => saveDraft(!draft.is_active)}
+                disabled={saving || errors.length > 0}
+                className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-teal-500 text-white rounded-xl hover:bg-teal-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {draft.is_active ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                {draft.is_active ? 'Unpublish' : 'Save & publish'}
+              </button>
+            </div>
+          </div>
+
+          {/* Test chat */}
+          <div className="lg:col-span-4 bg-white rounded-2xl shadow-lg border border-gray-100 p-6 flex flex-col h-[720px]">
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+                <MessageSquare className="w-5 h-5 text-teal-600" />
+                Test chat
+              </h2>
+              <button
+                onClick={resetTestChat}
+                className="p-2 text-gray-400 hover:text-gray-700 transition-colors"
+                title="Restart test chat"
+              >
+                <RotateCcw className="w-4 h-4" />
+              </button>
+            </div>
+            <p className="text-sm text-gray-500 mb-4">Plays the draft as it is now, including unsaved edits. Nothing is saved.</p>
+
+            <div className="flex-1 overflow-y-auto space-y-3 mb-4">
+              {testMessages.length === 0 && !testing && (
+                <button
+                  onClick={() => sendTestMessage('')}
+                  disabled={errors.length > 0}
+                  className="w-full px-4 py-3 rounded-xl border-2 border-dashed border-gray-200 text-gray-500 hover:border-teal-300 hover:text-teal-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Start a test conversation
+                </button>
+              )}
+              {testMessages.map((message, index) => (
+                <div key={index} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                  <div
+                    className={`max-w-[85%] rounded-2xl px-4 py-2 text-sm whitespace-pre-wrap ${
+                      message.role === 'user' ? 'bg-gradient-to-r from-teal-500 to-cyan-600 text-white' : 'bg-gray-100 text-gray-800'
+                    }`}
+                  >
+                    {message.content}
+                  </div>
+                </div>
+              ))}
+              {testing && (
+                <div className="flex justify-start">
+                  <div className="max-w-[85%] rounded-2xl px-4 py-2 text-sm whitespace-pre-wrap bg-gray-100 text-gray-800">
+                    {streamingReply || '…'}
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (testInput.trim()) sendTestMessage(testInput);
+              }}
+              className="flex gap-2"
+            >
+              <input
+                className={inputClass}
+                value={testInput}
+                placeholder={testMessages.length === 0 ? 'Start the conversation first' : 'Reply as the user…'}
+                disabled={testMessages.length === 0 || testing}
+                onChange={(e) => setTestInput(e.target.value)}
+              />
+              {testing ? (
+                <button
+                  type="button"
+                  onClick={() => abortControllerRef.current?.abort()}
+                  className="px-4 bg-red-500 text-white rounded-xl hover:bg-red-600 transition-colors"
+                  title="Stop"
+                >
+                  <Square className="w-4 h-4" />
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  disabled={!testInput.trim()}
+                  className="px-4 bg-teal-500 text-white rounded-xl hover:bg-teal-600 transition-colors disabled:opacity-50"
+                >
+                  <Send className="w-4 h-4" />
+                </button>
+              )}
+            </form>
+          </div>
+        </div>
+
+        <ScenarioPacks scenarios={scenarios} onImported={loadScenarios} />
+      </div>
+    </div>
+  );
+}
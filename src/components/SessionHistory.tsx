@@ -1,15 +1,24 @@
 import { useState, useEffect } from 'react';
-import { ArrowLeft, MessageCircle, Clock, Award } from 'lucide-react';
+import { ArrowLeft, MessageCircle, Clock, Award, ThumbsUp, AlertTriangle, Wand2, RotateCcw } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { functionError, functionHeaders, functionUrl } from '../lib/functions';
+import { diffWords } from '../lib/diff';
+import { useToast } from '../contexts/ToastContext';
+import { annotationsByMessage, readAnalysis, type Severity } from '../lib/analysis';
+import { parsePersonas, personaAvatar } from '../lib/personas';
+import { feedbackDimensions, type RubricDimension, type Scores } from '../lib/rubric';
 
 interface SessionHistoryProps {
   sessionId: string;
   onBack: () => void;
+  /** Opens a new branch of the conversation and sends `draft` as the replayed turn. */
+  onRetry?: (sessionId: string, scenarioTitle: string, draft: string) => void;
 }
 
 interface Message {
   id: number;
-  role: 'user' | 'assistant';
+  role: 'user' | 'assistant' | 'coach';
+  persona?: string | null;
   content: string;
   created_at: string;
 }
@@ -22,22 +31,30 @@ interface SessionData {
   scenario: {
     title: string;
     description: string;
+    personas?: unknown;
   };
   feedback?: {
     summary: string;
-    scores: {
-      clarity: number;
-      empathy: number;
-      assertiveness: number;
-    };
-    recommendations: string;
+    scores: Scores;
+    rubric: RubricDimension[] | null;
+    recommendations: string[];
+    detailed_analysis: unknown;
   };
 }
 
-export function SessionHistory({ sessionId, onBack }: SessionHistoryProps) {
+const SEVERITY_STYLES: Record<Severity, string> = {
+  low: 'bg-gray-100 text-gray-600',
+  medium: 'bg-amber-100 text-amber-700',
+  high: 'bg-red-100 text-red-700',
+};
+
+export function SessionHistory({ sessionId, onBack, onRetry }: SessionHistoryProps) {
   const [session, setSession] = useState<SessionData | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
   const [loading, setLoading] = useState(true);
+  const [openRewrites, setOpenRewrites] = useState<Set<number>>(new Set());
+  const [retrying, setRetrying] = useState<number | null>(null);
+  const { showToast } = useToast();
 
   useEffect(() => {
     loadSessionData();
@@ -52,7 +69,7 @@ export function SessionHistory({ sessionId, onBack }: SessionHistoryProps) {
           started_at,
           ended_at,
           status,
-          scenario:scenario_id (title, description)
+          scenario:scenario_id (title, description, personas)
         `)
         .eq('id', sessionId)
         .single();
@@ -63,6 +80,8 @@ export function SessionHistory({ sessionId, onBack }: SessionHistoryProps) {
         .from('feedback')
         .select('*')
         .eq('session_id', sessionId)
+        .order('version', { ascending: false })
+        .limit(1)
         .maybeSingle();
 
       const { data: messagesData, error: messagesError } = await supabase
@@ -85,6 +104,38 @@ export function SessionHistory({ sessionId, onBack }: SessionHistoryProps) {
     }
   };
 
+  const toggleRewrite = (messageId: number) => {
+    setOpenRewrites((prev) => {
+      const next = new Set(prev);
+      if (next.has(messageId)) next.delete(messageId);
+      else next.add(messageId);
+      return next;
+    });
+  };
+
+  const retryFromTurn = async (messageId: number, draft: string) => {
+    setRetrying(messageId);
+    try {
+      const response = await fetch(functionUrl('retry'), {
+        method: 'POST',
+        headers: await functionHeaders(),
+        body: JSON.stringify({ session_id: sessionId, message_id: messageId }),
+      });
+
+      if (!response.ok) {
+        throw await functionError(response, 'Failed to start a retry');
+      }
+
+      const branch = await response.json();
+      onRetry?.(branch.session_id, branch.scenario_title, draft);
+    } catch (error) {
+      console.error('Error starting retry:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to start a retry', 'error');
+    } finally {
+      setRetrying(null);
+    }
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       month: 'short',
@@ -122,6 +173,30 @@ export function SessionHistory({ sessionId, onBack }: SessionHistoryProps) {
     );
   }
 
+  const analysis = readAnalysis(session.feedback?.detailed_analysis);
+  const annotations = annotationsByMessage(analysis.annotations);
+  const rewriteFor = (messageId: number) => analysis.rewrites.find((rewrite) => rewrite.message_id === messageId);
+  const dimensionLabel = (key: string) =>
+    (session.feedback && feedbackDimensions(session.feedback).find((dimension) => dimension.key === key)?.label) ?? key;
+
+  // Multi-persona scenarios name whoever wrote each reply
+  const personas = parsePersonas(session.scenario.personas);
+  const authorOf = (message: Message) => (message.role === 'assistant' ? personaAvatar(personas, message.persona) : null);
+  const authorLabel = (message: Message) => {
+    if (message.role === 'user') return 'You';
+    const author = authorOf(message);
+    if (!author) return 'AI Coach';
+    return author.role ? `${author.name}, ${author.role}` : author.name;
+  };
+  const renderAuthorAvatar = (message: Message) => {
+    const author = authorOf(message);
+    return author ? (
+      <div className={`w-9 h-9 bg-gradient-to-br ${author.gradient} rounded-full flex items-center justify-center flex-shrink-0`}>
+        <span className="text-white font-semibold text-xs">{author.initials}</span>
+      </div>
+    ) : null;
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-teal-50">
       <div className="max-w-5xl mx-auto px-4 py-8">
@@ -150,7 +225,7 @@ export function SessionHistory({ sessionId, onBack }: SessionHistoryProps) {
               )}
               <div className="flex items-center gap-2">
                 <MessageCircle className="w-4 h-4" />
-                <span>{messages.length} messages</span>
+                <span>{messages.filter((message) => message.role !== 'coach').length} messages</span>
               </div>
             </div>
           </div>
@@ -162,17 +237,14 @@ export function SessionHistory({ sessionId, onBack }: SessionHistoryProps) {
                 <h2 className="text-xl font-bold text-gray-900">Performance Summary</h2>
               </div>
               <p className="text-gray-700 mb-6">{session.feedback.summary}</p>
-              <div className="grid grid-cols-3 gap-4">
-                {[
-                  { label: 'Clarity', score: session.feedback.scores.clarity },
-                  { label: 'Empathy', score: session.feedback.scores.empathy },
-                  { label: 'Assertiveness', score: session.feedback.scores.assertiveness },
-                ].map((metric) => (
-                  <div key={metric.label} className="text-center">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {feedbackDimensions(session.feedback).map((dimension) => (
+                  <div key={dimension.key} className="text-center">
                     <div className="text-3xl font-bold text-teal-600 mb-1">
-                      {metric.score.toFixed(1)}
+                      {(session.feedback!.scores[dimension.key] ?? 0).toFixed(1)}
+                      <span className="text-base font-medium text-gray-400">/{dimension.scale.max}</span>
                     </div>
-                    <div className="text-sm text-gray-600">{metric.label}</div>
+                    <div className="text-sm text-gray-600">{dimension.label}</div>
                   </div>
                 ))}
               </div>
@@ -183,23 +255,99 @@ export function SessionHistory({ sessionId, onBack }: SessionHistoryProps) {
         <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-8">
           <h2 className="text-2xl font-bold text-gray-900 mb-6">Conversation History</h2>
           <div className="space-y-4">
-            {messages.map((message) => (
+            {messages.map((message) => message.role === 'coach' ? (
+              <div key={message.id} className="flex justify-center">
+                <div className="max-w-[75%] rounded-xl border border-dashed border-gray-300 px-4 py-2 text-sm text-gray-600">
+                  <span className="font-medium">Coach hint</span> • {formatDate(message.created_at)}
+                  <p className="leading-relaxed whitespace-pre-wrap mt-1">{message.content}</p>
+                </div>
+              </div>
+            ) : (
               <div
                 key={message.id}
-                className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
+                className={`flex flex-col ${message.role === 'user' ? 'items-end' : 'items-start'}`}
               >
-                <div
-                  className={`max-w-[75%] rounded-2xl px-6 py-4 ${
-                    message.role === 'user'
-                      ? 'bg-gradient-to-r from-teal-500 to-cyan-600 text-white'
-                      : 'bg-gray-100 text-gray-800'
-                  }`}
-                >
-                  <div className="text-xs opacity-70 mb-1">
-                    {message.role === 'user' ? 'You' : 'AI Coach'} • {formatDate(message.created_at)}
+                <div className={`flex items-start gap-3 max-w-[75%] ${message.role === 'user' ? 'justify-end' : ''}`}>
+                  {renderAuthorAvatar(message)}
+                  <div
+                    className={`rounded-2xl px-6 py-4 ${
+                      message.role === 'user'
+                        ? 'bg-gradient-to-r from-teal-500 to-cyan-600 text-white'
+                        : 'bg-gray-100 text-gray-800'
+                    }`}
+                  >
+                    <div className="text-xs opacity-70 mb-1">
+                      {authorLabel(message)} • {formatDate(message.created_at)}
+                    </div>
+                    <p className="leading-relaxed whitespace-pre-wrap">{message.content}</p>
                   </div>
-                  <p className="leading-relaxed whitespace-pre-wrap">{message.content}</p>
                 </div>
+                {rewriteFor(message.id) && (
+                  <button
+                    onClick={() => toggleRewrite(message.id)}
+                    className="mt-2 flex items-center gap-1 text-sm font-medium text-teal-600 hover:text-teal-700"
+                  >
+                    <Wand2 className="w-4 h-4" />
+                    {openRewrites.has(message.id) ? 'Hide better version' : 'Show better version'}
+                  </button>
+                )}
+                {openRewrites.has(message.id) && rewriteFor(message.id) && (
+                  <div className="max-w-[75%] mt-2 w-full rounded-xl border border-teal-200 bg-teal-50 px-4 py-3 text-sm">
+                    <p className="leading-relaxed whitespace-pre-wrap text-gray-800 mb-3">
+                      {diffWords(message.content, rewriteFor(message.id)!.rewrite).map((part, i) => (
+                        <span
+                          key={i}
+                          className={
+                            part.type === 'added'
+                              ? 'bg-green-200 text-green-900 rounded'
+                              : part.type === 'removed'
+                              ? 'bg-red-100 text-red-700 line-through rounded'
+                              : undefined
+                          }
+                        >
+                          {part.text}
+                        </span>
+                      ))}
+                    </p>
+                    <ul className="list-disc pl-5 space-y-1 text-gray-600 mb-3">
+                      {rewriteFor(message.id)!.reasons.map((reason, i) => (
+                        <li key={i}>{reason}</li>
+                      ))}
+                    </ul>
+                    {onRetry && (
+                      <button
+                        onClick={() => retryFromTurn(message.id, rewriteFor(message.id)!.rewrite)}
+                        disabled={retrying !== null}
+                        className="flex items-center gap-2 px-4 py-2 bg-teal-500 text-white rounded-lg hover:bg-teal-600 transition-colors disabled:opacity-50"
+                      >
+                        <RotateCcw className={`w-4 h-4 ${retrying === message.id ? 'animate-spin' : ''}`} />
+                        Retry from here with this version
+                      </button>
+                    )}
+                  </div>
+                )}
+                {annotations.get(message.id)?.map((annotation, index) => (
+                  <div key={index} className="max-w-[75%] mt-2 w-full rounded-xl border border-gray-200 bg-white px-4 py-3 text-sm">
+                    <div className="flex items-center gap-2 mb-2">
+                      <span className="font-semibold text-gray-900">{dimensionLabel(annotation.dimension)}</span>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${SEVERITY_STYLES[annotation.severity]}`}>
+                        {annotation.severity} impact
+                      </span>
+                    </div>
+                    {annotation.strengths.map((strength, i) => (
+                      <p key={`s${i}`} className="flex items-start gap-2 text-green-700 mb-1">
+                        <ThumbsUp className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                        {strength}
+                      </p>
+                    ))}
+                    {annotation.issues.map((issue, i) => (
+                      <p key={`i${i}`} className="flex items-start gap-2 text-amber-700 mb-1">
+                        <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                        {issue}
+                      </p>
+                    ))}
+                  </div>
+                ))}
               </div>
             ))}
           </div>
@@ -208,12 +356,12 @@ export function SessionHistory({ sessionId, onBack }: SessionHistoryProps) {
             <div className="mt-8 pt-8 border-t border-gray-200">
               <h3 className="text-xl font-bold text-gray-900 mb-4">Recommendations</h3>
               <div className="space-y-3">
-                {session.feedback.recommendations.split('\n').filter(line => line.trim()).map((rec, index) => (
+                {session.feedback.recommendations.map((rec, index) => (
                   <div key={index} className="flex gap-3 p-4 bg-teal-50 rounded-xl">
                     <div className="flex-shrink-0 w-8 h-8 bg-teal-500 text-white rounded-full flex items-center justify-center font-bold">
                       {index + 1}
                     </div>
-                    <p className="text-gray-700 leading-relaxed">{rec.replace(/^[•\-]\s*/, '')}</p>
+                    <p className="text-gray-700 leading-relaxed">{rec}</p>
                   </div>
                 ))}
               </div>
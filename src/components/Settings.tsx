@@ -1,11 +1,18 @@
-import { useState } from 'react';
-import { ArrowLeft, Bell, Moon, Sun, Volume2, VolumeX, RefreshCw } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import { ArrowLeft, Bell, Moon, Sun, Volume2, VolumeX, RefreshCw, Gauge } from 'lucide-react';
 import { useToast } from '../contexts/ToastContext';
+import { functionError, functionHeaders, functionUrl } from '../lib/functions';
 
 interface SettingsProps {
   onBack: () => void;
 }
 
+interface UsageAllowance {
+  limits: { daily_tokens: number | null; monthly_tokens: number | null };
+  used: { daily_tokens: number; monthly_tokens: number };
+  remaining: { daily_tokens: number | null; monthly_tokens: number | null };
+}
+
 export function Settings({ onBack }: SettingsProps) {
   const [notifications, setNotifications] = useState(
     localStorage.getItem('notifications') !== 'false'
@@ -16,8 +23,25 @@ export function Settings({ onBack }: SettingsProps) {
   const [sound, setSound] = useState(
     localStorage.getItem('sound') !== 'false'
   );
+  const [usage, setUsage] = useState<UsageAllowance | null>(null);
   const { showToast } = useToast();
 
+  useEffect(() => {
+    loadUsage();
+  }, []);
+
+  const loadUsage = async () => {
+    try {
+      const response = await fetch(functionUrl('usage'), { headers: await functionHeaders() });
+      if (!response.ok) {
+        throw await functionError(response, 'Failed to load usage');
+      }
+      setUsage(await response.json());
+    } catch (error) {
+      console.error('Error loading usage:', error);
+    }
+  };
+
   const handleNotificationsToggle = () => {
     const newValue = !notifications;
     setNotifications(newValue);
@@ -167,6 +191,51 @@ export function Settings({ onBack }: SettingsProps) {
             </div>
           </div>
 
+          <div className="bg-white rounded-2xl shadow-lg border border-gray-100 overflow-hidden">
+            <div className="px-8 py-6 border-b border-gray-200 flex items-center gap-4">
+              <div className="w-12 h-12 bg-teal-100 rounded-xl flex items-center justify-center">
+                <Gauge className="w-6 h-6 text-teal-600" />
+              </div>
+              <div>
+                <h2 className="text-2xl font-bold text-gray-900">AI Usage</h2>
+                <p className="text-sm text-gray-600">Your remaining allowance for practice sessions and feedback</p>
+              </div>
+            </div>
+
+            <div className="px-8 py-6 space-y-6">
+              {!usage ? (
+                <p className="text-sm text-gray-600">Loading your allowance...</p>
+              ) : (
+                [
+                  { label: 'Today', limit: usage.limits.daily_tokens, used: usage.used.daily_tokens, remaining: usage.remaining.daily_tokens, resets: 'Resets at midnight UTC' },
+                  { label: 'This month', limit: usage.limits.monthly_tokens, used: usage.used.monthly_tokens, remaining: usage.remaining.monthly_tokens, resets: 'Resets on the 1st (UTC)' },
+                ].map((period) => (
+                  <div key={period.label}>
+                    <div className="flex items-center justify-between mb-2">
+                      <h3 className="font-semibold text-gray-900">{period.label}</h3>
+                      <span className="text-sm text-gray-600">
+                        {period.limit === null
+                          ? 'Unlimited'
+                          : `${period.remaining!.toLocaleString()} of ${period.limit.toLocaleString()} tokens left`}
+                      </span>
+                    </div>
+                    {period.limit !== null && (
+                      <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                        <div
+                          className={`h-full rounded-full transition-all ${
+                            period.remaining! / period.limit < 0.1 ? 'bg-red-500' : 'bg-teal-500'
+                          }`}
+                          style={{ width: `${Math.min(100, (period.used / period.limit) * 100)}%` }}
+                        ></div>
+                      </div>
+                    )}
+                    <p className="text-xs text-gray-500 mt-1">{period.resets}</p>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+
           <div className="bg-white rounded-2xl shadow-lg border border-gray-100 overflow-hidden">
             <div className="px-8 py-6 border-b border-gray-200">
               <h2 className="text-2xl font-bold text-gray-900">Data & Privacy</h2>
@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react';
 import { ArrowLeft, User, Mail, Calendar, Save, Award } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { overallScore, type ScoredFeedback } from '../lib/rubric';
+import { latestPerSession } from '../lib/feedbackVersions';
 import { useAuth } from '../contexts/AuthContext';
 import { useToast } from '../contexts/ToastContext';
 
@@ -75,16 +77,16 @@ export function UserProfile({ onBack }: UserProfileProps) {
       const sessionIds = sessions?.map(s => s.id) || [];
 
       if (sessionIds.length > 0) {
-        const { data: feedbacks } = await supabase
+        const { data: allFeedbacks } = await supabase
           .from('feedback')
-          .select('scores')
+          .select('session_id, version, scores, rubric')
           .in('session_id', sessionIds);
 
-        if (feedbacks && feedbacks.length > 0) {
-          const allScores = feedbacks.map((f: any) => {
-            const scores = f.scores;
-            return (scores.clarity + scores.empathy + scores.assertiveness) / 3;
-          });
+        // Regenerated sessions count once, by their newest feedback
+        const feedbacks = latestPerSession(allFeedbacks ?? []);
+
+        if (feedbacks.length > 0) {
+          const allScores = feedbacks.map((f: ScoredFeedback) => overallScore(f));
 
           const avgScore = allScores.reduce((a, b) => a + b, 0) / allScores.length;
           const bestScore = Math.max(...allScores);
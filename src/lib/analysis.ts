@@ -0,0 +1,121 @@
+export type Severity = 'low' | 'medium' | 'high';
+
+/** What one user message did well or badly, against one rubric dimension. */
+export interface MessageAnnotation {
+  message_id: number;
+  dimension: string;
+  severity: Severity;
+  strengths: string[];
+  issues: string[];
+}
+
+export interface LinkedRecommendation {
+  text: string;
+  /** User messages that prompted the recommendation. */
+  message_ids: number[];
+}
+
+/** A better way the user could have phrased one of their messages. */
+export interface MessageRewrite {
+  message_id: number;
+  rewrite: string;
+  /** One line per change explaining why it helps. */
+  reasons: string[];
+}
+
+export type GoalStatus = 'met' | 'partial' | 'missed';
+
+/** How the user did against one of the scenario's sub-goals. */
+export interface GoalResult {
+  key: string;
+  status: GoalStatus;
+  /** User messages the grader based the status on. */
+  message_ids: number[];
+  evidence: string;
+}
+
+/** Rubric scores for one stage of a staged scenario, covering the user turns spoken in it. */
+export interface StageResult {
+  key: string;
+  label: string;
+  scores: Record<string, number>;
+  message_ids: number[];
+}
+
+export interface FeedbackAnalysis {
+  annotations: MessageAnnotation[];
+  recommendations: LinkedRecommendation[];
+  rewrites: MessageRewrite[];
+  goals: GoalResult[];
+}
+
+/** Deterministic measurements of the user's messages, computed by the feedback function alongside the AI scores. */
+export interface LinguisticMetrics {
+  user_turns: number;
+  user_words: number;
+  talk_ratio: number;
+  avg_turn_words: number;
+  questions_asked: number;
+  hedges: number;
+  fillers: number;
+  apologies: number;
+  i_statements: number;
+  you_statements: number;
+  /** Absent on feedback measured before coaching hints existed. */
+  assisted_turns?: number;
+  readability_grade: number;
+  avg_response_seconds: number | null;
+  median_response_seconds: number | null;
+}
+
+/**
+ * Reads the validated output the feedback function stores in `feedback.detailed_analysis`.
+ * Rows written before annotations, rewrites and goals existed yield empty lists.
+ */
+export function readAnalysis(detailedAnalysis: unknown): FeedbackAnalysis {
+  const validated = (detailedAnalysis as { validated?: Partial<FeedbackAnalysis> } | null)?.validated;
+  return {
+    annotations: Array.isArray(validated?.annotations) ? validated.annotations : [],
+    recommendations: Array.isArray(validated?.recommendations) ? validated.recommendations : [],
+    rewrites: Array.isArray(validated?.rewrites) ? validated.rewrites : [],
+    goals: Array.isArray(validated?.goals) ? validated.goals : [],
+  };
+}
+
+/** The linguistic metrics stored with a feedback row, or null for rows written before they were measured. */
+export function readMetrics(detailedAnalysis: unknown): LinguisticMetrics | null {
+  const metrics = (detailedAnalysis as { metrics?: LinguisticMetrics } | null)?.metrics;
+  return metrics && typeof metrics === 'object' ? metrics : null;
+}
+
+/** How closely several feedback judges agreed on one dimension's score. */
+export interface ScoreConfidence {
+  mean: number;
+  spread: number;
+  low: number;
+  high: number;
+  judgements: number[];
+  rejected: number[];
+  uncertain: boolean;
+}
+
+/** Per-dimension agreement when at least two judges scored the session, otherwise null. */
+export function readConfidence(detailedAnalysis: unknown): Record<string, ScoreConfidence> | null {
+  const ensemble = (detailedAnalysis as { ensemble?: { confidence?: Record<string, ScoreConfidence> | null } } | null)?.ensemble;
+  return ensemble?.confidence ?? null;
+}
+
+/** Per-stage scores stored with a feedback row; empty for unstaged scenarios and older rows. */
+export function readStages(detailedAnalysis: unknown): StageResult[] {
+  const stages = (detailedAnalysis as { stages?: StageResult[] } | null)?.stages;
+  return Array.isArray(stages) ? stages : [];
+}
+
+/** Annotations grouped by the message they belong to. */
+export function annotationsByMessage(annotations: MessageAnnotation[]): Map<number, MessageAnnotation[]> {
+  const grouped = new Map<number, MessageAnnotation[]>();
+  for (const annotation of annotations) {
+    grouped.set(annotation.message_id, [...(grouped.get(annotation.message_id) ?? []), annotation]);
+  }
+  return grouped;
+}
@@ -0,0 +1,28 @@
+import { functionError, functionHeaders, functionUrl } from './functions';
+import { toDraft, type ScenarioDraft } from './scenarioDraft';
+
+export const MIN_BRIEF_LENGTH = 15;
+export const MAX_BRIEF_LENGTH = 1500;
+
+/** Conversations people commonly want to rehearse, offered as starting points for a brief. */
+export const BRIEF_EXAMPLES = [
+  "Telling my manager I'm resigning to join a competitor",
+  'Asking my landlord to fix the heating before winter',
+  'Giving a teammate feedback about missed deadlines',
+];
+
+/** Asks the brief function to draft a private scenario. Nothing is saved until the user saves the draft. */
+export async function draftFromBrief(brief: string): Promise<ScenarioDraft> {
+  const response = await fetch(functionUrl('brief'), {
+    method: 'POST',
+    headers: await functionHeaders(),
+    body: JSON.stringify({ brief }),
+  });
+
+  if (!response.ok) {
+    throw await functionError(response, 'Failed to draft a scenario');
+  }
+
+  const { draft } = await response.json();
+  return { ...toDraft(draft), id: null, is_active: true };
+}
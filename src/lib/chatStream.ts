@@ -0,0 +1,123 @@
+import { functionError, functionHeaders, functionUrl } from './functions';
+
+export interface ChatStreamRequest {
+  session_id: string;
+  user_message: string;
+  is_initial?: boolean;
+  /** Idempotency key for the turn; reuse it when retrying the same message. */
+  turn_id?: string;
+}
+
+export interface StoredMessage {
+  id: number;
+  role: 'user' | 'assistant' | 'coach';
+  /** The scenario persona that wrote a reply, in multi-persona scenarios. */
+  persona?: string | null;
+  content: string;
+  metadata: Record<string, unknown>;
+  created_at: string;
+}
+
+/**
+ * The rows the chat function stored for the turn: the user message (the opening turn has none)
+ * and one reply per persona that spoke, in order.
+ */
+export interface ChatTurn {
+  user_message: StoredMessage | null;
+  assistant_messages: StoredMessage[];
+}
+
+/** A draft scenario for the authoring studio's test chat; nothing about it is stored. */
+export interface PreviewScenario {
+  title: string;
+  objective: string;
+  ai_persona: string;
+  difficulty_level?: string;
+}
+
+export interface PreviewMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+type ChatStreamEvent<T> =
+  | { type: 'speaker'; persona: string }
+  | { type: 'delta'; content: string }
+  | ({ type: 'done' } & T)
+  | { type: 'error'; error: string };
+
+interface StreamChatOptions {
+  signal?: AbortSignal;
+  onDelta: (content: string) => void;
+  /** Called before each persona's reply in a multi-persona scenario; later deltas belong to them. */
+  onSpeaker?: (persona: string) => void;
+}
+
+/**
+ * Calls the chat edge function and reads its server-sent events,
+ * forwarding each token chunk to `onDelta`. Resolves with the stored turn once the reply is saved.
+ */
+export async function streamChat(body: ChatStreamRequest, options: StreamChatOptions): Promise<ChatTurn> {
+  const { user_message, assistant_messages } = await readChatStream<ChatTurn>(body, options);
+  return { user_message, assistant_messages };
+}
+
+/**
+ * Streams the draft persona's next reply to a test chat. Admins only. The reply uses the model
+ * settings saved on `scenarioId`, or the defaults for a draft that hasn't been saved yet.
+ */
+export async function streamPreview(
+  scenario: PreviewScenario,
+  scenarioId: string | null,
+  messages: PreviewMessage[],
+  options: StreamChatOptions
+): Promise<PreviewMessage> {
+  const { assistant_message } = await readChatStream<{ assistant_message: PreviewMessage }>(
+    { preview: { scenario, ...(scenarioId ? { scenario_id: scenarioId } : {}), messages } },
+    options
+  );
+  return assistant_message;
+}
+
+async function readChatStream<T>(body: unknown, { signal, onDelta, onSpeaker }: StreamChatOptions): Promise<T> {
+  const response = await fetch(functionUrl('chat'), {
+    method: 'POST',
+    headers: await functionHeaders(),
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    throw await functionError(response, 'Failed to get AI response');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const events = buffer.split('\n\n');
+    buffer = events.pop() ?? '';
+
+    for (const raw of events) {
+      if (!raw.startsWith('data:')) continue;
+
+      const event: ChatStreamEvent<T> = JSON.parse(raw.slice(5).trim());
+      if (event.type === 'speaker') {
+        onSpeaker?.(event.persona);
+      } else if (event.type === 'delta') {
+        onDelta(event.content);
+      } else if (event.type === 'done') {
+        return event;
+      } else {
+        throw new Error(event.error);
+      }
+    }
+  }
+
+  throw new Error('Chat stream ended unexpectedly');
+}
@@ -0,0 +1,37 @@
+import type { StoredMessage } from './chatStream';
+import { functionError, functionHeaders, functionUrl } from './functions';
+
+/** Why a hint was asked for: by the user, or automatically when they stall or struggle. */
+export type HintTrigger = 'request' | 'stall' | 'weak_turn';
+
+/** How long the user can sit on an empty reply before the coach steps in. */
+export const STALL_MS = 45_000;
+
+/** Turns the chat function assesses below this score prompt an automatic hint. */
+export const WEAK_TURN_SCORE = 0.35;
+
+export const autoHintsEnabled = () => localStorage.getItem('coach_auto_hints') !== 'false';
+
+export const setAutoHintsEnabled = (enabled: boolean) => localStorage.setItem('coach_auto_hints', String(enabled));
+
+/** Whether the chat function's cheap read of a user turn says it was weak. */
+export function isWeakTurn(message: { metadata?: Record<string, unknown> | null }): boolean {
+  const score = (message.metadata?.assessment as { score?: number } | null | undefined)?.score;
+  return typeof score === 'number' && score < WEAK_TURN_SCORE;
+}
+
+/** Asks the coach function for a private hint, which it stores as a `coach` message. */
+export async function requestHint(sessionId: string, trigger: HintTrigger): Promise<StoredMessage> {
+  const response = await fetch(functionUrl('coach'), {
+    method: 'POST',
+    headers: await functionHeaders(),
+    body: JSON.stringify({ session_id: sessionId, trigger }),
+  });
+
+  if (!response.ok) {
+    throw await functionError(response, 'Failed to get a hint');
+  }
+
+  const { hint } = await response.json();
+  return hint;
+}
@@ -14,18 +14,21 @@ export interface Database {
           id: string
           email: string
           full_name: string | null
+          role: string
           created_at: string
         }
         Insert: {
           id?: string
           email: string
           full_name?: string | null
+          role?: string
           created_at?: string
         }
         Update: {
           id?: string
           email?: string
           full_name?: string | null
+          role?: string
           created_at?: string
         }
       }
@@ -38,7 +41,16 @@ export interface Database {
           rubric: Json
           ai_persona: string
           icon: string
+          difficulty_level: string
+          estimated_duration: number
+          is_active: boolean
+          llm_config: Json
+          goals: Json
+          stages: Json
+          personas: Json
+          owner_id: string | null
           created_at: string
+          updated_at: string
         }
         Insert: {
           id?: string
@@ -48,7 +60,16 @@ export interface Database {
           rubric?: Json
           ai_persona: string
           icon?: string
+          difficulty_level?: string
+          estimated_duration?: number
+          is_active?: boolean
+          llm_config?: Json
+          goals?: Json
+          stages?: Json
+          personas?: Json
+          owner_id?: string | null
           created_at?: string
+          updated_at?: string
         }
         Update: {
           id?: string
@@ -58,7 +79,16 @@ export interface Database {
           rubric?: Json
           ai_persona?: string
           icon?: string
+          difficulty_level?: string
+          estimated_duration?: number
+          is_active?: boolean
+          llm_config?: Json
+          goals?: Json
+          stages?: Json
+          personas?: Json
+          owner_id?: string | null
           created_at?: string
+          updated_at?: string
         }
       }
       scenario_doc: {
@@ -67,6 +97,7 @@ export interface Database {
           scenario_id: string | null
           content: string
           embedding: number[] | null
+          embedding_error: string | null
           metadata: Json
         }
         Insert: {
@@ -74,6 +105,7 @@ export interface Database {
           scenario_id?: string | null
           content: string
           embedding?: number[] | null
+          embedding_error?: string | null
           metadata?: Json
         }
         Update: {
@@ -81,6 +113,7 @@ export interface Database {
           scenario_id?: string | null
           content?: string
           embedding?: number[] | null
+          embedding_error?: string | null
           metadata?: Json
         }
       }
@@ -92,6 +125,13 @@ export interface Database {
           started_at: string
           ended_at: string | null
           status: string
+          conversation_summary: string | null
+          summary_through_message_id: number | null
+          current_difficulty: string | null
+          current_stage: string | null
+          branched_from_session_id: string | null
+          branched_from_message_id: number | null
+          feedback_started_at: string | null
         }
         Insert: {
           id?: string
@@ -100,6 +140,13 @@ export interface Database {
           started_at?: string
           ended_at?: string | null
           status?: string
+          conversation_summary?: string | null
+          summary_through_message_id?: number | null
+          current_difficulty?: string | null
+          current_stage?: string | null
+          branched_from_session_id?: string | null
+          branched_from_message_id?: number | null
+          feedback_started_at?: string | null
         }
         Update: {
           id?: string
@@ -108,28 +155,44 @@ export interface Database {
           started_at?: string
           ended_at?: string | null
           status?: string
+          conversation_summary?: string | null
+          summary_through_message_id?: number | null
+          current_difficulty?: string | null
+          current_stage?: string | null
+          branched_from_session_id?: string | null
+          branched_from_message_id?: number | null
+          feedback_started_at?: string | null
         }
       }
       message: {
         Row: {
           id: number
           session_id: string | null
+          turn_id: string | null
           role: string
+          persona: string | null
           content: string
+          metadata: Json
           created_at: string
         }
         Insert: {
           id?: number
           session_id?: string | null
+          turn_id?: string | null
           role: string
+          persona?: string | null
           content: string
+          metadata?: Json
           created_at?: string
         }
         Update: {
           id?: number
           session_id?: string | null
+          turn_id?: string | null
           role?: string
+          persona?: string | null
           content?: string
+          metadata?: Json
           created_at?: string
         }
       }
@@ -139,7 +202,12 @@ export interface Database {
           session_id: string | null
           summary: string
           scores: Json
-          recommendations: string
+          rubric: Json | null
+          recommendations: Json
+          detailed_analysis: Json
+          version: number
+          message_count: number | null
+          prompt_version: string | null
           created_at: string
         }
         Insert: {
@@ -147,7 +215,12 @@ export interface Database {
           session_id?: string | null
           summary: string
           scores: Json
-          recommendations: string
+          rubric?: Json | null
+          recommendations: Json
+          detailed_analysis?: Json
+          version?: number
+          message_count?: number | null
+          prompt_version?: string | null
           created_at?: string
         }
         Update: {
@@ -155,10 +228,83 @@ export interface Database {
           session_id?: string | null
           summary?: string
           scores?: Json
-          recommendations?: string
+          rubric?: Json | null
+          recommendations?: Json
+          detailed_analysis?: Json
+          version?: number
+          message_count?: number | null
+          prompt_version?: string | null
           created_at?: string
         }
       }
+      usage_ledger: {
+        Row: {
+          id: number
+          user_id: string
+          request_id: string | null
+          session_id: string | null
+          purpose: string
+          provider: string
+          model: string
+          prompt_tokens: number
+          completion_tokens: number
+          total_tokens: number
+          latency_ms: number
+          cost_usd: number
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          user_id: string
+          request_id?: string | null
+          session_id?: string | null
+          purpose: string
+          provider: string
+          model: string
+          prompt_tokens?: number
+          completion_tokens?: number
+          latency_ms?: number
+          cost_usd?: number
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          user_id?: string
+          request_id?: string | null
+          session_id?: string | null
+          purpose?: string
+          provider?: string
+          model?: string
+          prompt_tokens?: number
+          completion_tokens?: number
+          latency_ms?: number
+          cost_usd?: number
+          created_at?: string
+        }
+      }
+      usage_quota: {
+        Row: {
+          user_id: string
+          daily_token_limit: number | null
+          monthly_token_limit: number | null
+          requests_per_minute: number | null
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          daily_token_limit?: number | null
+          monthly_token_limit?: number | null
+          requests_per_minute?: number | null
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          daily_token_limit?: number | null
+          monthly_token_limit?: number | null
+          requests_per_minute?: number | null
+          updated_at?: string
+        }
+      }
     }
   }
 }
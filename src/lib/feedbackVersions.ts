@@ -0,0 +1,58 @@
+import { feedbackDimensions, type RubricDimension, type ScoredFeedback } from './rubric';
+
+/** A feedback row as one of possibly several versions generated for its session. */
+export interface FeedbackVersion extends ScoredFeedback {
+  session_id: string | null;
+  version: number;
+  recommendations: string[];
+}
+
+/** The newest version for each session; older versions stay stored for comparison. */
+export function latestPerSession<T extends { session_id: string | null; version: number }>(rows: T[]): T[] {
+  const latest = new Map<string | null, T>();
+  for (const row of rows) {
+    const current = latest.get(row.session_id);
+    if (!current || row.version > current.version) latest.set(row.session_id, row);
+  }
+  return [...latest.values()];
+}
+
+export interface ScoreChange {
+  dimension: RubricDimension;
+  /** Null when the dimension wasn't scored in that version. */
+  before: number | null;
+  after: number | null;
+}
+
+export interface FeedbackComparison {
+  scores: ScoreChange[];
+  added: string[];
+  removed: string[];
+  kept: string[];
+}
+
+const normalize = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/** How scores and recommendations changed from one version to another. */
+export function compareVersions(before: FeedbackVersion, after: FeedbackVersion): FeedbackComparison {
+  const dimensions = [...feedbackDimensions(after)];
+  for (const dimension of feedbackDimensions(before)) {
+    if (!dimensions.some((existing) => existing.key === dimension.key)) dimensions.push(dimension);
+  }
+
+  const score = (feedback: FeedbackVersion, key: string) =>
+    typeof feedback.scores[key] === 'number' ? feedback.scores[key] : null;
+  const beforeTexts = new Set(before.recommendations.map(normalize));
+  const afterTexts = new Set(after.recommendations.map(normalize));
+
+  return {
+    scores: dimensions.map((dimension) => ({
+      dimension,
+      before: score(before, dimension.key),
+      after: score(after, dimension.key),
+    })),
+    added: after.recommendations.filter((text) => !beforeTexts.has(normalize(text))),
+    removed: before.recommendations.filter((text) => !afterTexts.has(normalize(text))),
+    kept: after.recommendations.filter((text) => beforeTexts.has(normalize(text))),
+  };
+}
@@ -0,0 +1,35 @@
+import { supabase } from './supabase';
+
+export const functionUrl = (name: string) => `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${name}`;
+
+/** Headers for calling an edge function as the signed-in user; the functions reject the bare anon key. */
+export async function functionHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('You need to be signed in to do that');
+  }
+
+  return {
+    'Authorization': `Bearer ${session.access_token}`,
+    'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
+    'Content-Type': 'application/json',
+  };
+}
+
+/** An edge function failure, carrying the HTTP status and the function's error `code` when it sent one. */
+export class FunctionError extends Error {
+  constructor(message: string, readonly status: number, readonly code?: string) {
+    super(message);
+    this.name = 'FunctionError';
+  }
+}
+
+/** Reads the `{ error, code }` body the edge functions return on failure, falling back to `fallback`. */
+export async function functionError(response: Response, fallback: string): Promise<FunctionError> {
+  try {
+    const body = await response.json();
+    return new FunctionError(body.error || fallback, response.status, body.code);
+  } catch {
+    return new FunctionError(fallback, response.status);
+  }
+}
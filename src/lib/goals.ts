@@ -0,0 +1,25 @@
+/**
+ * A checklist sub-goal from `scenario.goals`, reduced to what the checklist shows. The column is
+ * readable by any signed-in user, cues included, so cues are hints for matching, not secrets.
+ */
+export interface ScenarioGoal {
+  key: string;
+  label: string;
+}
+
+export function parseGoals(raw: unknown): ScenarioGoal[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((goal) => typeof goal?.key === 'string' && typeof goal?.label === 'string')
+    .map(({ key, label }) => ({ key, label }));
+}
+
+/** Keys of the goals met so far, from the `goals_met` the chat function stores on user messages. */
+export function goalsMetSoFar(messages: { role: string; metadata?: Record<string, unknown> | null }[]): Set<string> {
+  const met = new Set<string>();
+  for (const message of messages) {
+    const keys = message.role === 'user' ? message.metadata?.goals_met : undefined;
+    if (Array.isArray(keys)) keys.forEach((key) => typeof key === 'string' && met.add(key));
+  }
+  return met;
+}
@@ -0,0 +1,79 @@
+import { FunctionError, functionError, functionHeaders, functionUrl } from './functions';
+
+export type PackFormat = 'json' | 'yaml';
+
+/** What to do with a pack scenario whose id or title already exists. */
+export type ConflictStrategy = 'skip' | 'overwrite' | 'copy';
+
+export const CONFLICT_STRATEGIES: { value: ConflictStrategy; label: string }[] = [
+  { value: 'skip', label: 'Keep the existing scenario' },
+  { value: 'overwrite', label: 'Overwrite the existing scenario' },
+  { value: 'copy', label: 'Import as a copy' },
+];
+
+/** One problem with a pack, as reported by the packs function. */
+export interface PackError {
+  line: number | null;
+  path: string;
+  message: string;
+}
+
+export interface ImportResult {
+  title: string;
+  outcome: 'created' | 'updated' | 'skipped' | 'copied';
+  scenario_id: string | null;
+  conflict?: { scenario_id: string | null; title: string; on: 'id' | 'title' };
+}
+
+/** A pack that failed validation; `errors` lists every problem with its line. */
+export class InvalidPackError extends FunctionError {
+  constructor(message: string, readonly errors: PackError[]) {
+    super(message, 422, 'invalid_pack');
+    this.name = 'InvalidPackError';
+  }
+}
+
+export const describePackError = (error: PackError) =>
+  [error.line !== null ? `Line ${error.line}` : null, error.path || null, error.message].filter(Boolean).join(' — ');
+
+async function callPacks<T>(body: Record<string, unknown>, fallback: string): Promise<T> {
+  const response = await fetch(functionUrl('packs'), {
+    method: 'POST',
+    headers: await functionHeaders(),
+    body: JSON.stringify(body),
+  });
+
+  if (response.status === 422) {
+    const { error, errors } = await response.json();
+    throw new InvalidPackError(error || fallback, errors ?? []);
+  }
+  if (!response.ok) {
+    throw await functionError(response, fallback);
+  }
+
+  return response.json();
+}
+
+/** Exports the given scenarios, or all of them when none are given, and saves the pack as a download. */
+export async function exportPack(scenarioIds: string[], format: PackFormat): Promise<void> {
+  const { filename, content } = await callPacks<{ filename: string; content: string }>(
+    { action: 'export', scenario_ids: scenarioIds, format },
+    'Failed to export scenarios'
+  );
+
+  const url = URL.createObjectURL(new Blob([content], { type: format === 'yaml' ? 'application/yaml' : 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/** Imports a pack's source text; with `dryRun` the function only reports what it would do. */
+export async function importPack(source: string, onConflict: ConflictStrategy, dryRun: boolean): Promise<ImportResult[]> {
+  const { results } = await callPacks<{ results: ImportResult[] }>(
+    { action: 'import', source, on_conflict: onConflict, dry_run: dryRun },
+    'Failed to import the pack'
+  );
+  return results;
+}
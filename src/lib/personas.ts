@@ -0,0 +1,48 @@
+/**
+ * One of the characters in a multi-persona scenario from `scenario.personas`, reduced to what the
+ * chat shows. Signed-in users can read the whole column, agendas and temperaments included.
+ */
+export interface ScenarioPersona {
+  key: string;
+  name: string;
+  role: string;
+}
+
+/** Avatar gradients handed out in persona order, so everyone in the room looks different. */
+const AVATAR_GRADIENTS = [
+  'from-primary-500 to-secondary-600',
+  'from-amber-500 to-orange-600',
+  'from-violet-500 to-fuchsia-600',
+  'from-emerald-500 to-teal-600',
+  'from-rose-500 to-pink-600',
+  'from-sky-500 to-indigo-600',
+];
+
+export function parsePersonas(raw: unknown): ScenarioPersona[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((persona) => typeof persona?.key === 'string' && typeof persona?.name === 'string')
+    .map(({ key, name, role }) => ({ key, name, role: typeof role === 'string' ? role : '' }));
+}
+
+export interface PersonaAvatar {
+  name: string;
+  role: string;
+  initials: string;
+  gradient: string;
+}
+
+/** How to show the author of a reply, or null when it isn't one of the scenario's personas. */
+export function personaAvatar(personas: ScenarioPersona[], key: string | null | undefined): PersonaAvatar | null {
+  const index = personas.findIndex((persona) => persona.key === key);
+  if (index === -1) return null;
+
+  const { name, role } = personas[index];
+  const initials = name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join('');
+  return { name, role, initials, gradient: AVATAR_GRADIENTS[index % AVATAR_GRADIENTS.length] };
+}
@@ -0,0 +1,90 @@
+export interface RubricDimension {
+  key: string;
+  label: string;
+  description: string;
+  weight: number;
+  scale: { min: number; max: number };
+}
+
+export type Scores = Record<string, number>;
+
+/** Feedback with the rubric it was graded against; `rubric` is null for legacy rows. */
+export interface ScoredFeedback {
+  scores: Scores;
+  rubric: RubricDimension[] | null;
+}
+
+const LEGACY_DIMENSIONS: RubricDimension[] = [
+  { key: 'clarity', label: 'Clarity', description: 'Message structure and precision', weight: 1, scale: { min: 0, max: 5 } },
+  { key: 'empathy', label: 'Empathy', description: 'Emotional awareness and validation', weight: 1, scale: { min: 0, max: 5 } },
+  { key: 'assertiveness', label: 'Assertiveness', description: 'Confidence and boundary setting', weight: 1, scale: { min: 0, max: 5 } },
+];
+
+const toLabel = (key: string) => key.split('_').map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+/** The dimensions to render for one feedback row, in rubric order. */
+export function feedbackDimensions(feedback: ScoredFeedback): RubricDimension[] {
+  if (feedback.rubric && feedback.rubric.length > 0) return feedback.rubric;
+
+  // Legacy rows predate the rubric snapshot; describe whatever keys they scored
+  return Object.keys(feedback.scores).map(
+    (key) =>
+      LEGACY_DIMENSIONS.find((dimension) => dimension.key === key) ?? {
+        key,
+        label: toLabel(key),
+        description: '',
+        weight: 1,
+        scale: { min: 0, max: 5 },
+      }
+  );
+}
+
+/** A score as a fraction of its dimension's scale. */
+export function scoreFraction(score: number, dimension: RubricDimension): number {
+  const { min, max } = dimension.scale;
+  return Math.min(1, Math.max(0, (score - min) / (max - min)));
+}
+
+/**
+ * Weighted overall score on a 0-5 scale, so sessions graded against different rubrics and
+ * scales stay comparable.
+ */
+export function overallScore(feedback: ScoredFeedback): number {
+  const dimensions = feedbackDimensions(feedback).filter((dimension) => typeof feedback.scores[dimension.key] === 'number');
+  const totalWeight = dimensions.reduce((sum, dimension) => sum + dimension.weight, 0);
+  if (totalWeight === 0) return 0;
+
+  const weighted = dimensions.reduce(
+    (sum, dimension) => sum + scoreFraction(feedback.scores[dimension.key], dimension) * dimension.weight,
+    0
+  );
+  return (weighted / totalWeight) * 5;
+}
+
+export interface DimensionAverage {
+  dimension: RubricDimension;
+  average: number;
+  sessions: number;
+}
+
+/** Per-dimension averages across many feedback rows, most frequently scored dimensions first. */
+export function averageByDimension(feedbacks: ScoredFeedback[]): DimensionAverage[] {
+  const totals = new Map<string, { dimension: RubricDimension; sum: number; sessions: number }>();
+
+  for (const feedback of feedbacks) {
+    for (const dimension of feedbackDimensions(feedback)) {
+      const score = feedback.scores[dimension.key];
+      if (typeof score !== 'number') continue;
+
+      const entry = totals.get(dimension.key) ?? { dimension, sum: 0, sessions: 0 };
+      // Averages are kept on the scale of the first rubric that defined the dimension
+      entry.sum += entry.dimension.scale.min + scoreFraction(score, dimension) * (entry.dimension.scale.max - entry.dimension.scale.min);
+      entry.sessions += 1;
+      totals.set(dimension.key, entry);
+    }
+  }
+
+  return [...totals.values()]
+    .map(({ dimension, sum, sessions }) => ({ dimension, average: sum / sessions, sessions }))
+    .sort((a, b) => b.sessions - a.sessions);
+}
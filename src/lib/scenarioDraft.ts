@@ -0,0 +1,127 @@
+import type { RubricDimension } from './rubric';
+
+export type DifficultyLevel = 'beginner' | 'intermediate' | 'advanced';
+
+export const DIFFICULTY_LEVELS: DifficultyLevel[] = ['beginner', 'intermediate', 'advanced'];
+
+/** Icon names the landing page knows how to draw. */
+export const SCENARIO_ICONS = ['message-circle', 'briefcase', 'users', 'trending-up'];
+
+/** The authorable fields of a scenario, as edited in the studio. */
+export interface ScenarioDraft {
+  /** Null until the draft is first saved. */
+  id: string | null;
+  title: string;
+  description: string;
+  objective: string;
+  ai_persona: string;
+  rubric: RubricDimension[];
+  difficulty_level: DifficultyLevel;
+  estimated_duration: number;
+  icon: string;
+  is_active: boolean;
+  /** Not edited in the studio, but passed to the test chat so it runs on the scenario's model. */
+  llm_config: unknown;
+}
+
+export const newDimension = (): RubricDimension => ({
+  key: '',
+  label: '',
+  description: '',
+  weight: 1,
+  scale: { min: 0, max: 5 },
+});
+
+/** New scenarios start inactive, so they aren't offered to users until an admin publishes them. */
+export const emptyDraft = (): ScenarioDraft => ({
+  id: null,
+  title: '',
+  description: '',
+  objective: '',
+  ai_persona: '',
+  rubric: [newDimension()],
+  difficulty_level: 'beginner',
+  estimated_duration: 10,
+  icon: 'message-circle',
+  is_active: false,
+  llm_config: {},
+});
+
+const toKey = (label: string) => label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+/** A stored scenario row as a draft. Legacy rubrics (a map of key to description) become 0-5 dimensions. */
+export function toDraft(row: Record<string, unknown>): ScenarioDraft {
+  const rubric = row.rubric as { dimensions?: RubricDimension[] } | Record<string, string> | null;
+  const dimensions = Array.isArray(rubric?.dimensions)
+    ? (rubric.dimensions as RubricDimension[])
+    : Object.entries((rubric ?? {}) as Record<string, string>).map(([key, description]) => ({
+        ...newDimension(),
+        key,
+        label: key.split('_').map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join(' '),
+        description: String(description),
+      }));
+
+  return {
+    id: String(row.id),
+    title: String(row.title ?? ''),
+    description: String(row.description ?? ''),
+    objective: String(row.objective ?? ''),
+    ai_persona: String(row.ai_persona ?? ''),
+    rubric: dimensions.length > 0 ? dimensions : [newDimension()],
+    difficulty_level: DIFFICULTY_LEVELS.includes(row.difficulty_level as DifficultyLevel)
+      ? (row.difficulty_level as DifficultyLevel)
+      : 'beginner',
+    estimated_duration: Number(row.estimated_duration ?? 10),
+    icon: String(row.icon ?? 'message-circle'),
+    is_active: row.is_active !== false,
+    llm_config: row.llm_config ?? {},
+  };
+}
+
+/** Problems that would stop the draft saving or grading correctly; empty when it is ready. */
+export function validateDraft(draft: ScenarioDraft): string[] {
+  const errors: string[] = [];
+  if (!draft.title.trim()) errors.push('Add a title.');
+  if (!draft.description.trim()) errors.push('Add a description.');
+  if (!draft.objective.trim()) errors.push('Add an objective.');
+  if (!draft.ai_persona.trim()) errors.push('Describe the AI persona.');
+  if (!Number.isInteger(draft.estimated_duration) || draft.estimated_duration < 1) {
+    errors.push('Estimated duration must be a whole number of minutes.');
+  }
+
+  if (draft.rubric.length === 0) errors.push('Add at least one rubric dimension.');
+  const keys = new Set<string>();
+  draft.rubric.forEach((dimension, index) => {
+    const name = dimension.label.trim() || `Dimension ${index + 1}`;
+    const key = dimension.key.trim() || toKey(dimension.label);
+    if (!key) errors.push(`${name} needs a label.`);
+    else if (keys.has(key)) errors.push(`More than one dimension uses the key "${key}".`);
+    keys.add(key);
+    if (!(dimension.weight > 0)) errors.push(`${name} needs a positive weight.`);
+    if (!(dimension.scale.max > dimension.scale.min)) errors.push(`${name}'s scale maximum must be above its minimum.`);
+  });
+
+  return errors;
+}
+
+/** The columns to insert or update; dimension keys default to their slugged labels. */
+export function draftToRow(draft: ScenarioDraft) {
+  return {
+    title: draft.title.trim(),
+    description: draft.description.trim(),
+    objective: draft.objective.trim(),
+    ai_persona: draft.ai_persona.trim(),
+    rubric: {
+      dimensions: draft.rubric.map((dimension) => ({
+        ...dimension,
+        key: dimension.key.trim() || toKey(dimension.label),
+        label: dimension.label.trim(),
+        description: dimension.description.trim(),
+      })),
+    },
+    difficulty_level: draft.difficulty_level,
+    estimated_duration: draft.estimated_duration,
+    icon: draft.icon,
+    is_active: draft.is_active,
+  };
+}
@@ -0,0 +1,24 @@
+/**
+ * One beat of a staged scenario from `scenario.stages`, reduced to what the stage tracker shows.
+ * Signed-in users can read the whole column, stage personas and conditions included.
+ */
+export interface ScenarioStage {
+  key: string;
+  label: string;
+}
+
+export function parseStages(raw: unknown): ScenarioStage[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((stage) => typeof stage?.key === 'string' && typeof stage?.label === 'string')
+    .map(({ key, label }) => ({ key, label }));
+}
+
+/** The stage the conversation is in, from the `stage` the chat function stores on each reply; null before the first. */
+export function currentStageKey(messages: { role: string; metadata?: Record<string, unknown> | null }[]): string | null {
+  for (let index = messages.length - 1; index >= 0; index--) {
+    const stage = messages[index].role === 'assistant' ? messages[index].metadata?.stage : undefined;
+    if (typeof stage === 'string') return stage;
+  }
+  return null;
+}
@@ -0,0 +1,61 @@
+import type { SupabaseClient, User } from 'npm:@supabase/supabase-js@2.57.4';
+import { HttpError } from './http.ts';
+
+/** Verifies the caller's Supabase access token from the `Authorization: Bearer` header. */
+export async function authenticate(req: Request, supabase: SupabaseClient): Promise<User> {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) {
+    throw new HttpError(401, 'missing_token', 'Missing access token');
+  }
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) {
+    throw new HttpError(401, 'invalid_token', 'Invalid or expired access token');
+  }
+
+  return data.user;
+}
+
+/**
+ * Loads a session row (plus any extra `columns`) and confirms it belongs to `userId`.
+ * The functions use the service-role key, so this check stands in for row level security.
+ */
+export async function loadOwnedSession<T>(
+  supabase: SupabaseClient,
+  sessionId: string,
+  userId: string,
+  columns: string
+): Promise<T & { user_id: string }> {
+  const { data, error } = await supabase
+    .from('session')
+    .select(`user_id, ${columns}`)
+    .eq('id', sessionId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const session = data as unknown as (T & { user_id: string }) | null;
+  if (!session) {
+    throw new HttpError(404, 'session_not_found', 'Session not found');
+  }
+  if (session.user_id !== userId) {
+    throw new HttpError(403, 'session_forbidden', 'You do not have access to this session');
+  }
+
+  return session;
+}
+
+/** Confirms `userId` has the admin role, for endpoints that author scenarios. */
+export async function requireAdmin(supabase: SupabaseClient, userId: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('app_user')
+    .select('role')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (data?.role !== 'admin') {
+    throw new HttpError(403, 'admin_required', 'Only admins can do that');
+  }
+}
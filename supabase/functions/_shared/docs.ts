@@ -0,0 +1,79 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { getEmbedder, type Embedder } from './llm/index.ts';
+
+/** Docs one backfill call embeds by default, so a run stays well inside the function time limit. */
+const DEFAULT_BACKFILL_LIMIT = 20;
+
+/** The embedding columns of a `scenario_doc` row. */
+export interface DocEmbedding {
+  embedding: number[] | null;
+  /** Why the doc couldn't be embedded; the backfill skips it until asked to retry. */
+  embedding_error: string | null;
+}
+
+export interface BackfillResult {
+  embedded: number;
+  failed: number;
+  /** Docs still waiting for an embedding after this run, not counting ones that failed. */
+  remaining: number;
+}
+
+/**
+ * The embedder doc vectors are stored with, or null when none is configured. The mock counts as
+ * none: its vectors only mean something to itself.
+ */
+export function docEmbedder(): Embedder | null {
+  try {
+    const embedder = getEmbedder();
+    return embedder.persistent ? embedder : null;
+  } catch (error) {
+    console.warn('No embedder configured, docs are stored without embeddings:', error);
+    return null;
+  }
+}
+
+/** Embeds one doc as it's written. A failure is recorded on the doc rather than failing the write. */
+export async function embedDoc(embedder: Embedder | null, content: string): Promise<DocEmbedding> {
+  if (!embedder) return { embedding: null, embedding_error: null };
+
+  try {
+    return { embedding: await embedder.embed(content), embedding_error: null };
+  } catch (error) {
+    console.error('Doc embedding failed:', error);
+    return { embedding: null, embedding_error: (error as Error).message };
+  }
+}
+
+/**
+ * Embeds docs stored without an embedding: rows seeded by SQL, or docs written while no embedder
+ * was configured. Docs that failed before are left alone unless `retryFailed` is set, so one bad
+ * doc can't hold up the others.
+ */
+export async function backfillEmbeddings(
+  supabase: SupabaseClient,
+  embedder: Embedder,
+  { limit = DEFAULT_BACKFILL_LIMIT, retryFailed = false }: { limit?: number; retryFailed?: boolean } = {}
+): Promise<BackfillResult> {
+  let query = supabase.from('scenario_doc').select('id, content').is('embedding', null);
+  if (!retryFailed) query = query.is('embedding_error', null);
+  const { data, error } = await query.order('id').limit(limit);
+  if (error) throw error;
+
+  let embedded = 0;
+  let failed = 0;
+  for (const doc of data ?? []) {
+    const result = await embedDoc(embedder, doc.content);
+    const { error: updateError } = await supabase.from('scenario_doc').update(result).eq('id', doc.id);
+    if (updateError) throw updateError;
+    if (result.embedding) embedded++;
+    else failed++;
+  }
+
+  const { count, error: countError } = await supabase
+    .from('scenario_doc')
+    .select('id', { count: 'exact', head: true })
+    .is('embedding', null)
+    .is('embedding_error', null);
+  if (countError) throw countError;
+  return { embedded, failed, remaining: count ?? 0 };
+}
@@ -0,0 +1,58 @@
+/**
+ * A concrete thing the user should do during a scenario, e.g. "Asked about the salary range".
+ * The chat function ticks goals off live by matching `cues` against the user's turns; the
+ * feedback function then has the grader confirm them against the whole conversation.
+ */
+export interface ScenarioGoal {
+  key: string;
+  label: string;
+  /** Phrases that count as evidence the goal was attempted, matched case-insensitively on word boundaries. */
+  cues: string[];
+  /** Only a question counts, e.g. for "asked about ..." goals. */
+  question?: boolean;
+}
+
+export type GoalStatus = 'met' | 'partial' | 'missed';
+
+/** Reads `scenario.goals`, dropping malformed entries rather than failing the turn. */
+export function parseGoals(raw: unknown): ScenarioGoal[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw.flatMap((entry: unknown) => {
+    const goal = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+    if (typeof goal.key !== 'string' || typeof goal.label !== 'string') return [];
+
+    return [{
+      key: goal.key,
+      label: goal.label,
+      cues: Array.isArray(goal.cues) ? goal.cues.filter((cue): cue is string => typeof cue === 'string' && cue.trim() !== '') : [],
+      question: goal.question === true,
+    }];
+  });
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Whether the text contains any of the cue phrases, case-insensitively and on word boundaries. */
+export function mentionsCue(text: string, cues: string[]): boolean {
+  const normalized = text.toLowerCase().replace(/\s+/g, ' ');
+  return cues.some((cue) => new RegExp(`\\b${escapeRegExp(cue.toLowerCase().trim())}\\b`).test(normalized));
+}
+
+/** Keys of the goals one user turn meets, in scenario order. */
+export function goalsMetBy(goals: ScenarioGoal[], text: string): string[] {
+  return goals
+    .filter((goal) => !goal.question || text.includes('?'))
+    .filter((goal) => mentionsCue(text, goal.cues))
+    .map((goal) => goal.key);
+}
+
+/** Goals already met earlier in the conversation, read from the `goals_met` the chat function stores on user messages. */
+export function goalsMetSoFar(history: { role: string; metadata: Record<string, unknown> | null }[]): Set<string> {
+  const met = new Set<string>();
+  for (const message of history) {
+    const keys = message.role === 'user' ? message.metadata?.goals_met : undefined;
+    if (Array.isArray(keys)) keys.forEach((key) => typeof key === 'string' && met.add(key));
+  }
+  return met;
+}
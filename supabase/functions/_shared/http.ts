@@ -0,0 +1,41 @@
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+/** An error that maps to a specific HTTP status and machine-readable code instead of a generic 500. */
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+    /** Extra fields merged into the JSON error body. */
+    readonly details: Record<string, unknown> = {},
+    readonly headers: Record<string, string> = {}
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: {
+        ...corsHeaders,
+        ...headers,
+        'Content-Type': 'application/json',
+      },
+    }
+  );
+}
+
+export function errorResponse(error: Error): Response {
+  if (error instanceof HttpError) {
+    return jsonResponse({ ...error.details, error: error.message, code: error.code }, error.status, error.headers);
+  }
+  return jsonResponse({ error: error.message || 'Internal server error' }, 500);
+}
@@ -0,0 +1,113 @@
+import { readServerSentEvents } from './sse.ts';
+import type { LLMCompletion, LLMConfig, LLMMessage, LLMProvider, LLMRequest } from './types.ts';
+
+const ANTHROPIC_BASE_URL = 'https://api.anthropic.com/v1';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/** Messages API adapter. System prompts move to the top-level `system` field. */
+export class AnthropicProvider implements LLMProvider {
+  constructor(readonly config: LLMConfig, private readonly apiKey: string) {}
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    const response = await this.post(request, false);
+    const data = await response.json();
+
+    return {
+      content: data.content
+        .filter((block: { type: string }) => block.type === 'text')
+        .map((block: { text: string }) => block.text)
+        .join(''),
+      model: data.model ?? this.config.model,
+      usage: {
+        prompt_tokens: data.usage?.input_tokens ?? 0,
+        completion_tokens: data.usage?.output_tokens ?? 0,
+      },
+    };
+  }
+
+  async stream(request: LLMRequest, onDelta: (delta: string) => void): Promise<LLMCompletion> {
+    const response = await this.post(request, true);
+    let content = '';
+    let model = this.config.model;
+    const usage = { prompt_tokens: 0, completion_tokens: 0 };
+
+    await readServerSentEvents(response.body!, (data) => {
+      const event = JSON.parse(data);
+      if (event.type === 'message_start') {
+        model = event.message?.model ?? model;
+        usage.prompt_tokens = event.message?.usage?.input_tokens ?? 0;
+      } else if (event.type === 'message_delta') {
+        usage.completion_tokens = event.usage?.output_tokens ?? usage.completion_tokens;
+      } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+        content += event.delta.text;
+        onDelta(event.delta.text);
+      } else if (event.type === 'message_stop') {
+        return false;
+      } else if (event.type === 'error') {
+        throw new Error(`anthropic API error: ${event.error?.message ?? data}`);
+      }
+    });
+
+    return { content, model, usage };
+  }
+
+  private async post(request: LLMRequest, stream: boolean): Promise<Response> {
+    const baseUrl = (this.config.base_url ?? ANTHROPIC_BASE_URL).replace(/\/$/, '');
+    const system = request.messages
+      .filter((message) => message.role === 'system')
+      .map((message) => message.content)
+      .join('\n\n');
+
+    const response = await fetch(`${baseUrl}/messages`, {
+      method: 'POST',
+      headers: {
+        'x-api-key': this.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: this.config.model,
+        system: request.responseFormat === 'json'
+          ? `${system}\n\nRespond ONLY with valid JSON.`
+          : system,
+        messages: toAlternatingTurns(request.messages),
+        temperature: this.config.temperature,
+        max_tokens: this.config.max_tokens,
+        stream,
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`anthropic API error: ${errorText}`);
+    }
+
+    return response;
+  }
+}
+
+/**
+ * The Messages API requires a conversation that starts with a user turn and alternates roles,
+ * so consecutive turns from the same side are merged and an opening user turn is added if needed.
+ */
+function toAlternatingTurns(messages: LLMMessage[]): { role: 'user' | 'assistant'; content: string }[] {
+  const turns: { role: 'user' | 'assistant'; content: string }[] = [];
+
+  for (const message of messages) {
+    if (message.role === 'system') continue;
+
+    const last = turns[turns.length - 1];
+    if (last && last.role === message.role) {
+      last.content += `\n\n${message.content}`;
+    } else {
+      turns.push({ role: message.role, content: message.content });
+    }
+  }
+
+  if (turns.length === 0 || turns[0].role !== 'user') {
+    turns.unshift({ role: 'user', content: '(The conversation begins.)' });
+  }
+
+  return turns;
+}
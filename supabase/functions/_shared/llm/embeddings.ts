@@ -0,0 +1,104 @@
+export type EmbeddingProviderName = 'openai' | 'openai-compatible' | 'mock';
+
+/** Must match the `vector(1536)` column on `scenario_doc`. */
+export const EMBEDDING_DIMENSIONS = 1536;
+
+export interface Embedder {
+  readonly model: string;
+  /** Whether its vectors may be stored in `scenario_doc`; the mock's would look like real ones to retrieval later. */
+  readonly persistent: boolean;
+  embed(input: string): Promise<number[]>;
+}
+
+class OpenAIEmbedder implements Embedder {
+  readonly persistent = true;
+
+  constructor(
+    readonly model: string,
+    private readonly baseUrl: string,
+    private readonly apiKey?: string,
+    /** Asks the API for `EMBEDDING_DIMENSIONS`-long vectors; only models that can shorten their output accept it. */
+    private readonly requestDimensions = false
+  ) {}
+
+  async embed(input: string): Promise<number[]> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/embeddings`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ model: this.model, input, ...(this.requestDimensions ? { dimensions: EMBEDDING_DIMENSIONS } : {}) }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Embedding API error: ${errorText}`);
+    }
+
+    const data = await response.json();
+    const embedding: number[] = data.data[0].embedding;
+    if (embedding.length !== EMBEDDING_DIMENSIONS) {
+      throw new Error(
+        `${this.model} returned a ${embedding.length}-dimensional embedding, but scenario_doc holds ${EMBEDDING_DIMENSIONS} dimensions`
+      );
+    }
+    return embedding;
+  }
+}
+
+/** Hashes word tokens into a unit vector, so similar texts get similar embeddings without any network call. */
+class MockEmbedder implements Embedder {
+  readonly model = 'mock-embedding';
+  readonly persistent = false;
+
+  embed(input: string): Promise<number[]> {
+    const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+
+    for (const token of input.toLowerCase().match(/[a-z0-9']+/g) ?? []) {
+      let hash = 2166136261;
+      for (let i = 0; i < token.length; i++) {
+        hash = Math.imul(hash ^ token.charCodeAt(i), 16777619);
+      }
+      vector[Math.abs(hash) % EMBEDDING_DIMENSIONS] += 1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+    return Promise.resolve(vector.map((value) => value / norm));
+  }
+}
+
+/**
+ * Picks the embedding backend from `EMBEDDING_PROVIDER` / `EMBEDDING_MODEL`.
+ * Anthropic has no embeddings endpoint, so it falls back to OpenAI; `LLM_PROVIDER=mock` forces the mock.
+ * Local models vary in size, so `openai-compatible` needs `EMBEDDING_MODEL` set to one that
+ * returns `EMBEDDING_DIMENSIONS`-long vectors; any other length is rejected before it is stored.
+ */
+export function getEmbedder(): Embedder {
+  const llmProvider = Deno.env.get('LLM_PROVIDER');
+  const provider = (llmProvider === 'mock' ? 'mock' : Deno.env.get('EMBEDDING_PROVIDER') ?? 'openai') as EmbeddingProviderName;
+
+  switch (provider) {
+    case 'openai': {
+      const apiKey = Deno.env.get('OPENAI_API_KEY');
+      if (!apiKey) throw new Error('OpenAI API key not configured');
+      const model = Deno.env.get('EMBEDDING_MODEL') ?? 'text-embedding-3-small';
+      return new OpenAIEmbedder(model, 'https://api.openai.com/v1', apiKey, model.startsWith('text-embedding-3'));
+    }
+    case 'openai-compatible': {
+      const model = Deno.env.get('EMBEDDING_MODEL');
+      if (!model) throw new Error(`EMBEDDING_MODEL must name a ${EMBEDDING_DIMENSIONS}-dimensional embedding model`);
+      return new OpenAIEmbedder(
+        model,
+        Deno.env.get('EMBEDDING_BASE_URL') ?? Deno.env.get('LLM_BASE_URL') ?? 'http://localhost:11434/v1',
+        Deno.env.get('LLM_API_KEY')
+      );
+    }
+    case 'mock':
+      return new MockEmbedder();
+    default:
+      throw new Error(`Unknown embedding provider: ${provider}`);
+  }
+}
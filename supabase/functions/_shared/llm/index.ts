@@ -0,0 +1,100 @@
+import { AnthropicProvider } from './anthropic.ts';
+import { MockProvider, type MockRule } from './mock.ts';
+import { OpenAIProvider } from './openai.ts';
+import type { LLMConfig, LLMProvider, LLMProviderName, LLMPurpose } from './types.ts';
+
+export type { LLMCompletion, LLMConfig, LLMMessage, LLMProvider, LLMPurpose, LLMRequest, LLMUsage } from './types.ts';
+export { getEmbedder, type Embedder } from './embeddings.ts';
+
+const PROVIDERS: LLMProviderName[] = ['openai', 'anthropic', 'openai-compatible', 'mock'];
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  'openai': 'gpt-4o-mini',
+  'anthropic': 'claude-3-5-haiku-latest',
+  'openai-compatible': 'llama3.1',
+  'mock': 'mock-1',
+};
+
+const PURPOSE_DEFAULTS: Record<LLMPurpose, { temperature: number; max_tokens: number }> = {
+  chat: { temperature: 0.8, max_tokens: 200 },
+  // Judges raise this for long sessions so every user message can be rewritten (fitReplyBudget in feedback/prompt.ts)
+  feedback: { temperature: 0.7, max_tokens: 2500 },
+  coach: { temperature: 0.5, max_tokens: 120 },
+  brief: { temperature: 0.7, max_tokens: 900 },
+};
+
+const OPENAI_COMPATIBLE_DEFAULT_URL = 'http://localhost:11434/v1';
+
+type LLMOverrides = Partial<LLMConfig>;
+
+function envOverrides(prefix: string): LLMOverrides {
+  const overrides: LLMOverrides = {};
+  const provider = Deno.env.get(`${prefix}PROVIDER`);
+  const model = Deno.env.get(`${prefix}MODEL`);
+  const temperature = Deno.env.get(`${prefix}TEMPERATURE`);
+  const maxTokens = Deno.env.get(`${prefix}MAX_TOKENS`);
+  const baseUrl = Deno.env.get(`${prefix}BASE_URL`);
+
+  if (provider) overrides.provider = provider as LLMProviderName;
+  if (model) overrides.model = model;
+  if (temperature) overrides.temperature = Number(temperature);
+  if (maxTokens) overrides.max_tokens = Number(maxTokens);
+  if (baseUrl) overrides.base_url = baseUrl;
+
+  return overrides;
+}
+
+/**
+ * Resolves the model settings for one call. Later sources win:
+ * built-in defaults, `LLM_*` env vars, `CHAT_LLM_*` / `FEEDBACK_LLM_*` env vars,
+ * then the scenario's `llm_config[purpose]`. When the environment selects the mock
+ * provider it always wins, so offline runs never reach a real API.
+ */
+export function resolveLLMConfig(purpose: LLMPurpose, scenarioConfig?: unknown): LLMConfig {
+  const envConfig = { ...envOverrides('LLM_'), ...envOverrides(`${purpose.toUpperCase()}_LLM_`) };
+  const scenarioOverrides = ((scenarioConfig ?? {}) as Partial<Record<LLMPurpose, LLMOverrides>>)[purpose] ?? {};
+  const merged: LLMOverrides = { ...envConfig, ...scenarioOverrides };
+
+  if (envConfig.provider === 'mock') {
+    merged.provider = 'mock';
+    merged.model = envConfig.model;
+  }
+
+  const provider = merged.provider ?? 'openai';
+  if (!PROVIDERS.includes(provider)) {
+    throw new Error(`Unknown LLM provider: ${provider}`);
+  }
+
+  return {
+    provider,
+    model: merged.model ?? DEFAULT_MODELS[provider],
+    temperature: merged.temperature ?? PURPOSE_DEFAULTS[purpose].temperature,
+    max_tokens: merged.max_tokens ?? PURPOSE_DEFAULTS[purpose].max_tokens,
+    base_url: merged.base_url ?? (provider === 'openai-compatible' ? OPENAI_COMPATIBLE_DEFAULT_URL : undefined),
+  };
+}
+
+export function createProvider(config: LLMConfig): LLMProvider {
+  switch (config.provider) {
+    case 'openai': {
+      const apiKey = Deno.env.get('OPENAI_API_KEY');
+      if (!apiKey) throw new Error('OpenAI API key not configured');
+      return new OpenAIProvider(config, apiKey);
+    }
+    case 'anthropic': {
+      const apiKey = Deno.env.get('ANTHROPIC_API_KEY');
+      if (!apiKey) throw new Error('Anthropic API key not configured');
+      return new AnthropicProvider(config, apiKey);
+    }
+    case 'openai-compatible':
+      return new OpenAIProvider(config, Deno.env.get('LLM_API_KEY'));
+    case 'mock': {
+      const script = Deno.env.get('LLM_MOCK_SCRIPT');
+      return new MockProvider(config, script ? (JSON.parse(script) as MockRule[]) : []);
+    }
+  }
+}
+
+export function getProvider(purpose: LLMPurpose, scenarioConfig?: unknown): LLMProvider {
+  return createProvider(resolveLLMConfig(purpose, scenarioConfig));
+}
@@ -0,0 +1,148 @@
+import type { LLMCompletion, LLMConfig, LLMProvider, LLMRequest, LLMUsage } from './types.ts';
+
+export interface MockRule {
+  /** Case-insensitive regular expression tested against the latest user message. */
+  match?: string;
+  response: string;
+}
+
+const DEFAULT_FEEDBACK = {
+  summary: 'Mock evaluation: the conversation was clear and courteous, with room for more specific examples.',
+  recommendations: [
+    'Lead with your main point before adding detail.',
+    'Acknowledge the other person\'s concerns explicitly.',
+    'Close with a concrete next step.',
+  ],
+};
+
+/**
+ * Scores every `"key": <number min-max>` placeholder in the prompt's response template at 70% of
+ * its range, for the whole conversation and each stage it lists, and marks any goals it lists as
+ * partly met by the first `[#id]` user message. Every user message is annotated and rewritten, up
+ * to the caps the prompt states, so mock feedback always matches whatever rubric, goals, stages
+ * and conversation the prompt asked about, and is as long as the prompt allows.
+ */
+function defaultFeedback(prompt: string) {
+  const scores: Record<string, number> = {};
+  for (const [, key, min, max] of prompt.matchAll(/"(\w+)": <number (-?[\d.]+)-(-?[\d.]+)>/g)) {
+    scores[key] = Math.round((Number(min) + (Number(max) - Number(min)) * 0.7) * 2) / 2;
+  }
+
+  const userMessageIds = [...prompt.matchAll(/\[#(\d+)\] User/g)].map(([, id]) => Number(id));
+  const messageIds = userMessageIds.slice(0, 1);
+  const dimensions = Object.keys(scores);
+  const cap = (pattern: RegExp) => Number(prompt.match(pattern)?.[1] ?? Infinity);
+  const goalKeys = prompt.match(/<goal key: one of ([^>]+)>/)?.[1].split(',').map((key) => key.trim()) ?? [];
+  const stageKeys = prompt.match(/<stage key: one of ([^>]+)>/)?.[1].split(',').map((key) => key.trim()) ?? [];
+
+  return {
+    summary: DEFAULT_FEEDBACK.summary,
+    scores,
+    recommendations: DEFAULT_FEEDBACK.recommendations.map((text) => ({ text, message_ids: messageIds })),
+    goals: goalKeys.map((key) => ({
+      key,
+      status: messageIds.length > 0 ? 'partial' : 'missed',
+      message_ids: messageIds,
+      evidence: 'Mock evaluation: touched on this goal without fully completing it.',
+    })),
+    stages: stageKeys.map((key) => ({ key, scores })),
+    annotations: dimensions.length > 0
+      ? userMessageIds.slice(0, cap(/Annotate up to (\d+)/)).map((message_id, index) => ({
+          message_id,
+          dimension: dimensions[index % dimensions.length],
+          severity: 'medium',
+          strengths: ['Opened politely and stayed on topic.'],
+          issues: ['Could state the main point sooner.'],
+        }))
+      : [],
+    rewrites: userMessageIds.slice(0, cap(/Rewrite up to (\d+)/)).map((message_id) => ({
+      message_id,
+      rewrite: 'Thanks for making the time. The main thing I would like to agree on today is a clear next step.',
+      reasons: ['States the goal up front so the other person knows where the conversation is going.'],
+    })),
+  };
+}
+
+/** A valid scenario draft for the brief function, whichever brief it was given. */
+function defaultScenarioDraft() {
+  return {
+    title: 'Mock Practice Conversation',
+    description: 'Mock draft: rehearse the conversation from your brief with a realistic counterpart.',
+    objective: 'Explain your position clearly and agree on a next step.',
+    ai_persona: 'You are the other person in this conversation. You are busy and a little sceptical, but you listen when the user is clear and specific.',
+    difficulty_level: 'intermediate',
+    estimated_duration: 10,
+    rubric: {
+      dimensions: [
+        { key: 'clarity', label: 'Clarity', description: 'States the main point early and plainly.', weight: 1 },
+        { key: 'empathy', label: 'Empathy', description: 'Acknowledges the other person\'s concerns.', weight: 1 },
+      ],
+    },
+  };
+}
+
+/** Roughly four characters per token, which is close enough to exercise quotas offline. */
+function estimateUsage(request: LLMRequest, content: string): LLMUsage {
+  const promptChars = request.messages.reduce((sum, message) => sum + message.content.length, 0);
+  return {
+    prompt_tokens: Math.ceil(promptChars / 4),
+    completion_tokens: Math.ceil(content.length / 4),
+  };
+}
+
+/**
+ * Offline provider for tests and local development. Replies are a pure function of the request:
+ * the first rule whose `match` fits the latest user message wins, otherwise unconditional rules are
+ * used in order by turn number, and with no script at all a canned reply is returned. Like a real
+ * model, a reply longer than `max_tokens` is cut off there, so a budget too small for the output
+ * a prompt asks for fails offline as well.
+ */
+export class MockProvider implements LLMProvider {
+  constructor(readonly config: LLMConfig, private readonly script: MockRule[] = []) {}
+
+  complete(request: LLMRequest): Promise<LLMCompletion> {
+    const content = this.truncate(this.reply(request));
+    return Promise.resolve({ content, model: this.config.model, usage: estimateUsage(request, content) });
+  }
+
+  async stream(request: LLMRequest, onDelta: (delta: string) => void): Promise<LLMCompletion> {
+    const content = this.truncate(this.reply(request));
+
+    for (const token of content.match(/\S+\s*/g) ?? []) {
+      if (request.signal?.aborted) {
+        throw new DOMException('The operation was aborted.', 'AbortError');
+      }
+      onDelta(token);
+    }
+
+    return { content, model: this.config.model, usage: estimateUsage(request, content) };
+  }
+
+  /** Cuts a reply off at `max_tokens`, at the same four characters per token as the usage estimate. */
+  private truncate(content: string): string {
+    return content.slice(0, this.config.max_tokens * 4);
+  }
+
+  private reply(request: LLMRequest): string {
+    const lastUserMessage = [...request.messages].reverse().find((message) => message.role === 'user')?.content ?? '';
+
+    const matched = this.script.find((rule) => rule.match && new RegExp(rule.match, 'i').test(lastUserMessage));
+    if (matched) return matched.response;
+
+    const sequence = this.script.filter((rule) => !rule.match);
+    if (sequence.length > 0) {
+      const turn = request.messages.filter((message) => message.role === 'assistant').length;
+      return sequence[turn % sequence.length].response;
+    }
+
+    if (request.responseFormat === 'json') {
+      return JSON.stringify(
+        lastUserMessage.includes('"ai_persona": "<') ? defaultScenarioDraft() : defaultFeedback(lastUserMessage)
+      );
+    }
+
+    return lastUserMessage
+      ? `I hear you. Can you tell me more about what you meant by "${lastUserMessage.slice(0, 60)}"?`
+      : 'Hello, thanks for joining me today. Shall we get started?';
+  }
+}
@@ -0,0 +1,83 @@
+import { readServerSentEvents } from './sse.ts';
+import type { LLMCompletion, LLMConfig, LLMProvider, LLMRequest } from './types.ts';
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+/**
+ * Chat Completions adapter. Also serves any OpenAI-compatible endpoint
+ * (Ollama, LM Studio, vLLM, ...) when `config.base_url` points at it.
+ */
+export class OpenAIProvider implements LLMProvider {
+  constructor(readonly config: LLMConfig, private readonly apiKey?: string) {}
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    const response = await this.post(request, false);
+    const data = await response.json();
+
+    return {
+      content: data.choices[0].message.content,
+      model: data.model ?? this.config.model,
+      usage: {
+        prompt_tokens: data.usage?.prompt_tokens ?? 0,
+        completion_tokens: data.usage?.completion_tokens ?? 0,
+      },
+    };
+  }
+
+  async stream(request: LLMRequest, onDelta: (delta: string) => void): Promise<LLMCompletion> {
+    const response = await this.post(request, true);
+    let content = '';
+    let model = this.config.model;
+    const usage = { prompt_tokens: 0, completion_tokens: 0 };
+
+    await readServerSentEvents(response.body!, (data) => {
+      if (data === '[DONE]') return false;
+
+      const chunk = JSON.parse(data);
+      model = chunk.model ?? model;
+      // With include_usage the final chunk carries the token counts and no choices
+      if (chunk.usage) {
+        usage.prompt_tokens = chunk.usage.prompt_tokens ?? 0;
+        usage.completion_tokens = chunk.usage.completion_tokens ?? 0;
+      }
+      const delta: string | undefined = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        onDelta(delta);
+      }
+    });
+
+    return { content, model, usage };
+  }
+
+  private async post(request: LLMRequest, stream: boolean): Promise<Response> {
+    const baseUrl = (this.config.base_url ?? OPENAI_BASE_URL).replace(/\/$/, '');
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.config.model,
+        messages: request.messages,
+        temperature: this.config.temperature,
+        max_tokens: this.config.max_tokens,
+        stream,
+        // Not every OpenAI-compatible server understands stream_options, so only ask OpenAI itself
+        ...(stream && this.config.provider === 'openai' ? { stream_options: { include_usage: true } } : {}),
+        ...(request.responseFormat === 'json' ? { response_format: { type: 'json_object' } } : {}),
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`${this.config.provider} API error: ${errorText}`);
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Reads a server-sent event stream and calls `onData` with the payload of every `data:` line.
+ * Stops early when `onData` returns `false`.
+ */
+export async function readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  onData: (data: string) => boolean | void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) return;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) continue;
+      if (onData(trimmed.slice(5).trim()) === false) {
+        await reader.cancel();
+        return;
+      }
+    }
+  }
+}
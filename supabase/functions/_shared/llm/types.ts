@@ -0,0 +1,41 @@
+export type LLMProviderName = 'openai' | 'anthropic' | 'openai-compatible' | 'mock';
+
+/** Which edge function is asking; each purpose can be configured independently. */
+export type LLMPurpose = 'chat' | 'feedback' | 'coach' | 'brief';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMConfig {
+  provider: LLMProviderName;
+  model: string;
+  temperature: number;
+  max_tokens: number;
+  base_url?: string;
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[];
+  responseFormat?: 'text' | 'json';
+  signal?: AbortSignal;
+}
+
+export interface LLMUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+export interface LLMCompletion {
+  content: string;
+  model: string;
+  usage: LLMUsage;
+}
+
+export interface LLMProvider {
+  readonly config: LLMConfig;
+  complete(request: LLMRequest): Promise<LLMCompletion>;
+  /** Streams the completion, calling `onDelta` for each text chunk, and resolves with the full reply. */
+  stream(request: LLMRequest, onDelta: (delta: string) => void): Promise<LLMCompletion>;
+}
@@ -0,0 +1,188 @@
+export type ModerationCategory = 'harassment' | 'self_harm' | 'sexual' | 'pii';
+export type ModerationAction = 'allow' | 'flag' | 'soften' | 'block';
+/** Which side of the turn is being screened; each has its own policy. */
+export type ModerationSide = 'user' | 'assistant';
+
+export type CategoryScores = Partial<Record<ModerationCategory, number>>;
+
+export interface ModerationClassifier {
+  readonly name: string;
+  /** Cheap enough to re-check a reply after every sentence while it streams. */
+  readonly incremental: boolean;
+  /** Scores each category from 0 (absent) to 1 (certain). */
+  classify(text: string): Promise<CategoryScores>;
+}
+
+export type ModerationPolicy = Record<ModerationSide, Record<ModerationCategory, ModerationAction>>;
+
+export interface ModerationVerdict {
+  classifier: string;
+  action: ModerationAction;
+  categories: ModerationCategory[];
+  scores: CategoryScores;
+  /** Set when the classifier failed and the text was let through unscreened. */
+  error?: string;
+}
+
+const CATEGORIES: ModerationCategory[] = ['harassment', 'self_harm', 'sexual', 'pii'];
+const ACTION_RANK: Record<ModerationAction, number> = { allow: 0, flag: 1, soften: 2, block: 3 };
+
+// Users practise difficult conversations, so rudeness from them is only flagged; the persona is held to a higher bar
+const DEFAULT_POLICY: ModerationPolicy = {
+  user: { harassment: 'flag', self_harm: 'block', sexual: 'block', pii: 'flag' },
+  assistant: { harassment: 'soften', self_harm: 'block', sexual: 'block', pii: 'soften' },
+};
+
+const KEYWORDS: Record<Exclude<ModerationCategory, 'pii'>, RegExp[]> = {
+  harassment: [
+    /\b(idiot|moron|stupid|retard(ed)?|worthless|pathetic|loser)\b/i,
+    /\b(shut up|go to hell|screw you|f+u+c+k+ (you|off))\b/i,
+    /\b(i('| wi)ll|gonna|going to) (kill|hurt|beat) you\b/i,
+  ],
+  self_harm: [
+    /\b(kill|hurt|harm) myself\b/i,
+    /\b(suicide|suicidal|end my life|self[- ]harm|want to die)\b/i,
+  ],
+  sexual: [
+    /\b(porn(ography)?|nudes?|naked|sexy|have sex|sexually explicit)\b/i,
+  ],
+};
+
+const PII_PATTERNS: RegExp[] = [
+  /\b[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}\b/i, // email
+  /(?:\+?\d{1,3}[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/, // phone
+  /\b\d{3}-\d{2}-\d{4}\b/, // US SSN
+  /\b(?:\d[ -]?){13,16}\b/, // payment card
+];
+
+function keywordScores(text: string): CategoryScores {
+  const scores: CategoryScores = {};
+  for (const [category, patterns] of Object.entries(KEYWORDS) as [ModerationCategory, RegExp[]][]) {
+    if (patterns.some((pattern) => pattern.test(text))) scores[category] = 1;
+  }
+  if (PII_PATTERNS.some((pattern) => pattern.test(text))) scores.pii = 1;
+  return scores;
+}
+
+/** Offline classifier: keyword and pattern matching only, no network calls. */
+export class KeywordClassifier implements ModerationClassifier {
+  readonly name = 'keyword';
+  readonly incremental = true;
+
+  async classify(text: string): Promise<CategoryScores> {
+    return keywordScores(text);
+  }
+}
+
+/**
+ * OpenAI's moderation endpoint for harassment, self-harm and sexual content.
+ * It has no PII category, so that one still comes from the local patterns.
+ */
+export class OpenAIModerationClassifier implements ModerationClassifier {
+  readonly name = 'openai';
+  // One network round trip per check, so replies are held and classified once they're complete
+  readonly incremental = false;
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly model = 'omni-moderation-latest',
+    private readonly baseUrl = 'https://api.openai.com/v1'
+  ) {}
+
+  async classify(text: string): Promise<CategoryScores> {
+    const response = await fetch(`${this.baseUrl}/moderations`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ model: this.model, input: text }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Moderation request failed (${response.status}): ${await response.text()}`);
+    }
+
+    const data = await response.json();
+    const raw: Record<string, number> = data.results?.[0]?.category_scores ?? {};
+    const highest = (...keys: string[]) => Math.max(0, ...keys.map((key) => raw[key] ?? 0));
+
+    return {
+      harassment: highest('harassment', 'harassment/threatening', 'hate', 'hate/threatening'),
+      self_harm: highest('self-harm', 'self-harm/intent', 'self-harm/instructions'),
+      sexual: highest('sexual', 'sexual/minors'),
+      pii: keywordScores(text).pii ?? 0,
+    };
+  }
+}
+
+/**
+ * Picks the classifier from MODERATION_PROVIDER: `openai`, `keyword` (default) or `none`
+ * to switch moderation off. `LLM_PROVIDER=mock` forces the keyword classifier so tests stay offline.
+ */
+export function getModerationClassifier(): ModerationClassifier | null {
+  const provider = Deno.env.get('LLM_PROVIDER') === 'mock'
+    ? 'keyword'
+    : Deno.env.get('MODERATION_PROVIDER') ?? 'keyword';
+
+  switch (provider) {
+    case 'none':
+      return null;
+    case 'openai': {
+      const apiKey = Deno.env.get('OPENAI_API_KEY');
+      if (!apiKey) throw new Error('OpenAI API key not configured');
+      return new OpenAIModerationClassifier(apiKey, Deno.env.get('MODERATION_MODEL') || undefined);
+    }
+    case 'keyword':
+      return new KeywordClassifier();
+    default:
+      throw new Error(`Unknown moderation provider: ${provider}`);
+  }
+}
+
+/** The default policy with any per-side overrides from MODERATION_POLICY (JSON) applied. */
+export function getModerationPolicy(): ModerationPolicy {
+  const raw = Deno.env.get('MODERATION_POLICY');
+  if (!raw) return DEFAULT_POLICY;
+
+  try {
+    const overrides = JSON.parse(raw) as Partial<Record<ModerationSide, Partial<Record<ModerationCategory, ModerationAction>>>>;
+    return {
+      user: { ...DEFAULT_POLICY.user, ...overrides.user },
+      assistant: { ...DEFAULT_POLICY.assistant, ...overrides.assistant },
+    };
+  } catch (error) {
+    console.error('Invalid MODERATION_POLICY, using defaults:', error);
+    return DEFAULT_POLICY;
+  }
+}
+
+/**
+ * Classifies one message and applies the strictest action among the categories over the threshold.
+ * A classifier failure lets the text through with the error recorded, so an outage never blocks chat.
+ */
+export async function moderate(
+  classifier: ModerationClassifier,
+  policy: ModerationPolicy,
+  side: ModerationSide,
+  text: string
+): Promise<ModerationVerdict> {
+  const threshold = Number(Deno.env.get('MODERATION_THRESHOLD')) || 0.5;
+
+  let scores: CategoryScores;
+  try {
+    scores = await classifier.classify(text);
+  } catch (error) {
+    console.error('Moderation failed:', error);
+    return { classifier: classifier.name, action: 'allow', categories: [], scores: {}, error: (error as Error).message };
+  }
+
+  const categories = CATEGORIES.filter((category) => (scores[category] ?? 0) >= threshold);
+  const action = categories.reduce<ModerationAction>(
+    (strictest, category) =>
+      ACTION_RANK[policy[side][category]] > ACTION_RANK[strictest] ? policy[side][category] : strictest,
+    'allow'
+  );
+
+  return { classifier: classifier.name, action, categories, scores };
+}
@@ -0,0 +1,152 @@
+import { mentionsCue } from './goals.ts';
+
+/**
+ * One of the characters in a multi-persona scenario, e.g. a member of an interview panel. The
+ * scenario's `ai_persona` describes the setting; each persona plays a part in it.
+ */
+export interface ScenarioPersona {
+  key: string;
+  name: string;
+  role: string;
+  agenda: string;
+  temperament: string;
+}
+
+/** Why a persona speaks in a turn, stored on its message as `metadata.turn_taking`. */
+export type SpeakerReason = 'opening' | 'addressed' | 'follow_up' | 'interjection';
+
+export interface Speaker {
+  persona: ScenarioPersona;
+  reason: SpeakerReason;
+}
+
+/** Most personas that answer one user turn, unless the user addresses more of them by name. */
+const MAX_SPEAKERS = 2;
+/** Replies from the others after which a silent persona cuts in to push their agenda. */
+const QUIET_REPLIES = 3;
+
+/** Reads `scenario.personas`, dropping malformed entries and repeated keys rather than failing the turn. */
+export function parsePersonas(raw: unknown): ScenarioPersona[] {
+  if (!Array.isArray(raw)) return [];
+
+  const seen = new Set<string>();
+  return raw.flatMap((entry: unknown) => {
+    const persona = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+    if (typeof persona.key !== 'string' || typeof persona.name !== 'string' || seen.has(persona.key)) return [];
+    seen.add(persona.key);
+
+    return [{
+      key: persona.key,
+      name: persona.name,
+      role: typeof persona.role === 'string' ? persona.role : '',
+      agenda: typeof persona.agenda === 'string' ? persona.agenda : '',
+      temperament: typeof persona.temperament === 'string' ? persona.temperament : '',
+    }];
+  });
+}
+
+/** The persona's full name and first name, either of which addresses them. */
+const namesOf = (persona: ScenarioPersona) => [persona.name, persona.name.split(/\s+/)[0]];
+
+/**
+ * Who answers the user's latest turn, in speaking order: the personas the user addressed by name,
+ * otherwise whoever spoke last (they asked what the user is answering), otherwise the lead. A
+ * persona left out of the last few replies then cuts in. The lead alone opens the conversation.
+ */
+export function chooseSpeakers(
+  personas: ScenarioPersona[],
+  history: { role: string; persona?: string | null }[],
+  userMessage: string,
+  isInitial: boolean
+): Speaker[] {
+  const lead = personas[0];
+  if (!lead) return [];
+  if (isInitial) return [{ persona: lead, reason: 'opening' }];
+
+  const text = userMessage.toLowerCase();
+  const addressed = personas
+    .filter((persona) => mentionsCue(userMessage, namesOf(persona)))
+    .sort((a, b) => firstMention(text, a) - firstMention(text, b));
+  if (addressed.length > 0) {
+    return addressed.map((persona) => ({ persona, reason: 'addressed' }));
+  }
+
+  const replies = history.filter((message) => message.role === 'assistant');
+  const lastSpeaker = personas.find((persona) => persona.key === replies[replies.length - 1]?.persona) ?? lead;
+  const speakers: Speaker[] = [{ persona: lastSpeaker, reason: 'follow_up' }];
+
+  // The persona that has waited longest, counting everything said since they last spoke
+  const quiet = personas
+    .filter((persona) => persona.key !== lastSpeaker.key)
+    .map((persona) => {
+      const lastSpoke = replies.map((reply) => reply.persona).lastIndexOf(persona.key);
+      return { persona, waited: replies.length - 1 - lastSpoke };
+    })
+    .sort((a, b) => b.waited - a.waited)[0];
+
+  if (quiet && quiet.waited >= QUIET_REPLIES && speakers.length < MAX_SPEAKERS) {
+    speakers.push({ persona: quiet.persona, reason: 'interjection' });
+  }
+  return speakers;
+}
+
+function firstMention(text: string, persona: ScenarioPersona): number {
+  const positions = namesOf(persona)
+    .map((name) => text.indexOf(name.toLowerCase()))
+    .filter((position) => position !== -1);
+  return positions.length > 0 ? Math.min(...positions) : Infinity;
+}
+
+const SPEAKER_GUIDANCE: Record<SpeakerReason, string> = {
+  opening: 'Open the conversation: introduce yourself and the others present, then hand over to the user.',
+  addressed: 'The user spoke to you directly, so answer them yourself.',
+  follow_up: 'The user is answering you, so respond and follow up as you see fit.',
+  interjection: 'You have been quiet for a while: cut in briefly with your own question or concern.',
+};
+
+/** Tells the model which persona it is voicing this time, and who else is in the room. */
+export function speakerInstructions(personas: ScenarioPersona[], speaker: Speaker): string {
+  const { persona } = speaker;
+  const others = personas
+    .filter((other) => other.key !== persona.key)
+    .map((other) => `- ${other.name}${other.role ? `, ${other.role}` : ''}`)
+    .join('\n');
+
+  return `
+
+You are speaking as ${persona.name}${persona.role ? `, ${persona.role}` : ''}.
+${persona.agenda ? `Your agenda: ${persona.agenda}\n` : ''}${persona.temperament ? `Your temperament: ${persona.temperament}\n` : ''}${
+    others ? `Also present:\n${others}\n` : ''
+  }Earlier lines from everyone present start with the speaker's name in brackets. Write only ${persona.name}'s next words, without a name prefix and without speaking for anyone else.
+${SPEAKER_GUIDANCE[speaker.reason]}`;
+}
+
+/** Prefixes a stored reply with its speaker's name, so the model can tell the personas apart. */
+export function labelSpeaker(personas: ScenarioPersona[], message: { role: string; persona?: string | null; content: string }): string {
+  const persona = message.role === 'assistant' ? personas.find((candidate) => candidate.key === message.persona) : undefined;
+  return persona ? `[${persona.name}] ${message.content}` : message.content;
+}
+
+/**
+ * What the personas who already answered the user's latest message said, for the next speaker.
+ * It goes in the system prompt rather than as assistant turns, so the request still ends on the
+ * user's turn: Anthropic would take a trailing assistant turn as a reply to continue.
+ */
+export function earlierRepliesInstructions(
+  personas: ScenarioPersona[],
+  replies: { persona: string | null; content: string }[]
+): string {
+  if (replies.length === 0) return '';
+
+  return `
+
+Already said in reply to the user's latest message:
+${replies.map((reply) => labelSpeaker(personas, { role: 'assistant', ...reply })).join('\n')}
+Don't repeat what was said; react to it if your character would.`;
+}
+
+/** Drops a name prefix the model copied from the history, e.g. "[Priya Shah] " or "Priya Shah:". */
+export function stripSpeakerLabel(persona: ScenarioPersona, content: string): string {
+  const name = persona.name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return content.replace(new RegExp(`^\\s*(\\[${name}\\]|${name}:)\\s*`, 'i'), '');
+}
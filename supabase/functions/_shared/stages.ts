@@ -0,0 +1,128 @@
+import { mentionsCue } from './goals.ts';
+
+/** When a stage may begin (entry) or is finished (exit). Every condition that is set must hold. */
+export interface StageCondition {
+  /** User turns so far: across the whole session for entry, within the stage for exit. */
+  min_turns?: number;
+  /** Keys of scenario goals that must have been met. */
+  goals?: string[];
+  /** Phrases, one of which the user's latest turn must contain. */
+  cues?: string[];
+}
+
+/**
+ * One beat of a staged scenario, e.g. an interview's warm-up or its curveball. The chat function
+ * moves through stages in order and adds the current stage's `persona` to the scenario's own.
+ */
+export interface ScenarioStage {
+  key: string;
+  label: string;
+  persona: string;
+  entry: StageCondition;
+  /** Empty means the stage only ends at `max_turns`, or never if that isn't set either. */
+  exit: StageCondition;
+  /** Moves on after this many user turns in the stage even if the exit conditions never hold. */
+  max_turns: number | null;
+}
+
+export interface StageChange {
+  from: string;
+  to: string;
+  reason: string;
+}
+
+/** What the conversation has done so far, for checking stage conditions after a user turn. */
+export interface StageProgress {
+  /** Including the latest turn. */
+  sessionTurns: number;
+  stageTurns: number;
+  goalsMet: Set<string>;
+  latestTurn: string;
+}
+
+function parseCondition(raw: unknown): StageCondition {
+  const condition = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const strings = (value: unknown) =>
+    Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : [];
+
+  return {
+    ...(Number.isInteger(condition.min_turns) && (condition.min_turns as number) > 0 ? { min_turns: condition.min_turns as number } : {}),
+    ...(strings(condition.goals).length > 0 ? { goals: strings(condition.goals) } : {}),
+    ...(strings(condition.cues).length > 0 ? { cues: strings(condition.cues) } : {}),
+  };
+}
+
+/** Reads `scenario.stages`, dropping malformed entries rather than failing the turn. */
+export function parseStages(raw: unknown): ScenarioStage[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw.flatMap((entry: unknown) => {
+    const stage = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+    if (typeof stage.key !== 'string' || typeof stage.label !== 'string' || typeof stage.persona !== 'string') return [];
+
+    return [{
+      key: stage.key,
+      label: stage.label,
+      persona: stage.persona,
+      entry: parseCondition(stage.entry),
+      exit: parseCondition(stage.exit),
+      max_turns: Number.isInteger(stage.max_turns) && (stage.max_turns as number) > 0 ? (stage.max_turns as number) : null,
+    }];
+  });
+}
+
+/** The position of the stage stored on the session; NULL or a key that no longer exists means the first. */
+export function stageIndex(stages: ScenarioStage[], key: string | null): number {
+  return Math.max(0, stages.findIndex((stage) => stage.key === key));
+}
+
+function conditionMet(condition: StageCondition, turns: number, progress: StageProgress): boolean {
+  return (
+    (condition.min_turns === undefined || turns >= condition.min_turns) &&
+    (condition.goals ?? []).every((key) => progress.goalsMet.has(key)) &&
+    (condition.cues === undefined || mentionsCue(progress.latestTurn, condition.cues))
+  );
+}
+
+const isEmpty = (condition: StageCondition) => Object.keys(condition).length === 0;
+
+/**
+ * The move to the next stage that the latest user turn triggers, if any: the current stage's exit
+ * conditions (or its turn limit) must be met and the next stage's entry conditions must allow it.
+ * Stages advance at most one step per turn.
+ */
+export function advanceStage(stages: ScenarioStage[], index: number, progress: StageProgress): StageChange | null {
+  const current = stages[index];
+  const next = stages[index + 1];
+  if (!current || !next) return null;
+
+  const exited = !isEmpty(current.exit) && conditionMet(current.exit, progress.stageTurns, progress);
+  const timedOut = current.max_turns !== null && progress.stageTurns >= current.max_turns;
+  if (!exited && !timedOut) return null;
+  if (!conditionMet(next.entry, progress.sessionTurns, progress)) return null;
+
+  return {
+    from: current.key,
+    to: next.key,
+    reason: exited ? `${current.label} complete` : `${current.label} reached its ${current.max_turns}-turn limit`,
+  };
+}
+
+/** User turns spent in a stage so far, read from the `stage` the chat function stores on user messages. */
+export function turnsInStage(history: { role: string; metadata: Record<string, unknown> | null }[], key: string): number {
+  return history.filter((message) => message.role === 'user' && message.metadata?.stage === key).length;
+}
+
+/** The current stage's persona instructions, appended to the scenario's standing persona. */
+export function stageInstructions(stages: ScenarioStage[], index: number, justEntered: boolean): string {
+  const stage = stages[index];
+  if (!stage) return '';
+
+  const later = stages.slice(index + 1).map((next) => next.label);
+  return `
+
+Conversation stage ${index + 1} of ${stages.length}: ${stage.label}
+${stage.persona}${justEntered ? '\nThe previous stage is over: move the conversation into this one now, naturally and in character.' : ''}${
+    later.length > 0 ? `\nStay in this stage; later stages (${later.join(', ')}) come when the user is ready for them.` : ''
+  }`;
+}
@@ -0,0 +1,158 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { HttpError } from './http.ts';
+import type { LLMCompletion, LLMConfig, LLMPurpose } from './llm/index.ts';
+
+/** A `null` limit means unlimited. */
+export interface UsageLimits {
+  daily_tokens: number | null;
+  monthly_tokens: number | null;
+  requests_per_minute: number | null;
+}
+
+export interface UsageSummary {
+  daily_tokens: number;
+  monthly_tokens: number;
+  /** Distinct requests, however many model calls each one made. */
+  requests_last_minute: number;
+}
+
+export interface UsageEntry {
+  user_id: string;
+  /** Shared by every model call one request makes, so the rate limit counts requests rather than calls. */
+  request_id: string;
+  session_id: string | null;
+  purpose: LLMPurpose;
+  config: LLMConfig;
+  completion: LLMCompletion;
+  latency_ms: number;
+}
+
+/** USD per million tokens. Override or extend with the `LLM_PRICING` env var (same shape, JSON). */
+const DEFAULT_PRICING: Record<string, { prompt: number; completion: number }> = {
+  'gpt-4o-mini': { prompt: 0.15, completion: 0.6 },
+  'gpt-4o': { prompt: 2.5, completion: 10 },
+  'claude-3-5-haiku-latest': { prompt: 0.8, completion: 4 },
+  'claude-3-5-sonnet-latest': { prompt: 3, completion: 15 },
+};
+
+function pricingFor(model: string): { prompt: number; completion: number } | undefined {
+  const overrides = Deno.env.get('LLM_PRICING');
+  const pricing = { ...DEFAULT_PRICING, ...(overrides ? JSON.parse(overrides) : {}) };
+  // Providers often answer with a dated snapshot name, e.g. gpt-4o-mini-2024-07-18
+  const key = Object.keys(pricing)
+    .sort((a, b) => b.length - a.length)
+    .find((name) => model === name || model.startsWith(`${name}-`));
+  return key ? pricing[key] : undefined;
+}
+
+/** Estimated cost in USD; local and mock models without a price are free. */
+export function estimateCost(model: string, completion: LLMCompletion): number {
+  const price = pricingFor(model);
+  if (!price) return 0;
+
+  return (
+    (completion.usage.prompt_tokens * price.prompt + completion.usage.completion_tokens * price.completion) /
+    1_000_000
+  );
+}
+
+function envLimit(name: string): number | null {
+  const value = Number(Deno.env.get(name));
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+/** Per-user limits from `usage_quota`, falling back to the `QUOTA_*` / `RATE_LIMIT_*` env defaults. */
+export async function getUsageLimits(supabase: SupabaseClient, userId: string): Promise<UsageLimits> {
+  const { data: quota, error } = await supabase
+    .from('usage_quota')
+    .select('daily_token_limit, monthly_token_limit, requests_per_minute')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return {
+    daily_tokens: quota?.daily_token_limit ?? envLimit('QUOTA_DAILY_TOKENS'),
+    monthly_tokens: quota?.monthly_token_limit ?? envLimit('QUOTA_MONTHLY_TOKENS'),
+    requests_per_minute: quota?.requests_per_minute ?? envLimit('RATE_LIMIT_PER_MINUTE'),
+  };
+}
+
+export async function getUsageSummary(supabase: SupabaseClient, userId: string): Promise<UsageSummary> {
+  const { data, error } = await supabase
+    .rpc('get_usage_summary', { target_user_id: userId })
+    .single();
+
+  if (error) throw error;
+
+  const summary = data as Record<keyof UsageSummary, number | string>;
+  return {
+    daily_tokens: Number(summary.daily_tokens),
+    monthly_tokens: Number(summary.monthly_tokens),
+    requests_last_minute: Number(summary.requests_last_minute),
+  };
+}
+
+/** Throws a 429 when the caller is over their request rate or token quota. */
+export async function enforceUsageLimits(supabase: SupabaseClient, userId: string): Promise<void> {
+  const [limits, summary] = await Promise.all([
+    getUsageLimits(supabase, userId),
+    getUsageSummary(supabase, userId),
+  ]);
+
+  if (limits.requests_per_minute !== null && summary.requests_last_minute >= limits.requests_per_minute) {
+    throw new HttpError(
+      429,
+      'rate_limited',
+      'You are sending messages too quickly. Please wait a moment and try again.',
+      { retry_after_seconds: 60 },
+      { 'Retry-After': '60' }
+    );
+  }
+
+  if (limits.daily_tokens !== null && summary.daily_tokens >= limits.daily_tokens) {
+    const now = new Date();
+    const tomorrow = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+    const retryAfter = Math.ceil((tomorrow - now.getTime()) / 1000);
+    throw new HttpError(
+      429,
+      'daily_quota_exceeded',
+      'You have used today\'s AI allowance. It resets at midnight UTC.',
+      { retry_after_seconds: retryAfter, limit: limits.daily_tokens, used: summary.daily_tokens },
+      { 'Retry-After': String(retryAfter) }
+    );
+  }
+
+  if (limits.monthly_tokens !== null && summary.monthly_tokens >= limits.monthly_tokens) {
+    const now = new Date();
+    const nextMonth = Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1);
+    const retryAfter = Math.ceil((nextMonth - now.getTime()) / 1000);
+    throw new HttpError(
+      429,
+      'monthly_quota_exceeded',
+      'You have used this month\'s AI allowance. It resets on the 1st (UTC).',
+      { retry_after_seconds: retryAfter, limit: limits.monthly_tokens, used: summary.monthly_tokens },
+      { 'Retry-After': String(retryAfter) }
+    );
+  }
+}
+
+/** Appends one call to the ledger. Failures are logged, never surfaced to the user. */
+export async function recordUsage(supabase: SupabaseClient, entry: UsageEntry): Promise<void> {
+  const { error } = await supabase.from('usage_ledger').insert({
+    user_id: entry.user_id,
+    request_id: entry.request_id,
+    session_id: entry.session_id,
+    purpose: entry.purpose,
+    provider: entry.config.provider,
+    model: entry.completion.model,
+    prompt_tokens: entry.completion.usage.prompt_tokens,
+    completion_tokens: entry.completion.usage.completion_tokens,
+    latency_ms: entry.latency_ms,
+    cost_usd: estimateCost(entry.completion.model, entry.completion),
+  });
+
+  if (error) {
+    console.error('Failed to record usage:', error);
+  }
+}
@@ -0,0 +1,92 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { authenticate } from '../_shared/auth.ts';
+import { corsHeaders, errorResponse, HttpError, jsonResponse } from '../_shared/http.ts';
+import { getProvider, type LLMMessage } from '../_shared/llm/index.ts';
+import { getModerationClassifier, getModerationPolicy, moderate } from '../_shared/moderation.ts';
+import { enforceUsageLimits, recordUsage } from '../_shared/usage.ts';
+import { buildBriefMessages, draftRepairPrompt, validateDraftReply } from './prompt.ts';
+
+interface BriefRequest {
+  brief: string;
+}
+
+const MIN_BRIEF_LENGTH = 15;
+const MAX_BRIEF_LENGTH = 1500;
+const MAX_ATTEMPTS = 2;
+
+/**
+ * Drafts a private scenario from the user's plain-language brief. Nothing is stored here: the
+ * user edits the draft and saves it to `scenario` themselves, as its owner.
+ */
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+    const user = await authenticate(req, supabase);
+    const requestId = crypto.randomUUID();
+    const { brief }: BriefRequest = await req.json();
+
+    const text = typeof brief === 'string' ? brief.trim() : '';
+    if (text.length < MIN_BRIEF_LENGTH || text.length > MAX_BRIEF_LENGTH) {
+      throw new HttpError(
+        400,
+        'invalid_request',
+        `Describe the conversation in ${MIN_BRIEF_LENGTH} to ${MAX_BRIEF_LENGTH} characters`
+      );
+    }
+
+    const classifier = getModerationClassifier();
+    if (classifier) {
+      const verdict = await moderate(classifier, getModerationPolicy(), 'user', text);
+      if (verdict.action === 'block') {
+        throw new HttpError(422, 'brief_blocked', "We can't create a scenario from that brief. Please describe a different conversation.", {
+          categories: verdict.categories,
+        });
+      }
+    }
+
+    await enforceUsageLimits(supabase, user.id);
+
+    const provider = getProvider('brief');
+    const conversation: LLMMessage[] = buildBriefMessages(text);
+
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      const startedAt = Date.now();
+      const completion = await provider.complete({ messages: conversation, responseFormat: 'json' });
+
+      await recordUsage(supabase, {
+        user_id: user.id,
+        request_id: requestId,
+        session_id: null,
+        purpose: 'brief',
+        config: provider.config,
+        completion,
+        latency_ms: Date.now() - startedAt,
+      });
+
+      const result = validateDraftReply(completion.content);
+      if (result.ok) {
+        return jsonResponse({ draft: result.value });
+      }
+
+      console.warn(`Brief attempt ${attempt} failed validation:`, result.errors);
+      conversation.push(
+        { role: 'assistant', content: completion.content },
+        { role: 'user', content: draftRepairPrompt(result.errors) }
+      );
+    }
+
+    throw new HttpError(502, 'draft_invalid', "We couldn't draft a scenario from that brief. Please try again or reword it.");
+  } catch (error) {
+    console.error('Brief error:', error);
+    return errorResponse(error);
+  }
+});
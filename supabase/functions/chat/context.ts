@@ -0,0 +1,120 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2.57.4';
+import type { LLMCompletion, LLMMessage, LLMProvider } from '../_shared/llm/index.ts';
+
+export interface HistoryMessage {
+  id: number;
+  role: string;
+  content: string;
+  metadata: Record<string, unknown> | null;
+}
+
+/** The rolling summary stored on the session row. */
+export interface ConversationSummary {
+  conversation_summary: string | null;
+  summary_through_message_id: number | null;
+}
+
+export interface ManagedContext {
+  /** The persona's running memory of everything before `recent`, if any. */
+  summary: string | null;
+  /** Turns sent verbatim. */
+  recent: HistoryMessage[];
+  /** Present when older turns were folded into the summary during this call. */
+  summarization?: { completion: LLMCompletion; latency_ms: number };
+}
+
+const DEFAULT_TOKEN_BUDGET = 3000;
+const DEFAULT_RECENT_MESSAGES = 8;
+
+/** Roughly four characters per token; close enough to decide when to summarize. */
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+/**
+ * Keeps the prompt under `CHAT_CONTEXT_TOKEN_BUDGET`. Once the unsummarized history would overflow it,
+ * everything but the last `CHAT_CONTEXT_RECENT_MESSAGES` messages is folded into the session's running
+ * summary, written from the persona's point of view so the character stays consistent.
+ */
+export async function manageContext(options: {
+  supabase: SupabaseClient;
+  provider: LLMProvider;
+  sessionId: string;
+  persona: string;
+  stored: ConversationSummary;
+  history: HistoryMessage[];
+  /** Tokens already committed to the system prompt and the new user message. */
+  reservedTokens: number;
+}): Promise<ManagedContext> {
+  const { supabase, provider, sessionId, persona, stored, history, reservedTokens } = options;
+  const budget = Number(Deno.env.get('CHAT_CONTEXT_TOKEN_BUDGET') ?? DEFAULT_TOKEN_BUDGET);
+  const keepRecent = Number(Deno.env.get('CHAT_CONTEXT_RECENT_MESSAGES') ?? DEFAULT_RECENT_MESSAGES);
+
+  const summary = stored.conversation_summary;
+  const unsummarized = history.filter((message) => message.id > (stored.summary_through_message_id ?? 0));
+
+  const projected =
+    reservedTokens +
+    estimateTokens(summary ?? '') +
+    unsummarized.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+
+  if (projected <= budget || unsummarized.length <= keepRecent) {
+    return { summary, recent: unsummarized };
+  }
+
+  const toFold = unsummarized.slice(0, unsummarized.length - keepRecent);
+  const recent = unsummarized.slice(unsummarized.length - keepRecent);
+
+  try {
+    const startedAt = Date.now();
+    const completion = await provider.complete({ messages: summaryPrompt(persona, summary, toFold) });
+    const latency_ms = Date.now() - startedAt;
+    const updatedSummary = completion.content.trim();
+
+    const { error } = await supabase
+      .from('session')
+      .update({
+        conversation_summary: updatedSummary,
+        summary_through_message_id: toFold[toFold.length - 1].id,
+      })
+      .eq('id', sessionId);
+
+    if (error) throw error;
+
+    return { summary: updatedSummary, recent, summarization: { completion, latency_ms } };
+  } catch (error) {
+    // Sending the full history is costlier but still correct, so a failed summary never blocks the turn
+    console.error('Conversation summarization failed:', error);
+    return { summary, recent: unsummarized };
+  }
+}
+
+function summaryPrompt(persona: string, previousSummary: string | null, toFold: HistoryMessage[]): LLMMessage[] {
+  const transcript = toFold
+    .map((message) => `${message.role === 'assistant' ? 'You' : 'The other person'}: ${message.content}`)
+    .join('\n');
+
+  return [
+    {
+      role: 'system',
+      content: `You are playing this character in a roleplay: ${persona}
+Maintain private notes so you can stay consistent as the conversation continues.`,
+    },
+    {
+      role: 'user',
+      content: `${previousSummary ? `Your notes so far:\n${previousSummary}\n\n` : ''}New part of the conversation:
+${transcript}
+
+Rewrite your notes in the first person, as your character, in at most 150 words. Keep: facts the other person shared,
+anything either of you agreed to or promised, open questions and objections, and how you currently feel about them.
+Reply with the notes only.`,
+    },
+  ];
+}
+
+export function formatSummaryForPrompt(summary: string | null): string {
+  if (!summary) return '';
+
+  return `
+
+Your memory of the earlier part of this conversation (stay consistent with it):
+${summary}`;
+}
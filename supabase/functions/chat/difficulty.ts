@@ -0,0 +1,128 @@
+export type DifficultyLevel = 'beginner' | 'intermediate' | 'advanced';
+
+const LEVELS: DifficultyLevel[] = ['beginner', 'intermediate', 'advanced'];
+
+/** How each level translates into concrete persona behaviour. */
+const PROFILES: Record<DifficultyLevel, string> = {
+  beginner: `- Pushback: mild; accept reasonable answers without much challenge.
+- Interruptions: never interrupt.
+- Clarity: give clear, direct answers and volunteer useful information.
+- Emotional intensity: calm and patient, openly encouraging.`,
+  intermediate: `- Pushback: raise a realistic objection or follow-up question when an answer is thin.
+- Interruptions: rarely; only cut in if the user rambles.
+- Clarity: occasionally be vague so the user has to ask a clarifying question.
+- Emotional intensity: moderate; show mild impatience or skepticism when warranted.`,
+  advanced: `- Pushback: challenge weak points firmly and do not concede easily.
+- Interruptions: sometimes cut in or redirect, as a busy or upset person would.
+- Clarity: be vague or evasive until the user asks precise questions.
+- Emotional intensity: high but realistic; stay frustrated or guarded until the user earns trust.`,
+};
+
+export interface TurnAssessment {
+  /** 0 (struggling) to 1 (strong). */
+  score: number;
+  signals: string[];
+}
+
+export interface DifficultyChange {
+  from: DifficultyLevel;
+  to: DifficultyLevel;
+  reason: string;
+}
+
+const STRONG_SCORE = 0.7;
+const WEAK_SCORE = 0.35;
+/** Consecutive user turns that must agree before the level moves, and the minimum gap between moves. */
+const STREAK = 2;
+
+const EMPATHY_MARKERS = /\b(understand|appreciate|i hear|sounds like|that must|makes sense|thank you|thanks)\b/i;
+const HEDGES = /\b(maybe|i guess|kind of|sort of|i think maybe|probably|not sure|whatever)\b/i;
+const APOLOGIES = /\b(sorry|apologi[sz]e)\b/i;
+
+export function toDifficultyLevel(value: unknown): DifficultyLevel {
+  return LEVELS.includes(value as DifficultyLevel) ? (value as DifficultyLevel) : 'beginner';
+}
+
+export function difficultyInstructions(level: DifficultyLevel): string {
+  return `
+
+Difficulty: ${level}. Play your character with this intensity:
+${PROFILES[level]}`;
+}
+
+/** A cheap, deterministic read of one user message; it steers difficulty, it is not the final score. */
+export function assessTurn(text: string): TurnAssessment {
+  const words = text.trim().split(/\s+/).filter(Boolean).length;
+  const signals: string[] = [];
+  let score = 0.5;
+
+  if (words < 5) {
+    score -= 0.25;
+    signals.push('very_short');
+  } else if (words >= 15) {
+    score += 0.1;
+    signals.push('substantive');
+  }
+  if (text.includes('?')) {
+    score += 0.15;
+    signals.push('asks_question');
+  }
+  if (EMPATHY_MARKERS.test(text)) {
+    score += 0.15;
+    signals.push('acknowledges');
+  }
+  if (HEDGES.test(text)) {
+    score -= 0.15;
+    signals.push('hedging');
+  }
+  if (APOLOGIES.test(text)) {
+    score -= 0.1;
+    signals.push('apologizing');
+  }
+
+  return { score: Math.round(Math.min(1, Math.max(0, score)) * 100) / 100, signals };
+}
+
+/**
+ * Moves one level up after a streak of strong turns, or down after a streak of weak ones.
+ * `recentScores` ends with the current turn; `turnsSinceChange` counts user turns since the last move.
+ */
+export function adjustDifficulty(
+  current: DifficultyLevel,
+  recentScores: number[],
+  turnsSinceChange: number
+): DifficultyChange | null {
+  if (recentScores.length < STREAK || turnsSinceChange < STREAK) return null;
+
+  const streak = recentScores.slice(-STREAK);
+  const index = LEVELS.indexOf(current);
+
+  if (streak.every((score) => score >= STRONG_SCORE) && index < LEVELS.length - 1) {
+    return { from: current, to: LEVELS[index + 1], reason: 'User is handling the conversation well' };
+  }
+  if (streak.every((score) => score <= WEAK_SCORE) && index > 0) {
+    return { from: current, to: LEVELS[index - 1], reason: 'User is struggling; easing off' };
+  }
+
+  return null;
+}
+
+/** Past assessment scores and the number of user turns since the last level change. */
+export function readDifficultyHistory(
+  history: { role: string; metadata: Record<string, unknown> | null }[]
+): { scores: number[]; turnsSinceChange: number } {
+  const scores: number[] = [];
+  let turnsSinceChange = 0;
+
+  for (const message of history) {
+    if (message.role === 'user') {
+      turnsSinceChange++;
+      const assessment = message.metadata?.assessment as TurnAssessment | undefined;
+      if (assessment) scores.push(assessment.score);
+    } else if (message.metadata?.difficulty_change) {
+      turnsSinceChange = 0;
+    }
+  }
+
+  return { scores, turnsSinceChange };
+}
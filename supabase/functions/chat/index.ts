@@ -1,15 +1,146 @@
-import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
-};
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { authenticate, loadOwnedSession, requireAdmin } from '../_shared/auth.ts';
+import { corsHeaders, errorResponse, HttpError } from '../_shared/http.ts';
+import { getProvider, type LLMMessage } from '../_shared/llm/index.ts';
+import { goalsMetBy, goalsMetSoFar, parseGoals } from '../_shared/goals.ts';
+import { checkIntegrity, PERSONA_GUARDRAILS, redirectInstructions, type IntegrityCheck } from '../_shared/integrity.ts';
+import { getModerationClassifier, getModerationPolicy, moderate, type ModerationVerdict } from '../_shared/moderation.ts';
+import { chooseSpeakers, earlierRepliesInstructions, labelSpeaker, parsePersonas, speakerInstructions, stripSpeakerLabel, type Speaker } from '../_shared/personas.ts';
+import { advanceStage, parseStages, stageIndex, stageInstructions, turnsInStage, type StageChange } from '../_shared/stages.ts';
+import { enforceUsageLimits, recordUsage } from '../_shared/usage.ts';
+import { estimateTokens, formatSummaryForPrompt, manageContext, type HistoryMessage } from './context.ts';
+import {
+  adjustDifficulty,
+  assessTurn,
+  difficultyInstructions,
+  readDifficultyHistory,
+  toDifficultyLevel,
+  type DifficultyChange,
+  type TurnAssessment,
+} from './difficulty.ts';
+import { isModerationBlocked, moderationInstructions, replyScreening, reviewReply, storeBlockedTurn } from './moderation.ts';
+import { deleteMessage, findTurn, insertTurnMessage, type MessageRow } from './persistence.ts';
+import { formatContextForPrompt, retrieveScenarioContext } from './retrieval.ts';
+import { eventStreamHeaders, storedTurn, streamTurn } from './stream.ts';
 
 interface ChatRequest {
   session_id: string;
   user_message: string;
   is_initial?: boolean;
+  /** Idempotency key for the turn; retries must reuse it. Ignored for the opening message. */
+  turn_id?: string;
+  /** Runs a draft scenario's persona for the authoring studio instead of a session turn. Admins only. */
+  preview?: PreviewRequest;
+}
+
+interface PersonaScenario {
+  title: string;
+  objective: string;
+  ai_persona: string;
+}
+
+interface PreviewRequest {
+  scenario: PersonaScenario & { difficulty_level?: string };
+  /** The saved scenario the draft edits, whose model settings the preview runs on; omitted for new drafts. */
+  scenario_id?: string;
+  /** The test chat so far, kept by the client; empty for the opening message. */
+  messages?: { role: 'user' | 'assistant'; content: string }[];
+}
+
+interface ChatSession {
+  scenario_id: string;
+  conversation_summary: string | null;
+  summary_through_message_id: number | null;
+  current_difficulty: string | null;
+  current_stage: string | null;
+  status: string;
+  scenario: {
+    title: string;
+    objective: string;
+    ai_persona: string;
+    difficulty_level: string;
+    goals: unknown;
+    stages: unknown;
+    personas: unknown;
+    llm_config: unknown;
+  };
+}
+
+/** The persona's standing instructions, before any per-turn steering is appended. */
+function personaInstructions(scenario: PersonaScenario, isInitial: boolean): string {
+  return `You are a professional communication coach simulating a real-world ${scenario.title} scenario.
+Your role: ${scenario.ai_persona}
+
+Objective: ${scenario.objective}
+
+Your goal is to help the user practice effective conversation and improve their communication skills.
+Keep responses concise (2-3 sentences), natural, and human-like.
+Stay in character and create a realistic, challenging but supportive practice environment.
+${isInitial ? 'Start the conversation by introducing yourself and the scenario context.' : 'Respond as your character would in this situation.'}`;
+}
+
+/** Recent test-chat messages sent with a preview; drafts are tried in short conversations. */
+const PREVIEW_MESSAGES = 12;
+
+/**
+ * Plays a draft scenario's persona for the authoring studio's test chat. Only usage is stored:
+ * the client keeps the conversation and sends it back with every turn.
+ */
+async function previewTurn(
+  supabase: SupabaseClient,
+  userId: string,
+  requestId: string,
+  preview: PreviewRequest,
+  signal: AbortSignal
+): Promise<ReadableStream<Uint8Array>> {
+  const { scenario, scenario_id, messages = [] } = preview;
+  if (!scenario?.title?.trim() || !scenario.objective?.trim() || !scenario.ai_persona?.trim()) {
+    throw new HttpError(400, 'invalid_request', 'A draft needs a title, objective and persona before it can be previewed');
+  }
+
+  await enforceUsageLimits(supabase, userId);
+
+  const lastMessage = messages[messages.length - 1];
+  const isInitial = messages.length === 0;
+  const integrity = lastMessage?.role === 'user' ? checkIntegrity(lastMessage.content) : { flagged: false, flags: [] };
+  const systemPrompt = `${personaInstructions(scenario, isInitial)}${difficultyInstructions(toDifficultyLevel(scenario.difficulty_level))}${PERSONA_GUARDRAILS}${redirectInstructions(integrity)}`;
+
+  // Model settings only come from the stored scenario: a base_url in the request could send the server's API key anywhere
+  let llmConfig: unknown;
+  if (scenario_id) {
+    const { data: stored, error } = await supabase.from('scenario').select('llm_config').eq('id', scenario_id).maybeSingle();
+    if (error) throw error;
+    if (!stored) throw new HttpError(404, 'scenario_not_found', 'Scenario not found');
+    llmConfig = stored.llm_config;
+  }
+
+  const provider = getProvider('chat', llmConfig);
+  let reply = '';
+
+  return streamTurn(provider, [null], signal, {
+    messagesFor: () => [
+      { role: 'system', content: systemPrompt },
+      ...messages.slice(-PREVIEW_MESSAGES).map((message): LLMMessage => ({
+        role: message.role === 'assistant' ? 'assistant' : 'user',
+        content: String(message.content),
+      })),
+    ],
+    onReply: async (_index, completion, latencyMs) => {
+      await recordUsage(supabase, {
+        user_id: userId,
+        request_id: requestId,
+        session_id: null,
+        purpose: 'chat',
+        config: provider.config,
+        completion,
+        latency_ms: latencyMs,
+      });
+      reply = completion.content;
+      return reply;
+    },
+    onComplete: () => Promise.resolve({ assistant_message: { role: 'assistant', content: reply } }),
+    onAbandon: () => Promise.resolve(),
+  });
 }
 
 Deno.serve(async (req: Request) => {
@@ -23,99 +154,269 @@ Deno.serve(async (req: Request) => {
   try {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const openaiKey = Deno.env.get('OPENAI_API_KEY');
+    const supabase = createClient(supabaseUrl, supabaseKey);
+    const user = await authenticate(req, supabase);
+    const requestId = crypto.randomUUID();
+    const { session_id, user_message, is_initial, turn_id, preview }: ChatRequest = await req.json();
 
-    if (!openaiKey) {
-      throw new Error('OpenAI API key not configured');
+    if (preview) {
+      await requireAdmin(supabase, user.id);
+      return new Response(await previewTurn(supabase, user.id, requestId, preview, req.signal), { headers: eventStreamHeaders });
     }
 
-    const supabase = createClient(supabaseUrl, supabaseKey);
-    const { session_id, user_message, is_initial }: ChatRequest = await req.json();
+    const turnId = is_initial ? session_id : turn_id;
 
-    const { data: session, error: sessionError } = await supabase
-      .from('session')
-      .select('scenario_id, scenario(title, objective, ai_persona)')
-      .eq('id', session_id)
-      .single();
+    if (!turnId || (!is_initial && !user_message?.trim())) {
+      throw new HttpError(400, 'invalid_request', 'turn_id and user_message are required');
+    }
+
+    const session = await loadOwnedSession<ChatSession>(
+      supabase,
+      session_id,
+      user.id,
+      'scenario_id, conversation_summary, summary_through_message_id, current_difficulty, current_stage, status, scenario(title, objective, ai_persona, difficulty_level, goals, stages, personas, llm_config)'
+    );
+    const scenario = session.scenario;
 
-    if (sessionError || !session) {
-      throw new Error('Session not found');
+    const existingTurn = await findTurn(supabase, session_id, turnId);
+    if (existingTurn.assistants.length > 0) {
+      return new Response(
+        storedTurn({ user_message: existingTurn.user ?? null, assistant_messages: existingTurn.assistants }),
+        { headers: eventStreamHeaders }
+      );
+    }
+
+    const classifier = getModerationClassifier();
+    const moderationPolicy = getModerationPolicy();
+    let userVerdict: ModerationVerdict | null = null;
+
+    if (!is_initial && classifier) {
+      userVerdict = await moderate(classifier, moderationPolicy, 'user', user_message);
+      if (userVerdict.action === 'block') {
+        const blocked = await storeBlockedTurn(supabase, session_id, turnId, user_message.trim(), userVerdict);
+        return new Response(storedTurn(blocked), { headers: eventStreamHeaders });
+      }
     }
 
-    const scenario = (session as any).scenario;
+    await enforceUsageLimits(supabase, user.id);
 
     const { data: messages } = await supabase
       .from('message')
-      .select('role, content')
+      .select('id, role, persona, content, metadata, turn_id')
       .eq('session_id', session_id)
       .order('created_at');
 
-    const conversationHistory = messages || [];
-
-    let systemPrompt = `You are a professional communication coach simulating a real-world ${scenario.title} scenario.
-Your role: ${scenario.ai_persona}
+    const earlierMessages: (HistoryMessage & { turn_id: string | null; persona: string | null })[] = (messages || []).filter(
+      (msg: { turn_id: string | null }) => msg.turn_id !== turnId
+    );
+    // Coaching hints are private to the user; the persona never sees them
+    const conversationHistory = earlierMessages.filter(
+      (msg) => msg.role !== 'coach' && !isModerationBlocked(msg)
+    );
+    // A turn sent straight after a hint was assisted, which feedback takes into account
+    const lastMessage = earlierMessages[earlierMessages.length - 1];
+    const hint = lastMessage?.role === 'coach' ? lastMessage : null;
 
-Objective: ${scenario.objective}
+    let difficulty = toDifficultyLevel(session.current_difficulty ?? scenario.difficulty_level);
+    let assessment: TurnAssessment | null = null;
+    let difficultyChange: DifficultyChange | null = null;
+    let integrity: IntegrityCheck = { flagged: false, flags: [] };
+    let goalsMet: string[] = [];
+    const stages = parseStages(scenario.stages);
+    let stage = stageIndex(stages, session.current_stage);
+    // The user's turn belongs to the stage it was spoken in, even when it ends that stage
+    const spokenInStage = stages[stage]?.key;
+    let stageChange: StageChange | null = null;
 
-Your goal is to help the user practice effective conversation and improve their communication skills.
-Keep responses concise (2-3 sentences), natural, and human-like.
-Stay in character and create a realistic, challenging but supportive practice environment.
-${is_initial ? 'Start the conversation by introducing yourself and the scenario context.' : 'Respond as your character would in this situation.'}`;
+    // Flagged turns are redirected rather than answered, so they don't count towards difficulty
+    if (!is_initial) {
+      integrity = checkIntegrity(user_message);
+    }
+    if (!is_initial && !integrity.flagged) {
+      assessment = assessTurn(user_message);
+      const { scores, turnsSinceChange } = readDifficultyHistory(conversationHistory);
+      difficultyChange = adjustDifficulty(difficulty, [...scores, assessment.score], turnsSinceChange + 1);
+      if (difficultyChange) {
+        difficulty = difficultyChange.to;
+      }
 
-    const openaiMessages = [
-      { role: 'system', content: systemPrompt },
-      ...conversationHistory.map((msg: any) => ({
-        role: msg.role === 'assistant' ? 'assistant' : 'user',
-        content: msg.content,
-      })),
-    ];
+      const alreadyMet = goalsMetSoFar(conversationHistory);
+      goalsMet = goalsMetBy(parseGoals(scenario.goals).filter((goal) => !alreadyMet.has(goal.key)), user_message);
 
-    if (!is_initial && user_message) {
-      openaiMessages.push({ role: 'user', content: user_message });
+      if (spokenInStage) {
+        stageChange = advanceStage(stages, stage, {
+          sessionTurns: conversationHistory.filter((msg) => msg.role === 'user').length + 1,
+          stageTurns: turnsInStage(conversationHistory, spokenInStage) + 1,
+          goalsMet: new Set([...alreadyMet, ...goalsMet]),
+          latestTurn: user_message,
+        });
+        if (stageChange) {
+          stage += 1;
+        }
+      }
     }
 
-    const openaiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openaiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: openaiMessages,
-        temperature: 0.8,
-        max_tokens: 200,
-      }),
+    const personas = parsePersonas(scenario.personas);
+    // Flagged turns get a single redirect, from whoever would have answered first
+    const speakers: (Speaker | null)[] =
+      personas.length > 0
+        ? chooseSpeakers(personas, conversationHistory, user_message ?? '', Boolean(is_initial)).slice(0, integrity.flagged ? 1 : undefined)
+        : [null];
+
+    // Ground the persona in the scenario's documents, using the opening objective before the user has spoken
+    const contextChunks = await retrieveScenarioContext(supabase, session.scenario_id, is_initial ? scenario.objective : user_message);
+
+    const systemPrompt = `${personaInstructions(scenario, Boolean(is_initial))}${stageInstructions(stages, stage, Boolean(stageChange))}${difficultyInstructions(difficulty)}${formatContextForPrompt(contextChunks)}${PERSONA_GUARDRAILS}${redirectInstructions(integrity)}${moderationInstructions(userVerdict)}`;
+    const instructionsFor = (speaker: Speaker | null) => systemPrompt + (speaker ? speakerInstructions(personas, speaker) : '');
+
+    const provider = getProvider('chat', scenario.llm_config);
+
+    const context = await manageContext({
+      supabase,
+      provider,
+      sessionId: session_id,
+      persona: scenario.ai_persona,
+      stored: session,
+      // With several personas, every reply names its speaker
+      history: personas.length > 0
+        ? conversationHistory.map((msg) => ({ ...msg, content: labelSpeaker(personas, msg) }))
+        : conversationHistory,
+      reservedTokens: estimateTokens(instructionsFor(speakers[0])) + estimateTokens(user_message ?? ''),
     });
 
-    if (!openaiResponse.ok) {
-      const errorText = await openaiResponse.text();
-      throw new Error(`OpenAI API error: ${errorText}`);
+    if (context.summarization) {
+      await recordUsage(supabase, {
+        user_id: user.id,
+        request_id: requestId,
+        session_id,
+        purpose: 'chat',
+        config: provider.config,
+        completion: context.summarization.completion,
+        latency_ms: context.summarization.latency_ms,
+      });
     }
 
-    const openaiData = await openaiResponse.json();
-    const aiMessage = openaiData.choices[0].message.content;
+    const llmMessages: LLMMessage[] = context.recent.map((msg): LLMMessage => ({
+      role: msg.role === 'assistant' ? 'assistant' : 'user',
+      content: msg.content,
+    }));
 
-    return new Response(
-      JSON.stringify({ message: aiMessage }),
-      {
-        headers: {
-          ...corsHeaders,
-          'Content-Type': 'application/json',
+    let userRow: MessageRow | null = null;
+    let createdUserRow = false;
+
+    if (!is_initial) {
+      const inserted = await insertTurnMessage(supabase, {
+        session_id,
+        turn_id: turnId,
+        role: 'user',
+        content: user_message.trim(),
+        metadata: {
+          assessment,
+          ...(goalsMet.length > 0 ? { goals_met: goalsMet } : {}),
+          ...(spokenInStage ? { stage: spokenInStage } : {}),
+          ...(hint ? { assisted_by: hint.id } : {}),
+          ...(integrity.flagged ? { integrity: { flags: integrity.flags } } : {}),
+          ...(userVerdict ? { moderation: userVerdict } : {}),
         },
-      }
-    );
+      });
+      userRow = inserted.message;
+      createdUserRow = inserted.created;
+      llmMessages.push({ role: 'user', content: userRow.content });
+    }
+
+    const assistantRows: MessageRow[] = [];
+    const createdReplyIds: number[] = [];
+
+    const stream = streamTurn(provider, speakers.map((speaker) => speaker?.persona.key ?? null), req.signal, {
+      messagesFor: (index, earlier) => [
+        {
+          role: 'system',
+          content:
+            instructionsFor(speakers[index]) +
+            formatSummaryForPrompt(context.summary) +
+            earlierRepliesInstructions(personas, earlier.map((content, i) => ({ persona: speakers[i]?.persona.key ?? null, content }))),
+        },
+        ...llmMessages,
+      ],
+      onReply: async (index, completion, latencyMs) => {
+        const speaker = speakers[index];
+        await recordUsage(supabase, {
+          user_id: user.id,
+          request_id: requestId,
+          session_id,
+          purpose: 'chat',
+          config: provider.config,
+          completion,
+          latency_ms: latencyMs,
+        });
+
+        // Screening only kept unchecked text off the stream; the stored reply is the reviewed one
+        const content = speaker ? stripSpeakerLabel(speaker.persona, completion.content) : completion.content;
+        const review = classifier ? await reviewReply(classifier, moderationPolicy, provider, content) : null;
+        if (review?.rewrite) {
+          await recordUsage(supabase, {
+            user_id: user.id,
+            request_id: requestId,
+            session_id,
+            purpose: 'chat',
+            config: provider.config,
+            completion: review.rewrite.completion,
+            latency_ms: review.rewrite.latency_ms,
+          });
+        }
+
+        const { message: assistantRow, created } = await insertTurnMessage(supabase, {
+          session_id,
+          turn_id: turnId,
+          role: 'assistant',
+          ...(speaker ? { persona: speaker.persona.key } : {}),
+          content: review?.content ?? content,
+          metadata: {
+            context_doc_ids: contextChunks.map((chunk) => chunk.id),
+            difficulty,
+            // Changes happen once per turn, so only its first reply records them
+            ...(index === 0 && difficultyChange ? { difficulty_change: difficultyChange } : {}),
+            ...(stages[stage] ? { stage: stages[stage].key } : {}),
+            ...(index === 0 && stageChange ? { stage_change: stageChange } : {}),
+            ...(speaker ? { turn_taking: speaker.reason } : {}),
+            model: completion.model,
+            usage: completion.usage,
+            ...(review ? { moderation: { ...review.verdict, softened: review.softened } } : {}),
+            ...(review?.withheld ? { moderation_notice: 'assistant' } : {}),
+          },
+        });
+        assistantRows.push(assistantRow);
+        if (created) createdReplyIds.push(assistantRow.id);
+        return assistantRow.content;
+      },
+      onComplete: async () => {
+        // Practising after feedback reopens the session; its next feedback becomes a new version
+        const sessionUpdate = {
+          ...(difficultyChange ? { current_difficulty: difficulty } : {}),
+          ...(stageChange ? { current_stage: stageChange.to } : {}),
+          ...(session.status === 'completed' ? { status: 'active', ended_at: null } : {}),
+        };
+        if (Object.keys(sessionUpdate).length > 0) {
+          await supabase.from('session').update(sessionUpdate).eq('id', session_id);
+        }
+
+        return { user_message: userRow, assistant_messages: assistantRows };
+      },
+      onAbandon: async () => {
+        // Never leave part of a turn behind; a retry with the same turn_id starts clean
+        for (const id of createdReplyIds) {
+          await deleteMessage(supabase, id);
+        }
+        if (userRow && createdUserRow) {
+          await deleteMessage(supabase, userRow.id);
+        }
+      },
+      ...replyScreening(classifier, moderationPolicy),
+    });
+
+    return new Response(stream, { headers: eventStreamHeaders });
   } catch (error) {
     console.error('Chat error:', error);
-    return new Response(
-      JSON.stringify({ error: error.message || 'Internal server error' }),
-      {
-        status: 500,
-        headers: {
-          ...corsHeaders,
-          'Content-Type': 'application/json',
-        },
-      }
-    );
+    return errorResponse(error);
   }
-});
\ No newline at end of file
+});
@@ -0,0 +1,144 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2.57.4';
+import type { LLMCompletion, LLMProvider } from '../_shared/llm/index.ts';
+import {
+  moderate,
+  type ModerationCategory,
+  type ModerationClassifier,
+  type ModerationPolicy,
+  type ModerationVerdict,
+} from '../_shared/moderation.ts';
+import { insertTurnMessage, type MessageRow } from './persistence.ts';
+
+const CATEGORY_DESCRIPTIONS: Record<ModerationCategory, string> = {
+  harassment: 'insults, threats or demeaning language',
+  self_harm: 'references to self-harm',
+  sexual: 'sexual content',
+  pii: 'personal data such as email addresses, phone numbers or account numbers',
+};
+
+const USER_NOTICE =
+  "This message wasn't sent to your practice partner because it falls outside what this app can support. Please rephrase it to continue the conversation.";
+
+const SELF_HARM_NOTICE =
+  "It sounds like you may be going through something difficult. This practice session can't help with that, but you don't have to face it alone: please reach out to someone you trust or a local crisis line. You can return to the conversation whenever you're ready.";
+
+const REPLY_NOTICE =
+  "Your practice partner's reply was withheld because it didn't meet our content guidelines. Please continue the conversation and they will respond again.";
+
+/** Rows that took no part in the conversation and must stay out of the persona's history. */
+export function isModerationBlocked(message: { metadata: Record<string, unknown> | null }): boolean {
+  const verdict = message.metadata?.moderation as ModerationVerdict | undefined;
+  return verdict?.action === 'block' || Boolean(message.metadata?.moderation_notice);
+}
+
+/** Steer for a user message the policy lets through but asks the persona to handle carefully. */
+export function moderationInstructions(verdict: ModerationVerdict | null): string {
+  if (verdict?.action !== 'soften') return '';
+
+  const issues = verdict.categories.map((category) => CATEGORY_DESCRIPTIONS[category]).join('; ');
+  return `
+
+The user's latest message contained ${issues}. Stay calm and in character, do not repeat or escalate it, and keep the conversation on track.`;
+}
+
+/**
+ * Stores a turn whose user message the policy blocks: the message itself with its verdict,
+ * and a notice in place of the persona's reply. No model is called.
+ */
+export async function storeBlockedTurn(
+  supabase: SupabaseClient,
+  sessionId: string,
+  turnId: string,
+  content: string,
+  verdict: ModerationVerdict
+): Promise<{ user_message: MessageRow; assistant_messages: MessageRow[] }> {
+  const { message: userRow } = await insertTurnMessage(supabase, {
+    session_id: sessionId,
+    turn_id: turnId,
+    role: 'user',
+    content,
+    metadata: { moderation: verdict },
+  });
+  const { message: noticeRow } = await insertTurnMessage(supabase, {
+    session_id: sessionId,
+    turn_id: turnId,
+    role: 'assistant',
+    content: verdict.categories.includes('self_harm') ? SELF_HARM_NOTICE : USER_NOTICE,
+    metadata: { moderation_notice: 'user' },
+  });
+
+  return { user_message: userRow, assistant_messages: [noticeRow] };
+}
+
+/** How the persona's reply is screened before the client sees it; see `TurnHooks` in stream.ts. */
+export interface ReplyScreening {
+  screen?: (replySoFar: string) => Promise<boolean>;
+  holdReplies: boolean;
+}
+
+/**
+ * A classifier cheap enough to run per sentence checks the reply as it streams, so text the
+ * policy would soften or block is never sent; any other classifier needs the whole reply, so
+ * replies are held until `reviewReply` has run. Without a classifier replies stream unchecked.
+ */
+export function replyScreening(classifier: ModerationClassifier | null, policy: ModerationPolicy): ReplyScreening {
+  if (!classifier) return { holdReplies: false };
+  if (!classifier.incremental) return { holdReplies: true };
+
+  return {
+    screen: async (replySoFar) => {
+      const verdict = await moderate(classifier, policy, 'assistant', replySoFar);
+      return verdict.action === 'allow' || verdict.action === 'flag';
+    },
+    holdReplies: false,
+  };
+}
+
+export interface ReviewedReply {
+  content: string;
+  verdict: ModerationVerdict;
+  softened: boolean;
+  /** The reply was replaced by a notice. */
+  withheld: boolean;
+  /** The rewrite call made to soften the reply, for usage accounting. */
+  rewrite?: { completion: LLMCompletion; latency_ms: number };
+}
+
+/**
+ * Screens the persona's finished reply. A `soften` verdict asks the model to rewrite it once;
+ * a `block` verdict, or a rewrite that still fails the policy, replaces it with a notice.
+ */
+export async function reviewReply(
+  classifier: ModerationClassifier,
+  policy: ModerationPolicy,
+  provider: LLMProvider,
+  content: string
+): Promise<ReviewedReply> {
+  const verdict = await moderate(classifier, policy, 'assistant', content);
+  if (verdict.action === 'allow' || verdict.action === 'flag') {
+    return { content, verdict, softened: false, withheld: false };
+  }
+  if (verdict.action === 'block') {
+    return { content: REPLY_NOTICE, verdict, softened: false, withheld: true };
+  }
+
+  const issues = verdict.categories.map((category) => CATEGORY_DESCRIPTIONS[category]).join('; ');
+  const startedAt = Date.now();
+  const completion = await provider.complete({
+    messages: [
+      {
+        role: 'system',
+        content: `Rewrite the following line from a roleplay character so that it contains no ${issues}. Keep the same character, intent, tone of voice and length. Reply with the rewritten line only.`,
+      },
+      { role: 'user', content },
+    ],
+  });
+  const rewrite = { completion, latency_ms: Date.now() - startedAt };
+
+  const recheck = await moderate(classifier, policy, 'assistant', completion.content);
+  if (recheck.action === 'allow' || recheck.action === 'flag') {
+    return { content: completion.content.trim(), verdict, softened: true, withheld: false, rewrite };
+  }
+
+  return { content: REPLY_NOTICE, verdict, softened: false, withheld: true, rewrite };
+}
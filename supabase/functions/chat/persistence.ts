@@ -0,0 +1,72 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2.57.4';
+
+export interface MessageRow {
+  id: number;
+  session_id: string;
+  turn_id: string | null;
+  role: 'user' | 'assistant';
+  /** The scenario persona that wrote an assistant message, in multi-persona scenarios. */
+  persona: string | null;
+  content: string;
+  metadata: Record<string, unknown>;
+  created_at: string;
+}
+
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * A turn's rows as currently stored: the user message, if any, and the replies in speaking order.
+ * Multi-persona scenarios store one reply per persona that spoke.
+ */
+export async function findTurn(
+  supabase: SupabaseClient,
+  sessionId: string,
+  turnId: string
+): Promise<{ user?: MessageRow; assistants: MessageRow[] }> {
+  const { data, error } = await supabase
+    .from('message')
+    .select('*')
+    .eq('session_id', sessionId)
+    .eq('turn_id', turnId)
+    .order('id');
+
+  if (error) throw error;
+
+  const rows = (data ?? []) as MessageRow[];
+  return {
+    user: rows.find((row) => row.role === 'user'),
+    assistants: rows.filter((row) => row.role === 'assistant'),
+  };
+}
+
+/**
+ * Inserts one row of a turn. The unique index on `(session_id, turn_id, role, persona)` makes
+ * this idempotent: if a concurrent request already stored the row, that row is returned instead.
+ */
+export async function insertTurnMessage(
+  supabase: SupabaseClient,
+  row: Pick<MessageRow, 'session_id' | 'turn_id' | 'role' | 'content' | 'metadata'> & { persona?: string | null }
+): Promise<{ message: MessageRow; created: boolean }> {
+  const { data, error } = await supabase
+    .from('message')
+    .insert(row)
+    .select()
+    .single();
+
+  if (!error) return { message: data as MessageRow, created: true };
+  if (error.code !== UNIQUE_VIOLATION) throw error;
+
+  const existing = await findTurn(supabase, row.session_id, row.turn_id!);
+  const message =
+    row.role === 'user' ? existing.user : existing.assistants.find((reply) => reply.persona === (row.persona ?? null));
+  if (!message) throw error;
+
+  return { message, created: false };
+}
+
+export async function deleteMessage(supabase: SupabaseClient, id: number): Promise<void> {
+  const { error } = await supabase.from('message').delete().eq('id', id);
+  if (error) {
+    console.error('Failed to roll back message:', error);
+  }
+}
@@ -0,0 +1,59 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { getEmbedder } from '../_shared/llm/index.ts';
+
+export interface ScenarioDocChunk {
+  id: number;
+  content: string;
+  similarity: number;
+}
+
+const DEFAULT_TOP_K = 3;
+const DEFAULT_MIN_SIMILARITY = 0.3;
+
+/**
+ * Finds the `scenario_doc` chunks closest to `query` for one scenario via the
+ * `match_scenario_docs` RPC. Retrieval is best-effort: any failure, including a missing
+ * embedding provider, yields no context rather than failing the turn. Scenarios without embedded
+ * docs never reach the embedder; docs are embedded when they're written or by the packs
+ * function's `embed` backfill, never during a turn.
+ */
+export async function retrieveScenarioContext(
+  supabase: SupabaseClient,
+  scenarioId: string,
+  query: string
+): Promise<ScenarioDocChunk[]> {
+  if (!query.trim()) return [];
+
+  try {
+    const { count, error: countError } = await supabase
+      .from('scenario_doc')
+      .select('id', { count: 'exact', head: true })
+      .eq('scenario_id', scenarioId)
+      .not('embedding', 'is', null);
+    if (countError) throw countError;
+    if (!count) return [];
+
+    const queryEmbedding = await getEmbedder().embed(query);
+    const { data, error } = await supabase.rpc('match_scenario_docs', {
+      query_embedding: queryEmbedding,
+      target_scenario_id: scenarioId,
+      match_count: Number(Deno.env.get('RAG_TOP_K') ?? DEFAULT_TOP_K),
+      min_similarity: Number(Deno.env.get('RAG_MIN_SIMILARITY') ?? DEFAULT_MIN_SIMILARITY),
+    });
+
+    if (error) throw error;
+    return (data ?? []) as ScenarioDocChunk[];
+  } catch (error) {
+    console.error('Scenario context retrieval failed:', error);
+    return [];
+  }
+}
+
+export function formatContextForPrompt(chunks: ScenarioDocChunk[]): string {
+  if (chunks.length === 0) return '';
+
+  return `
+
+Reference material for your character (use it when relevant, stay in character, never mention that you were given documents):
+${chunks.map((chunk, index) => `[${index + 1}] ${chunk.content}`).join('\n\n')}`;
+}
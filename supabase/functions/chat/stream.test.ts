@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import { MockProvider } from '../_shared/llm/mock.ts';
+import { getModerationClassifier, getModerationPolicy } from '../_shared/moderation.ts';
+import { replyScreening } from './moderation.ts';
+import { streamTurn, type ChatStreamEvent, type PreviewResult, type TurnHooks } from './stream.ts';
+
+const config = { provider: 'mock' as const, model: 'mock', temperature: 0.7, max_tokens: 500 };
+
+async function readEvents(stream: ReadableStream<Uint8Array>): Promise<ChatStreamEvent[]> {
+  const text = await new Response(stream).text();
+  return text
+    .split('\n\n')
+    .filter((raw) => raw.startsWith('data:'))
+    .map((raw) => JSON.parse(raw.slice(5).trim()));
+}
+
+function previewHooks(onReply: (content: string) => string, screening: Partial<TurnHooks<PreviewResult>>): TurnHooks<PreviewResult> {
+  let reply = '';
+  return {
+    messagesFor: () => [{ role: 'user', content: 'Hello' }],
+    onReply: (_index, completion) => Promise.resolve((reply = onReply(completion.content))),
+    onComplete: () => Promise.resolve({ assistant_message: { role: 'assistant', content: reply } }),
+    onAbandon: () => Promise.resolve(),
+    ...screening,
+  };
+}
+
+const deltas = (events: ChatStreamEvent[]) =>
+  events.flatMap((event) => (event.type === 'delta' ? [event.content] : []));
+
+Deno.test('streamTurn still streams replies chunk by chunk with the default moderation config', async () => {
+  const content = 'Thanks for coming in. I know the deadline slipped again. What happened on your side?';
+  const provider = new MockProvider(config, [{ response: content }]);
+  const screening = replyScreening(getModerationClassifier(), getModerationPolicy());
+
+  const events = await readEvents(
+    streamTurn(provider, [null], new AbortController().signal, previewHooks((reply) => reply, screening))
+  );
+
+  assert.ok(deltas(events).length > 1, `expected several deltas, got ${deltas(events).length}`);
+  assert.equal(deltas(events).join(''), content);
+  assert.equal(events.at(-1)?.type, 'done');
+});
+
+Deno.test('streamTurn stops streaming a reply once screening fails', async () => {
+  const content = 'Fine, let us talk. You are an idiot for missing it. Anyway, what now?';
+  const provider = new MockProvider(config, [{ response: content }]);
+  const screening = replyScreening(getModerationClassifier(), getModerationPolicy());
+
+  const events = await readEvents(
+    streamTurn(provider, [null], new AbortController().signal, previewHooks(() => 'Reply withheld.', screening))
+  );
+
+  assert.equal(deltas(events).join(''), 'Fine, let us talk. ');
+  const done = events.at(-1);
+  assert.ok(done?.type === 'done' && 'assistant_message' in done);
+  assert.equal(done.assistant_message.content, 'Reply withheld.');
+});
+
+Deno.test('streamTurn sends a held reply as one delta once it is reviewed', async () => {
+  const provider = new MockProvider(config, [{ response: 'One. Two. Three.' }]);
+
+  const events = await readEvents(
+    streamTurn(provider, [null], new AbortController().signal, previewHooks((reply) => reply.toUpperCase(), { holdReplies: true }))
+  );
+
+  assert.deepEqual(deltas(events), ['ONE. TWO. THREE.']);
+});
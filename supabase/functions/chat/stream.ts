@@ -0,0 +1,155 @@
+import { corsHeaders } from '../_shared/http.ts';
+import type { LLMCompletion, LLMMessage, LLMProvider } from '../_shared/llm/index.ts';
+import type { MessageRow } from './persistence.ts';
+
+/**
+ * The stored rows of a finished turn: the user message (the opening turn has none) and one reply
+ * per persona that spoke, in order. Single-persona scenarios always have one reply.
+ */
+export interface TurnResult {
+  user_message: MessageRow | null;
+  assistant_messages: MessageRow[];
+}
+
+/** A preview reply; nothing is stored, so it has no id. */
+export interface PreviewResult {
+  assistant_message: { role: 'assistant'; content: string };
+}
+
+export type ChatStreamEvent =
+  | { type: 'speaker'; persona: string }
+  | { type: 'delta'; content: string }
+  | ({ type: 'done' } & (TurnResult | PreviewResult))
+  | { type: 'error'; error: string };
+
+export interface TurnHooks<T extends TurnResult | PreviewResult> {
+  /** The prompt for the speaker at `index`; `earlier` holds what the speakers before them said this turn. */
+  messagesFor: (index: number, earlier: string[]) => LLMMessage[];
+  /** Persists one finished reply and returns the text later speakers see. */
+  onReply: (index: number, completion: LLMCompletion, latencyMs: number) => Promise<string>;
+  /** Finishes the turn once everyone has spoken; what it returns is sent in the `done` event. */
+  onComplete: () => Promise<T>;
+  /** Undoes partial writes when the reply fails or the client cancels it. */
+  onAbandon: () => Promise<void>;
+  /**
+   * Checks the reply so far before each sentence of it is sent. Once a check fails nothing more
+   * of the reply is streamed; the client gets the reviewed reply from the `done` event instead.
+   */
+  screen?: (replySoFar: string) => Promise<boolean>;
+  /** Holds each reply back until `onReply` has reviewed it, then sends what it returned as one `delta`. */
+  holdReplies?: boolean;
+}
+
+const encoder = new TextEncoder();
+
+const encodeEvent = (event: ChatStreamEvent) => encoder.encode(`data: ${JSON.stringify(event)}\n\n`);
+
+export const eventStreamHeaders = {
+  ...corsHeaders,
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  'Connection': 'keep-alive',
+};
+
+// Screened replies are released a sentence at a time, or in windows this long when a sentence runs on
+const SCREEN_WINDOW = 200;
+
+/**
+ * Streams one provider completion per speaker to the client as server-sent events: a `speaker`
+ * event naming each persona before its reply (multi-persona scenarios only), one `delta` event
+ * per text chunk (per screened sentence with `screen`, or a single one with the reviewed reply
+ * when replies are held), then a single `done` event carrying the stored turn, whose rows the
+ * client swaps in for the streamed text.
+ */
+export function streamTurn<T extends TurnResult | PreviewResult>(
+  provider: LLMProvider,
+  /** Persona keys in speaking order; a single null for one-character scenarios and previews. */
+  speakers: (string | null)[],
+  clientSignal: AbortSignal,
+  hooks: TurnHooks<T>
+): ReadableStream<Uint8Array> {
+  const abortController = new AbortController();
+  // Aborting the client request (e.g. the user cancels a reply) also cancels the upstream completion.
+  clientSignal.addEventListener('abort', () => abortController.abort());
+
+  return new ReadableStream({
+    async start(controller) {
+      const send = (content: string) => {
+        if (content) controller.enqueue(encodeEvent({ type: 'delta', content }));
+      };
+
+      try {
+        const earlier: string[] = [];
+        for (const [index, persona] of speakers.entries()) {
+          if (persona) controller.enqueue(encodeEvent({ type: 'speaker', persona }));
+
+          let sent = '';
+          let pending = '';
+          let stopped = Boolean(hooks.holdReplies);
+          let screening = Promise.resolve();
+          // Checks run one after another on the whole reply so far, so words split across chunks are still caught
+          const release = async (text: string) => {
+            if (stopped) return;
+            if (!(await hooks.screen!(sent + text))) {
+              stopped = true;
+              return;
+            }
+            send(text);
+            sent += text;
+          };
+
+          const startedAt = Date.now();
+          const completion = await provider.stream(
+            { messages: hooks.messagesFor(index, earlier), signal: abortController.signal },
+            (delta) => {
+              if (stopped) return;
+              if (!hooks.screen) {
+                send(delta);
+                sent += delta;
+                return;
+              }
+
+              pending += delta;
+              if (/[.!?\n]\s*$/.test(pending) || pending.length >= SCREEN_WINDOW) {
+                const text = pending;
+                pending = '';
+                screening = screening.then(() => release(text));
+              }
+            }
+          );
+          await screening;
+
+          const reply = await hooks.onReply(index, completion, Date.now() - startedAt);
+          // Send whatever is left of the reviewed reply; a reply changed by review arrives with `done`
+          if (reply.startsWith(sent)) send(reply.slice(sent.length));
+          earlier.push(reply);
+        }
+        const turn = await hooks.onComplete();
+        controller.enqueue(encodeEvent({ type: 'done', ...turn }));
+        controller.close();
+      } catch (error) {
+        await hooks.onAbandon();
+        if (abortController.signal.aborted) return;
+        console.error('Chat stream error:', error);
+        controller.enqueue(encodeEvent({ type: 'error', error: (error as Error).message || 'Stream interrupted' }));
+        controller.close();
+      }
+    },
+    cancel() {
+      abortController.abort();
+    },
+  });
+}
+
+/**
+ * Answers with rows that are already stored, without calling the model: a retried turn that
+ * already finished, or a turn whose user message moderation blocked.
+ */
+export function storedTurn(turn: TurnResult): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      controller.enqueue(encodeEvent({ type: 'done', ...turn }));
+      controller.close();
+    },
+  });
+}
@@ -0,0 +1,129 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { authenticate, loadOwnedSession } from '../_shared/auth.ts';
+import { goalsMetSoFar, parseGoals } from '../_shared/goals.ts';
+import { corsHeaders, errorResponse, HttpError, jsonResponse } from '../_shared/http.ts';
+import { getProvider } from '../_shared/llm/index.ts';
+import { parsePersonas } from '../_shared/personas.ts';
+import { enforceUsageLimits, recordUsage } from '../_shared/usage.ts';
+import { buildHintMessages, type CoachedScenario, type HintTrigger } from './prompt.ts';
+
+interface CoachRequest {
+  session_id: string;
+  trigger?: HintTrigger;
+}
+
+interface CoachSession {
+  scenario: CoachedScenario & {
+    goals: unknown;
+    personas: unknown;
+    llm_config: unknown;
+  };
+}
+
+interface SessionMessage {
+  id: number;
+  role: string;
+  persona: string | null;
+  content: string;
+  metadata: Record<string, unknown> | null;
+}
+
+const TRIGGERS: HintTrigger[] = ['request', 'stall', 'weak_turn'];
+
+/**
+ * Writes a short private hint about the user's next move and stores it as a `coach` message.
+ * Automatic triggers reuse a hint the user hasn't acted on yet instead of piling up new ones.
+ */
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+    const user = await authenticate(req, supabase);
+    const requestId = crypto.randomUUID();
+    const { session_id, trigger = 'request' }: CoachRequest = await req.json();
+
+    if (!session_id || !TRIGGERS.includes(trigger)) {
+      throw new HttpError(400, 'invalid_request', `session_id is required and trigger must be one of: ${TRIGGERS.join(', ')}`);
+    }
+
+    const session = await loadOwnedSession<CoachSession>(
+      supabase,
+      session_id,
+      user.id,
+      'scenario(title, objective, ai_persona, goals, personas, llm_config)'
+    );
+    const scenario = session.scenario;
+
+    const { data: storedMessages, error: messagesError } = await supabase
+      .from('message')
+      .select('id, role, persona, content, metadata')
+      .eq('session_id', session_id)
+      .order('created_at');
+
+    if (messagesError) throw messagesError;
+
+    const history = (storedMessages || []) as SessionMessage[];
+    const latest = history[history.length - 1];
+    if (trigger !== 'request' && latest?.role === 'coach') {
+      return jsonResponse({ hint: latest });
+    }
+
+    // Blocked turns and earlier hints never reached the persona, so they aren't part of the conversation
+    const conversation = history.filter(
+      (m) =>
+        m.role !== 'coach' &&
+        !m.metadata?.moderation_notice &&
+        (m.metadata?.moderation as { action?: string } | undefined)?.action !== 'block'
+    );
+    if (!conversation.some((m) => m.role === 'assistant')) {
+      throw new HttpError(400, 'not_enough_conversation', 'Start the conversation before asking for a hint');
+    }
+
+    await enforceUsageLimits(supabase, user.id);
+
+    const metGoals = goalsMetSoFar(conversation);
+    const remainingGoals = parseGoals(scenario.goals).filter((goal) => !metGoals.has(goal.key));
+
+    const provider = getProvider('coach', scenario.llm_config);
+    const startedAt = Date.now();
+    const completion = await provider.complete({
+      messages: buildHintMessages(scenario, conversation, remainingGoals, trigger, parsePersonas(scenario.personas)),
+    });
+
+    await recordUsage(supabase, {
+      user_id: user.id,
+      request_id: requestId,
+      session_id,
+      purpose: 'coach',
+      config: provider.config,
+      completion,
+      latency_ms: Date.now() - startedAt,
+    });
+
+    const { data: hint, error: hintError } = await supabase
+      .from('message')
+      .insert({
+        session_id,
+        role: 'coach',
+        content: completion.content.trim(),
+        metadata: { trigger, model: completion.model, usage: completion.usage },
+      })
+      .select()
+      .single();
+
+    if (hintError) throw hintError;
+
+    return jsonResponse({ hint });
+  } catch (error) {
+    console.error('Coach error:', error);
+    return errorResponse(error);
+  }
+});
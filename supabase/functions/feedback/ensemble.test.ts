@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import { combineScores, judgeFeedback, resolveJudges } from './ensemble.ts';
+import { buildFeedbackMessages } from './prompt.ts';
+import type { RubricDimension } from './rubric.ts';
+
+const CLARITY: RubricDimension = { key: 'clarity', label: 'Clarity', description: '', weight: 1, scale: { min: 0, max: 5 } };
+
+Deno.test('combineScores trims a judge far from the median once there are three judgements', () => {
+  const { clarity } = combineScores([CLARITY], [{ clarity: 4 }, { clarity: 4.5 }, { clarity: 1 }]);
+
+  assert.deepEqual(clarity.judgements, [4, 4.5, 1]);
+  assert.deepEqual(clarity.rejected, [1]);
+  assert.equal(clarity.mean, 4.3);
+  assert.equal(clarity.low, 4);
+  assert.equal(clarity.high, 4.5);
+  assert.equal(clarity.uncertain, false);
+});
+
+Deno.test('combineScores keeps both judgements when there are only two, and flags a wide spread', () => {
+  const { clarity } = combineScores([CLARITY], [{ clarity: 4 }, { clarity: 1 }]);
+
+  assert.deepEqual(clarity.rejected, []);
+  assert.equal(clarity.mean, 2.5);
+  assert.equal(clarity.spread, 1.5);
+  assert.equal(clarity.uncertain, true);
+});
+
+Deno.test('combineScores skips dimensions no judge scored', () => {
+  assert.deepEqual(combineScores([CLARITY], [{ empathy: 3 }]), {});
+});
+
+Deno.test('resolveJudges reads a judge count or a list of specs from the scenario', () => {
+  assert.equal(resolveJudges({ feedback_judges: 3 }).length, 3);
+  assert.deepEqual(resolveJudges({ feedback_judges: [{ variant: 'strict' }, { model: 'other-model' }] }), [
+    { variant: 'strict' },
+    { model: 'other-model' },
+  ]);
+  assert.deepEqual(resolveJudges(null), [{}]);
+});
+
+Deno.test('judgeFeedback reports no confidence range when only one of several judges succeeds', async () => {
+  const messages = buildFeedbackMessages(
+    { title: 'Feedback', objective: 'Give a colleague feedback', difficulty_level: 'beginner' },
+    [CLARITY],
+    [{ id: 1, role: 'user', content: 'Can we talk about the report?', metadata: null }]
+  );
+  // The second judge's budget is too small for any valid reply, so it always fails validation
+  const judges = [{ provider: 'mock' as const }, { provider: 'mock' as const, max_tokens: 10 }];
+
+  const ensemble = await judgeFeedback(judges, null, messages, [CLARITY], [1], [], [], () => Promise.resolve());
+
+  assert.equal(ensemble.judges.length, 1);
+  assert.equal(ensemble.failed, 1);
+  assert.equal(ensemble.confidence, null);
+});
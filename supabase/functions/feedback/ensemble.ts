@@ -0,0 +1,205 @@
+import type { ScenarioGoal } from '../_shared/goals.ts';
+import { createProvider, resolveLLMConfig, type LLMCompletion, type LLMConfig, type LLMMessage, type LLMProvider } from '../_shared/llm/index.ts';
+import type { ScenarioStage } from '../_shared/stages.ts';
+import { fitReplyBudget } from './prompt.ts';
+import type { RubricDimension } from './rubric.ts';
+import { completeValidatedFeedback, type StageScores, type ValidatedFeedback } from './schema.ts';
+
+/** Prompt variants judges can grade under, so an ensemble isn't just one prompt sampled repeatedly. */
+export type JudgeVariant = 'standard' | 'strict' | 'evidence_first';
+
+/** One judge: feedback LLM overrides plus the prompt variant it grades under. */
+export interface JudgeSpec extends Partial<LLMConfig> {
+  variant?: JudgeVariant;
+}
+
+const VARIANTS: Record<JudgeVariant, string> = {
+  standard: '',
+  strict:
+    '\n\nGrade conservatively: reserve the top of each scale for performance with no meaningful weaknesses, and let every clear mistake cost points.',
+  evidence_first:
+    "\n\nBase every score only on evidence you can point to in the user's messages; when a dimension barely came up, score it near the middle of its scale.",
+};
+
+/** Values further than this share of a dimension's scale from the median are discarded as outliers. */
+const OUTLIER_RANGE = 0.25;
+
+/** A spread above this share of the scale means the judges disagreed too much to trust the mean. */
+const UNCERTAIN_SPREAD = 0.1;
+
+function parseJudges(raw: unknown): JudgeSpec[] | null {
+  if (typeof raw === 'number' && raw >= 1) {
+    return Array.from({ length: Math.floor(raw) }, () => ({}));
+  }
+  if (Array.isArray(raw) && raw.length > 0) {
+    return raw.map((judge) => (judge && typeof judge === 'object' ? (judge as JudgeSpec) : {}));
+  }
+  return null;
+}
+
+/**
+ * The judges that grade a session. The scenario's `llm_config.feedback_judges` wins over the
+ * FEEDBACK_JUDGES env var; either is a judge count or an array of judge specs. Without either,
+ * a single judge grades on the standard prompt.
+ */
+export function resolveJudges(scenarioConfig: unknown): JudgeSpec[] {
+  const fromScenario = parseJudges((scenarioConfig as { feedback_judges?: unknown } | null)?.feedback_judges);
+  if (fromScenario) return fromScenario;
+
+  const env = Deno.env.get('FEEDBACK_JUDGES');
+  if (env) {
+    try {
+      const fromEnv = parseJudges(JSON.parse(env));
+      if (fromEnv) return fromEnv;
+    } catch (error) {
+      console.error('Invalid FEEDBACK_JUDGES, using a single judge:', error);
+    }
+  }
+
+  return [{}];
+}
+
+/**
+ * A judge's overrides layered onto the scenario's feedback config, so the mock provider still wins
+ * offline. Unless the judge sets its own budget, it gets room for every user message's rewrite.
+ */
+function judgeProvider(overrides: Partial<LLMConfig>, scenarioConfig: unknown, userMessageCount: number): LLMProvider {
+  const config = (scenarioConfig ?? {}) as Record<string, Record<string, unknown> | undefined>;
+  const resolved = resolveLLMConfig('feedback', { ...config, feedback: { ...config.feedback, ...overrides } });
+  return createProvider(overrides.max_tokens === undefined ? fitReplyBudget(resolved, userMessageCount) : resolved);
+}
+
+export interface ConfidenceRange {
+  mean: number;
+  /** Standard deviation of the judgements that were kept. */
+  spread: number;
+  low: number;
+  high: number;
+  judgements: number[];
+  /** Judgements discarded as outliers. */
+  rejected: number[];
+  uncertain: boolean;
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Combines per-judge scores into a mean and spread for each dimension. With three or more
+ * judgements, values far from the median are rejected first so one stray judge can't drag
+ * the mean.
+ */
+export function combineScores(
+  dimensions: RubricDimension[],
+  judgements: Record<string, number>[]
+): Record<string, ConfidenceRange> {
+  const combined: Record<string, ConfidenceRange> = {};
+
+  for (const dimension of dimensions) {
+    const values = judgements.map((scores) => scores[dimension.key]).filter((value) => typeof value === 'number');
+    if (values.length === 0) continue;
+
+    const range = dimension.scale.max - dimension.scale.min;
+    const center = median(values);
+    const isOutlier = (value: number) => values.length >= 3 && Math.abs(value - center) > OUTLIER_RANGE * range;
+    const kept = values.filter((value) => !isOutlier(value));
+
+    const mean = kept.reduce((sum, value) => sum + value, 0) / kept.length;
+    const spread = Math.sqrt(kept.reduce((sum, value) => sum + (value - mean) ** 2, 0) / kept.length);
+
+    combined[dimension.key] = {
+      mean: round(mean),
+      spread: round(spread),
+      low: Math.min(...kept),
+      high: Math.max(...kept),
+      judgements: values,
+      rejected: values.filter(isOutlier),
+      uncertain: spread > UNCERTAIN_SPREAD * range,
+    };
+  }
+
+  return combined;
+}
+
+export interface JudgeResult {
+  provider: string;
+  model: string;
+  variant: JudgeVariant;
+  scores: Record<string, number>;
+}
+
+export interface EnsembleFeedback {
+  /** The first judge that produced valid feedback; its summary, recommendations and annotations are kept. */
+  primary: ValidatedFeedback;
+  judges: JudgeResult[];
+  /** Judges whose replies never validated. */
+  failed: number;
+  /** Null unless at least two judges produced valid feedback: a lone judge has nothing to agree with. */
+  confidence: Record<string, ConfidenceRange> | null;
+  /** Per-stage scores: the judges' outlier-trimmed means, or the single judge's own. */
+  stages: StageScores[];
+}
+
+/**
+ * Has every judge grade the session independently and in parallel. Judges whose replies never
+ * validate are dropped; the request only fails when none of them succeed.
+ */
+export async function judgeFeedback(
+  judges: JudgeSpec[],
+  scenarioConfig: unknown,
+  messages: LLMMessage[],
+  dimensions: RubricDimension[],
+  userMessageIds: number[],
+  goals: ScenarioGoal[],
+  stages: ScenarioStage[],
+  onCompletion: (provider: LLMProvider, completion: LLMCompletion, latencyMs: number) => Promise<void>
+): Promise<EnsembleFeedback> {
+  const results = await Promise.allSettled(
+    judges.map(async ({ variant: requestedVariant, ...overrides }) => {
+      const provider = judgeProvider(overrides, scenarioConfig, userMessageIds.length);
+      const variant = requestedVariant && requestedVariant in VARIANTS ? requestedVariant : 'standard';
+      const judgeMessages = messages.map((message) =>
+        message.role === 'system' ? { ...message, content: message.content + VARIANTS[variant] } : message
+      );
+
+      const feedback = await completeValidatedFeedback(provider, judgeMessages, dimensions, userMessageIds, goals, stages, (completion, latencyMs) =>
+        onCompletion(provider, completion, latencyMs)
+      );
+      return { feedback, provider: provider.config.provider, variant };
+    })
+  );
+
+  const succeeded = results.flatMap((result) => (result.status === 'fulfilled' ? [result.value] : []));
+  if (succeeded.length === 0) {
+    throw (results[0] as PromiseRejectedResult).reason;
+  }
+
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') console.warn(`Feedback judge ${index + 1} failed:`, result.reason);
+  });
+
+  const stageScores = succeeded[0].feedback.value.stages.map(({ key, scores }) => {
+    if (succeeded.length === 1) return { key, scores };
+    const judgements = succeeded.flatMap(({ feedback }) => feedback.value.stages.filter((stage) => stage.key === key).map((stage) => stage.scores));
+    const combined = combineScores(dimensions, judgements);
+    return { key, scores: Object.fromEntries(Object.entries(combined).map(([dimension, range]) => [dimension, range.mean])) };
+  });
+
+  return {
+    primary: succeeded[0].feedback,
+    judges: succeeded.map(({ feedback, provider, variant }) => ({
+      provider,
+      model: feedback.model,
+      variant,
+      scores: feedback.value.scores,
+    })),
+    failed: results.length - succeeded.length,
+    confidence: succeeded.length >= 2 ? combineScores(dimensions, succeeded.map(({ feedback }) => feedback.value.scores)) : null,
+    stages: stageScores,
+  };
+}
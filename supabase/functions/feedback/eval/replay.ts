@@ -0,0 +1,67 @@
+import type { LLMCompletion, LLMConfig, LLMProvider, LLMRequest } from '../../_shared/llm/index.ts';
+
+/** Completions captured from a live run of one golden transcript, in the order they were requested. */
+export interface Recording {
+  prompt_version: string;
+  /** Hash of the prompt with the random transcript fence normalised, to spot recordings of an older prompt. */
+  prompt_hash: string;
+  completions: LLMCompletion[];
+}
+
+export async function hashRequest(request: LLMRequest): Promise<string> {
+  const normalized = JSON.stringify(request.messages).replace(/transcript-[0-9a-f]{8}/g, 'transcript');
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalized));
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/** Passes calls through to a real provider and keeps every completion for writing to a recording. */
+export class RecordingProvider implements LLMProvider {
+  readonly completions: LLMCompletion[] = [];
+  promptHash = '';
+
+  constructor(private readonly inner: LLMProvider) {}
+
+  get config(): LLMConfig {
+    return this.inner.config;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    if (this.completions.length === 0) this.promptHash = await hashRequest(request);
+    const completion = await this.inner.complete(request);
+    this.completions.push(completion);
+    return completion;
+  }
+
+  stream(): Promise<LLMCompletion> {
+    return Promise.reject(new Error('The feedback grader does not stream'));
+  }
+}
+
+/**
+ * Answers calls from a recording in order. `stale` is set when the first prompt no longer
+ * matches the recorded one: replies to an older prompt still exercise validation and scoring,
+ * but say nothing about how the current prompt grades.
+ */
+export class ReplayProvider implements LLMProvider {
+  readonly config: LLMConfig;
+  stale = false;
+  private next = 0;
+
+  constructor(private readonly recording: Recording) {
+    this.config = { provider: 'mock', model: recording.completions[0]?.model ?? 'recorded', temperature: 0, max_tokens: 0 };
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    if (this.next === 0) this.stale = (await hashRequest(request)) !== this.recording.prompt_hash;
+
+    const completion = this.recording.completions[this.next++];
+    if (!completion) {
+      throw new Error(`Recording has only ${this.recording.completions.length} completions; re-record it with --provider live --record`);
+    }
+    return completion;
+  }
+
+  stream(): Promise<LLMCompletion> {
+    return Promise.reject(new Error('The feedback grader does not stream'));
+  }
+}
@@ -0,0 +1,360 @@
+/**
+ * Offline regression harness for the feedback grader.
+ *
+ * Runs every golden transcript in goldens/<set>/ through the same prompt, validation and
+ * scoring as the feedback Edge Function, then reports schema failures, scores outside each
+ * golden's expected range, drift from the accepted baseline and rank-order agreement with the
+ * expected ordering. Every provider also checks the integrity screen flags exactly the user turns
+ * each golden expects, so benign phrasing isn't treated as manipulation. Exits non-zero when a
+ * gate fails, so it can guard prompt changes.
+ *
+ *   npm run eval:feedback -- [options]
+ *
+ *   --provider mock|replay|live  mock (default) checks the pipeline and schema only; replay answers
+ *                                from recordings/<set>/; live uses the FEEDBACK_LLM_* / LLM_* settings
+ *   --record                     with live, save the replies as the recordings replay uses
+ *   --set v1                     golden set to run
+ *   --update-baseline            accept this run's scores as the baseline that drift is measured from
+ *   --report <file>              also write the full report as JSON
+ */
+import { parseGoals } from '../../_shared/goals.ts';
+import { checkIntegrity } from '../../_shared/integrity.ts';
+import { createProvider, resolveLLMConfig, type LLMProvider } from '../../_shared/llm/index.ts';
+import { buildFeedbackMessages, fitReplyBudget, PROMPT_VERSION, type GradedScenario } from '../prompt.ts';
+import { parseRubric, type RubricDimension } from '../rubric.ts';
+import { completeValidatedFeedback, validateFeedback } from '../schema.ts';
+import { RecordingProvider, ReplayProvider, type Recording } from './replay.ts';
+
+type ProviderMode = 'mock' | 'replay' | 'live';
+
+interface Golden {
+  id: string;
+  description: string;
+  scenario: GradedScenario & { rubric: unknown; goals?: unknown };
+  messages: { role: 'user' | 'assistant'; content: string }[];
+  /** User turns the integrity screen should flag; none when omitted. */
+  flagged_turns?: number;
+  /** Acceptable [min, max] score for each rubric dimension. */
+  expected: Record<string, [number, number]>;
+}
+
+interface Baseline {
+  prompt_version: string;
+  model: string;
+  scores: Record<string, Record<string, number>>;
+}
+
+interface GoldenResult {
+  id: string;
+  scores: Record<string, number> | null;
+  /** Validation errors of each rejected reply, in order. */
+  schema_errors: string[][];
+  error?: string;
+  out_of_range: string[];
+  drift: Record<string, number>;
+  /** Set when the integrity screen flagged a different number of user turns than expected. */
+  integrity?: string;
+  /** Replayed from a recording of an older prompt. */
+  stale?: boolean;
+}
+
+/** Largest score change from the baseline tolerated on any dimension. */
+const MAX_DRIFT = 0.75;
+
+/** Lowest Kendall tau accepted between expected and actual orderings. */
+const MIN_RANK_AGREEMENT = 0.5;
+
+const ROOT = new URL('./', import.meta.url);
+
+function parseArgs(args: string[]) {
+  const options = { provider: 'mock' as ProviderMode, record: false, set: 'v1', updateBaseline: false, report: '' };
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--provider':
+        options.provider = args[++i] as ProviderMode;
+        break;
+      case '--record':
+        options.record = true;
+        break;
+      case '--set':
+        options.set = args[++i];
+        break;
+      case '--update-baseline':
+        options.updateBaseline = true;
+        break;
+      case '--report':
+        options.report = args[++i];
+        break;
+      default:
+        throw new Error(`Unknown option: ${args[i]}`);
+    }
+  }
+  if (!['mock', 'replay', 'live'].includes(options.provider)) {
+    throw new Error(`--provider must be mock, replay or live, got ${options.provider}`);
+  }
+  if (options.record && options.provider !== 'live') {
+    throw new Error('--record only applies to --provider live');
+  }
+  return options;
+}
+
+async function readJson<T>(url: URL): Promise<T | null> {
+  try {
+    return JSON.parse(await Deno.readTextFile(url)) as T;
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return null;
+    throw error;
+  }
+}
+
+async function writeJson(url: URL, value: unknown): Promise<void> {
+  await Deno.mkdir(new URL('./', url), { recursive: true });
+  await Deno.writeTextFile(url, JSON.stringify(value, null, 2) + '\n');
+}
+
+async function loadGoldens(set: string): Promise<Golden[]> {
+  const dir = new URL(`goldens/${set}/`, ROOT);
+  const goldens: Golden[] = [];
+  for await (const entry of Deno.readDir(dir)) {
+    if (entry.isFile && entry.name.endsWith('.json')) {
+      goldens.push(JSON.parse(await Deno.readTextFile(new URL(entry.name, dir))) as Golden);
+    }
+  }
+  return goldens.sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/** Weighted overall score on a 0-5 scale, the same way the app summarises a session. */
+function overall(scores: Record<string, number>, dimensions: RubricDimension[]): number {
+  const scored = dimensions.filter((dimension) => typeof scores[dimension.key] === 'number');
+  const totalWeight = scored.reduce((sum, dimension) => sum + dimension.weight, 0);
+  if (totalWeight === 0) return 0;
+  const weighted = scored.reduce((sum, dimension) => {
+    const { min, max } = dimension.scale;
+    return sum + ((scores[dimension.key] - min) / (max - min)) * dimension.weight;
+  }, 0);
+  return (weighted / totalWeight) * 5;
+}
+
+/** Kendall's tau-b; null when either side has no ordering at all (e.g. the mock scores everything alike). */
+function kendallTau(expected: number[], actual: number[]): number | null {
+  let concordant = 0;
+  let discordant = 0;
+  let tiedExpected = 0;
+  let tiedActual = 0;
+
+  for (let i = 0; i < expected.length; i++) {
+    for (let j = i + 1; j < expected.length; j++) {
+      const a = Math.sign(expected[i] - expected[j]);
+      const b = Math.sign(actual[i] - actual[j]);
+      if (a === 0 && b === 0) continue;
+      if (a === 0) tiedExpected++;
+      else if (b === 0) tiedActual++;
+      else if (a === b) concordant++;
+      else discordant++;
+    }
+  }
+
+  const denominator = Math.sqrt((concordant + discordant + tiedExpected) * (concordant + discordant + tiedActual));
+  return denominator ? (concordant - discordant) / denominator : null;
+}
+
+async function providerFor(golden: Golden, mode: ProviderMode, set: string): Promise<LLMProvider> {
+  const userMessageCount = golden.messages.filter((message) => message.role === 'user').length;
+  const config = fitReplyBudget(resolveLLMConfig('feedback'), userMessageCount);
+
+  switch (mode) {
+    case 'mock':
+      // The feedback function's own token budget, so the mock truncates wherever a real reply would
+      return createProvider({ ...config, provider: 'mock', model: 'mock-1', temperature: 0 });
+    case 'live':
+      return new RecordingProvider(createProvider(config));
+    case 'replay': {
+      const recording = await readJson<Recording>(new URL(`recordings/${set}/${golden.id}.json`, ROOT));
+      if (!recording) throw new Error('No recording; create one with --provider live --record');
+      return new ReplayProvider(recording);
+    }
+  }
+}
+
+async function runGolden(
+  golden: Golden,
+  mode: ProviderMode,
+  set: string,
+  baseline: Baseline | null
+): Promise<{ result: GoldenResult; provider: LLMProvider | null }> {
+  const dimensions = parseRubric(golden.scenario.rubric);
+  const goals = parseGoals(golden.scenario.goals);
+  const messages = golden.messages.map((message, index) => ({ ...message, id: index + 1, metadata: null }));
+  const userMessageIds = messages.filter((message) => message.role === 'user').map((message) => message.id);
+  const result: GoldenResult = { id: golden.id, scores: null, schema_errors: [], out_of_range: [], drift: {} };
+
+  const flagged = messages.filter((message) => message.role === 'user' && checkIntegrity(message.content).flagged).length;
+  if (flagged !== (golden.flagged_turns ?? 0)) {
+    result.integrity = `integrity screen flagged ${flagged} user turn(s), expected ${golden.flagged_turns ?? 0}`;
+  }
+
+  let provider: LLMProvider | null = null;
+  try {
+    provider = await providerFor(golden, mode, set);
+    const feedback = await completeValidatedFeedback(
+      provider,
+      buildFeedbackMessages(golden.scenario, dimensions, messages, goals),
+      dimensions,
+      userMessageIds,
+      goals,
+      // Golden transcripts carry no chat metadata, so there are no stages to score
+      [],
+      (completion) => {
+        const check = validateFeedback(completion.content, dimensions, userMessageIds, goals);
+        if (!check.ok) result.schema_errors.push(check.errors);
+        return Promise.resolve();
+      }
+    );
+    result.scores = feedback.value.scores;
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error);
+  }
+
+  if (provider instanceof ReplayProvider) result.stale = provider.stale;
+  if (!result.scores) return { result, provider };
+
+  for (const [key, [min, max]] of Object.entries(golden.expected)) {
+    const score = result.scores[key];
+    if (typeof score !== 'number' || score < min || score > max) {
+      result.out_of_range.push(`${key}: ${score ?? 'missing'} not in ${min}-${max}`);
+    }
+  }
+
+  const previous = baseline?.scores[golden.id];
+  if (previous) {
+    for (const [key, score] of Object.entries(result.scores)) {
+      if (typeof previous[key] === 'number') result.drift[key] = Math.round((score - previous[key]) * 10) / 10;
+    }
+  }
+
+  return { result, provider };
+}
+
+/** Rank agreement per dimension shared by at least three goldens, plus the weighted overall score. */
+function rankAgreement(goldens: Golden[], results: GoldenResult[]): Record<string, number | null> {
+  const scored = goldens
+    .map((golden, index) => ({ golden, scores: results[index].scores, dimensions: parseRubric(golden.scenario.rubric) }))
+    .filter((entry): entry is { golden: Golden; scores: Record<string, number>; dimensions: RubricDimension[] } => entry.scores !== null);
+  const midpoint = ([min, max]: [number, number]) => (min + max) / 2;
+  const agreement: Record<string, number | null> = {};
+
+  const keys = new Set(scored.flatMap(({ golden }) => Object.keys(golden.expected)));
+  for (const key of keys) {
+    const pairs = scored.filter(({ golden, scores }) => golden.expected[key] && typeof scores[key] === 'number');
+    if (pairs.length < 3) continue;
+    agreement[key] = kendallTau(
+      pairs.map(({ golden }) => midpoint(golden.expected[key])),
+      pairs.map(({ scores }) => scores[key])
+    );
+  }
+
+  if (scored.length >= 3) {
+    agreement.overall = kendallTau(
+      scored.map(({ golden, dimensions }) =>
+        overall(Object.fromEntries(Object.entries(golden.expected).map(([key, range]) => [key, midpoint(range)])), dimensions)
+      ),
+      scored.map(({ scores, dimensions }) => overall(scores, dimensions))
+    );
+  }
+
+  return agreement;
+}
+
+async function main() {
+  const options = parseArgs(Deno.args);
+  const goldens = await loadGoldens(options.set);
+  const baselineUrl = new URL(`baselines/${options.set}.json`, ROOT);
+  const baseline = await readJson<Baseline>(baselineUrl);
+  // The mock scores every transcript alike, so only its pipeline and schema results mean anything
+  const gradesScores = options.provider !== 'mock';
+
+  console.log(`Feedback eval: ${goldens.length} goldens from set ${options.set}, provider ${options.provider}, prompt ${PROMPT_VERSION}`);
+  if (baseline && baseline.prompt_version !== PROMPT_VERSION) {
+    console.log(`Baseline was recorded with prompt ${baseline.prompt_version}; expect drift`);
+  }
+
+  const results: GoldenResult[] = [];
+  let model = '';
+  for (const golden of goldens) {
+    const { result, provider } = await runGolden(golden, options.provider, options.set, baseline);
+    results.push(result);
+    model ||= provider?.config.model ?? '';
+
+    if (options.record && provider instanceof RecordingProvider && result.scores) {
+      const recording: Recording = {
+        prompt_version: PROMPT_VERSION,
+        prompt_hash: provider.promptHash,
+        completions: provider.completions,
+      };
+      await writeJson(new URL(`recordings/${options.set}/${golden.id}.json`, ROOT), recording);
+    }
+
+    const status = result.error || result.integrity ? 'FAIL' : result.out_of_range.length > 0 && gradesScores ? 'RANGE' : 'ok';
+    const scores = result.scores
+      ? Object.entries(result.scores)
+          .map(([key, score]) => `${key}=${score}${result.drift[key] ? ` (${result.drift[key] > 0 ? '+' : ''}${result.drift[key]})` : ''}`)
+          .join(' ')
+      : result.error;
+    console.log(`  ${status.padEnd(5)} ${golden.id}${result.stale ? ' [stale recording]' : ''}: ${scores}`);
+    result.schema_errors.forEach((errors, attempt) => console.log(`        attempt ${attempt + 1} rejected: ${errors.join('; ')}`));
+    if (result.integrity) console.log(`        ${result.integrity}`);
+    if (gradesScores) result.out_of_range.forEach((problem) => console.log(`        ${problem}`));
+  }
+
+  const agreement = rankAgreement(goldens, results);
+  console.log(`Rank agreement (Kendall tau)${gradesScores ? '' : ', informational only with the mock'}:`);
+  for (const [key, tau] of Object.entries(agreement)) {
+    console.log(`  ${key}: ${tau === null ? 'n/a' : tau.toFixed(2)}`);
+  }
+
+  const failures = results.filter((result) => result.error).map((result) => `${result.id} failed: ${result.error}`);
+  results.filter((result) => result.integrity).forEach((result) => failures.push(`${result.id}: ${result.integrity}`));
+  if (gradesScores) {
+    for (const result of results) {
+      if (result.out_of_range.length > 0) failures.push(`${result.id} scored outside its expected range`);
+      const drifted = Object.entries(result.drift).filter(([, change]) => Math.abs(change) > MAX_DRIFT);
+      if (drifted.length > 0) failures.push(`${result.id} drifted on ${drifted.map(([key]) => key).join(', ')}`);
+    }
+    for (const [key, tau] of Object.entries(agreement)) {
+      if (tau !== null && tau < MIN_RANK_AGREEMENT) failures.push(`rank agreement on ${key} is ${tau.toFixed(2)}`);
+    }
+  }
+
+  const schemaFailures = results.reduce((sum, result) => sum + result.schema_errors.length, 0);
+  console.log(`Schema failures: ${schemaFailures} rejected replies across ${results.length} goldens`);
+
+  if (options.report) {
+    await writeJson(new URL(options.report, `file://${Deno.cwd()}/`), {
+      set: options.set,
+      provider: options.provider,
+      prompt_version: PROMPT_VERSION,
+      model,
+      results,
+      rank_agreement: agreement,
+      failures,
+    });
+  }
+
+  if (options.updateBaseline) {
+    if (!gradesScores) throw new Error('A mock run cannot become the baseline');
+    const scores = Object.fromEntries(results.filter((result) => result.scores).map((result) => [result.id, result.scores!]));
+    await writeJson(baselineUrl, { prompt_version: PROMPT_VERSION, model, scores } satisfies Baseline);
+    console.log(`Baseline for ${options.set} updated`);
+  }
+
+  if (failures.length > 0) {
+    console.log(`\n${failures.length} gate(s) failed:`);
+    failures.forEach((failure) => console.log(`  - ${failure}`));
+    Deno.exit(1);
+  }
+  console.log('\nAll gates passed');
+}
+
+if (import.meta.main) {
+  await main();
+}
@@ -1,15 +1,70 @@
-import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
-};
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { authenticate, loadOwnedSession } from '../_shared/auth.ts';
+import { corsHeaders, errorResponse, HttpError, jsonResponse } from '../_shared/http.ts';
+import { parseGoals } from '../_shared/goals.ts';
+import { parsePersonas } from '../_shared/personas.ts';
+import { parseStages } from '../_shared/stages.ts';
+import { enforceUsageLimits, recordUsage } from '../_shared/usage.ts';
+import { judgeFeedback, resolveJudges } from './ensemble.ts';
+import { computeLinguisticMetrics } from './metrics.ts';
+import { buildFeedbackMessages, PROMPT_VERSION, type GradedMessage } from './prompt.ts';
+import { parseRubric } from './rubric.ts';
+
+const UNIQUE_VIOLATION = '23505';
+
+/** A claim older than this belongs to a request that died without releasing it. */
+const CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
 
 interface FeedbackRequest {
   session_id: string;
 }
 
+interface FeedbackSession {
+  scenario_id: string;
+  scenario: {
+    title: string;
+    objective: string;
+    difficulty_level: string;
+    rubric: unknown;
+    goals: unknown;
+    stages: unknown;
+    personas: unknown;
+    llm_config: unknown;
+  };
+}
+
+/**
+ * Marks the session as being graded, so a second request is turned away before it runs (and pays
+ * for) any judges. Returns the claim's timestamp, which `releaseSession` must be given.
+ */
+async function claimSession(supabase: SupabaseClient, sessionId: string): Promise<string> {
+  const claimedAt = new Date().toISOString();
+  const abandonedBefore = new Date(Date.now() - CLAIM_TIMEOUT_MS).toISOString();
+
+  const { data, error } = await supabase
+    .from('session')
+    .update({ feedback_started_at: claimedAt })
+    .eq('id', sessionId)
+    .or(`feedback_started_at.is.null,feedback_started_at.lt."${abandonedBefore}"`)
+    .select('id');
+
+  if (error) throw error;
+  if (!data || data.length === 0) {
+    throw new HttpError(409, 'feedback_in_progress', 'Feedback for this session is already being generated');
+  }
+  return claimedAt;
+}
+
+/** Clears the claim, unless it timed out and another request has claimed the session since. */
+async function releaseSession(supabase: SupabaseClient, sessionId: string, claimedAt: string): Promise<void> {
+  const { error } = await supabase
+    .from('session')
+    .update({ feedback_started_at: null })
+    .eq('id', sessionId)
+    .eq('feedback_started_at', claimedAt);
+  if (error) console.error('Failed to release feedback claim:', error);
+}
+
 Deno.serve(async (req: Request) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, {
@@ -21,139 +76,143 @@ Deno.serve(async (req: Request) => {
   try {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const openaiKey = Deno.env.get('OPENAI_API_KEY');
-
-    if (!openaiKey) {
-      throw new Error('OpenAI API key not configured');
-    }
-
     const supabase = createClient(supabaseUrl, supabaseKey);
+    const user = await authenticate(req, supabase);
+    const requestId = crypto.randomUUID();
     const { session_id }: FeedbackRequest = await req.json();
 
-    const { data: session, error: sessionError } = await supabase
-      .from('session')
-      .select('scenario_id, scenario(title, objective)')
-      .eq('id', session_id)
-      .single();
-
-    if (sessionError || !session) {
-      throw new Error('Session not found');
-    }
-
-    const scenario = (session as any).scenario;
+    const session = await loadOwnedSession<FeedbackSession>(
+      supabase,
+      session_id,
+      user.id,
+      'scenario_id, scenario(title, objective, difficulty_level, rubric, goals, stages, personas, llm_config)'
+    );
+    const scenario = session.scenario;
+    const dimensions = parseRubric(scenario.rubric);
+    const goals = parseGoals(scenario.goals);
 
-    const { data: messages } = await supabase
+    const { data: storedMessages } = await supabase
       .from('message')
-      .select('role, content')
+      .select('id, role, persona, content, metadata, created_at')
       .eq('session_id', session_id)
       .order('created_at');
 
-    if (!messages || messages.length < 2) {
-      throw new Error('Not enough conversation for feedback');
-    }
-
-    const userMessages = messages.filter((m: any) => m.role === 'user');
-    const conversationText = messages
-      .map((m: any) => `${m.role === 'user' ? 'User' : 'Coach'}: ${m.content}`)
-      .join('\n\n');
-
-    const feedbackPrompt = `You are an expert communication coach evaluating a practice conversation.
-
-Scenario: ${scenario.title}
-Objective: ${scenario.objective}
-
-Conversation:
-${conversationText}
+    // Coaching hints are private to the user and aren't part of the conversation
+    const conversation = (storedMessages || []).filter((m: { role: string }) => m.role !== 'coach');
+    // Turns that moderation blocked or withheld never reached the conversation, so they aren't graded
+    const messages = conversation.filter(
+      (m: { metadata: { moderation?: { action: string }; moderation_notice?: string } | null }) =>
+        !m.metadata?.moderation_notice && m.metadata?.moderation?.action !== 'block'
+    );
 
-Evaluate the user's communication during this conversation on these metrics (0-5 scale):
-1. Clarity - Was the message structured, concise, and easy to follow?
-2. Empathy - Did the user demonstrate understanding and emotional awareness?
-3. Assertiveness - Did the user communicate confidently and maintain appropriate boundaries?
+    if (messages.length < 2) {
+      throw new HttpError(400, 'not_enough_conversation', 'Have a longer conversation before asking for feedback');
+    }
 
-Provide your response in the following JSON format:
-{
-  "summary": "A brief 2-3 sentence overall assessment of the user's performance",
-  "clarity": <number 0-5>,
-  "empathy": <number 0-5>,
-  "assertiveness": <number 0-5>,
-  "recommendations": "Three specific, actionable recommendations for improvement, each on a new line starting with a bullet point"
-}
+    const userMessages = messages.filter((m: GradedMessage) => m.role === 'user');
+    // Only stages the user actually spoke in can be scored
+    const stages = parseStages(scenario.stages).filter((stage) =>
+      userMessages.some((m: GradedMessage) => m.metadata?.stage === stage.key)
+    );
 
-Respond ONLY with valid JSON, no additional text.`;
-
-    const openaiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openaiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          { role: 'system', content: 'You are an expert communication coach providing constructive feedback.' },
-          { role: 'user', content: feedbackPrompt },
-        ],
-        temperature: 0.7,
-        max_tokens: 500,
-      }),
-    });
+    await enforceUsageLimits(supabase, user.id);
+
+    const claimedAt = await claimSession(supabase, session_id);
+    try {
+      const ensemble = await judgeFeedback(
+        resolveJudges(scenario.llm_config),
+        scenario.llm_config,
+        buildFeedbackMessages(scenario, dimensions, messages, goals, stages, parsePersonas(scenario.personas)),
+        dimensions,
+        userMessages.map((m: { id: number }) => m.id),
+        goals,
+        stages,
+        (provider, completion, latencyMs) =>
+          recordUsage(supabase, {
+            user_id: user.id,
+            request_id: requestId,
+            session_id,
+            purpose: 'feedback',
+            config: provider.config,
+            completion,
+            latency_ms: latencyMs,
+          })
+      );
+      const result = ensemble.primary;
+      // With several judges the stored scores are their outlier-trimmed means
+      const scores = ensemble.confidence
+        ? Object.fromEntries(Object.entries(ensemble.confidence).map(([key, range]) => [key, range.mean]))
+        : result.value.scores;
+
+      // Measured from the transcript itself, so they stay the same however the model scores it
+      const metrics = computeLinguisticMetrics(messages);
+
+      const { data: latest, error: latestError } = await supabase
+        .from('feedback')
+        .select('version')
+        .eq('session_id', session_id)
+        .order('version', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (latestError) throw latestError;
+
+      const { data: feedback, error: feedbackError } = await supabase
+        .from('feedback')
+        .insert({
+          session_id,
+          version: (latest?.version ?? 0) + 1,
+          message_count: conversation.length,
+          prompt_version: PROMPT_VERSION,
+          summary: result.value.summary,
+          scores,
+          rubric: dimensions,
+          recommendations: result.value.recommendations.map((recommendation) => recommendation.text),
+          detailed_analysis: {
+            validated: result.value,
+            raw_output: result.raw,
+            model: result.model,
+            rejected_attempts: result.rejected,
+            metrics,
+            ...(stages.length > 0
+              ? {
+                  stages: ensemble.stages.map(({ key, scores: stageScores }) => ({
+                    key,
+                    label: stages.find((stage) => stage.key === key)?.label ?? key,
+                    scores: stageScores,
+                    message_ids: userMessages
+                      .filter((m: GradedMessage) => m.metadata?.stage === key)
+                      .map((m: GradedMessage) => m.id),
+                  })),
+                }
+              : {}),
+            ...(ensemble.judges.length + ensemble.failed > 1
+              ? { ensemble: { judges: ensemble.judges, judges_failed: ensemble.failed, confidence: ensemble.confidence } }
+              : {}),
+          },
+        })
+        .select()
+        .single();
+
+      if (feedbackError) {
+        // Only possible when a claim timed out while its request was still running
+        if (feedbackError.code === UNIQUE_VIOLATION) {
+          throw new HttpError(409, 'feedback_in_progress', 'Feedback for this session is already being generated');
+        }
+        throw feedbackError;
+      }
 
-    if (!openaiResponse.ok) {
-      const errorText = await openaiResponse.text();
-      throw new Error(`OpenAI API error: ${errorText}`);
-    }
+      await supabase
+        .from('session')
+        .update({ status: 'completed', ended_at: new Date().toISOString() })
+        .eq('id', session_id);
 
-    const openaiData = await openaiResponse.json();
-    const feedbackText = openaiData.choices[0].message.content;
-
-    const feedbackJson = JSON.parse(feedbackText);
-
-    const scores = {
-      clarity: feedbackJson.clarity,
-      empathy: feedbackJson.empathy,
-      assertiveness: feedbackJson.assertiveness,
-    };
-
-    const { data: feedback, error: feedbackError } = await supabase
-      .from('feedback')
-      .insert({
-        session_id,
-        summary: feedbackJson.summary,
-        scores,
-        recommendations: feedbackJson.recommendations,
-      })
-      .select()
-      .single();
-
-    if (feedbackError) {
-      throw feedbackError;
+      return jsonResponse(feedback);
+    } finally {
+      await releaseSession(supabase, session_id, claimedAt);
     }
-
-    await supabase
-      .from('session')
-      .update({ status: 'completed', ended_at: new Date().toISOString() })
-      .eq('id', session_id);
-
-    return new Response(
-      JSON.stringify(feedback),
-      {
-        headers: {
-          ...corsHeaders,
-          'Content-Type': 'application/json',
-        },
-      }
-    );
   } catch (error) {
     console.error('Feedback error:', error);
-    return new Response(
-      JSON.stringify({ error: error.message || 'Internal server error' }),
-      {
-        status: 500,
-        headers: {
-          ...corsHeaders,
-          'Content-Type': 'application/json',
-        },
-      }
-    );
+    return errorResponse(error);
   }
-});
\ No newline at end of file
+});
@@ -0,0 +1,37 @@
+import assert from 'node:assert/strict';
+import { computeLinguisticMetrics, type TranscriptMessage } from './metrics.ts';
+
+const at = (seconds: number) => new Date(Date.UTC(2026, 0, 1, 12, 0, seconds)).toISOString();
+
+const TRANSCRIPT: TranscriptMessage[] = [
+  { role: 'assistant', content: 'Hello, what brings you in today?', created_at: at(0) },
+  { role: 'user', content: 'Um, sorry, I think my order is late. Can you check it?', created_at: at(10) },
+  { role: 'assistant', content: 'Of course. What is the order number?', created_at: at(12) },
+  { role: 'user', content: 'It is 4417. I need it by Friday.', created_at: at(42), metadata: { assisted_by: 'coach' } },
+];
+
+Deno.test('computeLinguisticMetrics counts the user side of the conversation', () => {
+  const metrics = computeLinguisticMetrics(TRANSCRIPT);
+
+  assert.equal(metrics.user_turns, 2);
+  assert.equal(metrics.user_words, 20);
+  assert.equal(metrics.questions_asked, 1);
+  assert.equal(metrics.hedges, 1);
+  assert.equal(metrics.fillers, 1);
+  assert.equal(metrics.apologies, 1);
+  assert.equal(metrics.assisted_turns, 1);
+  assert.equal(metrics.avg_response_seconds, 20);
+  assert.equal(metrics.median_response_seconds, 20);
+});
+
+Deno.test('computeLinguisticMetrics is deterministic', () => {
+  assert.deepEqual(computeLinguisticMetrics(TRANSCRIPT), computeLinguisticMetrics(TRANSCRIPT));
+});
+
+Deno.test('computeLinguisticMetrics has no response times without persona replies', () => {
+  const metrics = computeLinguisticMetrics([{ role: 'user', content: 'Hi there.', created_at: at(0) }]);
+
+  assert.equal(metrics.talk_ratio, 1);
+  assert.equal(metrics.avg_response_seconds, null);
+  assert.equal(metrics.median_response_seconds, null);
+});
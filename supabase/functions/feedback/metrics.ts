@@ -0,0 +1,102 @@
+export interface TranscriptMessage {
+  role: string;
+  content: string;
+  created_at: string;
+  metadata?: Record<string, unknown> | null;
+}
+
+/** Deterministic measurements of the user's side of a conversation; the same transcript always yields the same numbers. */
+export interface LinguisticMetrics {
+  user_turns: number;
+  user_words: number;
+  /** Share of all words in the conversation spoken by the user, 0-1. */
+  talk_ratio: number;
+  avg_turn_words: number;
+  questions_asked: number;
+  hedges: number;
+  fillers: number;
+  apologies: number;
+  i_statements: number;
+  you_statements: number;
+  /** User messages sent straight after a coaching hint. */
+  assisted_turns: number;
+  /** Flesch-Kincaid grade level of the user's messages. */
+  readability_grade: number;
+  /** Seconds between a persona reply being stored and the user's next message; null without any replies. */
+  avg_response_seconds: number | null;
+  median_response_seconds: number | null;
+}
+
+const HEDGES = [
+  'maybe', 'perhaps', 'i guess', 'i think', 'i suppose', 'kind of', 'sort of', 'probably',
+  'possibly', 'might', 'not sure', 'a little', 'somewhat', 'just wondering',
+];
+const FILLERS = ['um', 'uh', 'erm', 'hmm', 'you know', 'basically', 'actually', 'literally', 'like i said', 'i mean'];
+const APOLOGIES = ['sorry', 'apologize', 'apologise', 'apologies', 'my bad', 'forgive me'];
+
+const round = (value: number, places = 2) => Math.round(value * 10 ** places) / 10 ** places;
+
+const words = (text: string) => text.toLowerCase().match(/[a-z0-9']+/g) ?? [];
+
+function countPhrases(text: string, phrases: string[]): number {
+  const normalized = ` ${words(text).join(' ')} `;
+  return phrases.reduce((count, phrase) => count + normalized.split(` ${phrase} `).length - 1, 0);
+}
+
+/** Vowel-group heuristic; close enough for a grade-level estimate. */
+function syllables(word: string): number {
+  const groups = word.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '').match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups?.length ?? 0);
+}
+
+function readabilityGrade(text: string): number {
+  const wordList = words(text);
+  if (wordList.length === 0) return 0;
+
+  const sentences = Math.max(1, (text.match(/[.!?]+(\s|$)/g) ?? []).length);
+  const syllableCount = wordList.reduce((sum, word) => sum + syllables(word), 0);
+  return round(Math.max(0, 0.39 * (wordList.length / sentences) + 11.8 * (syllableCount / wordList.length) - 15.59), 1);
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+export function computeLinguisticMetrics(messages: TranscriptMessage[]): LinguisticMetrics {
+  const userMessages = messages.filter((message) => message.role === 'user');
+  const userText = userMessages.map((message) => message.content).join('\n');
+  const userWords = words(userText).length;
+  const totalWords = messages.reduce((sum, message) => sum + words(message.content).length, 0);
+
+  const latencies: number[] = [];
+  messages.forEach((message, index) => {
+    const previous = messages[index - 1];
+    if (message.role === 'user' && previous?.role === 'assistant') {
+      const seconds = (new Date(message.created_at).getTime() - new Date(previous.created_at).getTime()) / 1000;
+      if (Number.isFinite(seconds) && seconds >= 0) latencies.push(seconds);
+    }
+  });
+
+  const wordList = words(userText);
+  const medianLatency = median(latencies);
+
+  return {
+    user_turns: userMessages.length,
+    user_words: userWords,
+    talk_ratio: totalWords ? round(userWords / totalWords) : 0,
+    avg_turn_words: userMessages.length ? round(userWords / userMessages.length, 1) : 0,
+    questions_asked: (userText.match(/\?+/g) ?? []).length,
+    hedges: countPhrases(userText, HEDGES),
+    fillers: countPhrases(userText, FILLERS),
+    apologies: countPhrases(userText, APOLOGIES),
+    i_statements: wordList.filter((word) => ['i', "i'm", "i've", "i'd", "i'll", 'me', 'my', 'mine'].includes(word)).length,
+    you_statements: wordList.filter((word) => ['you', "you're", "you've", "you'd", "you'll", 'your', 'yours'].includes(word)).length,
+    assisted_turns: userMessages.filter((message) => message.metadata?.assisted_by).length,
+    readability_grade: readabilityGrade(userText),
+    avg_response_seconds: latencies.length ? round(latencies.reduce((sum, value) => sum + value, 0) / latencies.length, 1) : null,
+    median_response_seconds: medianLatency === null ? null : round(medianLatency, 1),
+  };
+}
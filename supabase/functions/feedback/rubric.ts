@@ -0,0 +1,98 @@
+export interface RubricDimension {
+  key: string;
+  label: string;
+  description: string;
+  weight: number;
+  scale: { min: number; max: number };
+}
+
+const DEFAULT_SCALE = { min: 0, max: 5 };
+
+/** Scored when a scenario has no usable rubric; matches what feedback always scored before rubrics. */
+export const DEFAULT_DIMENSIONS: RubricDimension[] = [
+  {
+    key: 'clarity',
+    label: 'Clarity',
+    description: 'Was the message structured, concise, and easy to follow?',
+    weight: 1,
+    scale: DEFAULT_SCALE,
+  },
+  {
+    key: 'empathy',
+    label: 'Empathy',
+    description: 'Did the user demonstrate understanding and emotional awareness?',
+    weight: 1,
+    scale: DEFAULT_SCALE,
+  },
+  {
+    key: 'assertiveness',
+    label: 'Assertiveness',
+    description: 'Did the user communicate confidently and maintain appropriate boundaries?',
+    weight: 1,
+    scale: DEFAULT_SCALE,
+  },
+];
+
+const toKey = (value: string) => value.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+const toLabel = (key: string) => key.split('_').map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+function toDimension(entry: Record<string, unknown>): RubricDimension | null {
+  const key = toKey(String(entry.key ?? entry.label ?? ''));
+  if (!key) return null;
+
+  const scale = entry.scale as { min?: unknown; max?: unknown } | undefined;
+  const min = Number(scale?.min ?? DEFAULT_SCALE.min);
+  const max = Number(scale?.max ?? DEFAULT_SCALE.max);
+  const weight = Number(entry.weight ?? 1);
+
+  return {
+    key,
+    label: typeof entry.label === 'string' && entry.label.trim() ? entry.label.trim() : toLabel(key),
+    description: typeof entry.description === 'string' ? entry.description : '',
+    weight: Number.isFinite(weight) && weight > 0 ? weight : 1,
+    scale: Number.isFinite(min) && Number.isFinite(max) && max > min ? { min, max } : DEFAULT_SCALE,
+  };
+}
+
+/**
+ * Reads `scenario.rubric` in either shape: `{ dimensions: [...] }`, or the legacy map of
+ * key to description. Falls back to the default dimensions when nothing usable is defined.
+ */
+export function parseRubric(raw: unknown): RubricDimension[] {
+  if (!raw || typeof raw !== 'object') return DEFAULT_DIMENSIONS;
+
+  const entries = Array.isArray((raw as { dimensions?: unknown }).dimensions)
+    ? ((raw as { dimensions: Record<string, unknown>[] }).dimensions)
+    : Object.entries(raw as Record<string, unknown>)
+        .filter(([, description]) => typeof description === 'string')
+        .map(([key, description]) => ({ key, description }));
+
+  const dimensions: RubricDimension[] = [];
+  for (const entry of entries) {
+    const dimension = entry && typeof entry === 'object' ? toDimension(entry) : null;
+    if (dimension && !dimensions.some((existing) => existing.key === dimension.key)) {
+      dimensions.push(dimension);
+    }
+  }
+
+  return dimensions.length > 0 ? dimensions : DEFAULT_DIMENSIONS;
+}
+
+/** Numbered list of the dimensions for the grading prompt. */
+export function describeDimensions(dimensions: RubricDimension[]): string {
+  return dimensions
+    .map(
+      (dimension, index) =>
+        `${index + 1}. ${dimension.label} (${dimension.scale.min}-${dimension.scale.max} scale)${dimension.description ? ` - ${dimension.description}` : ''}`
+    )
+    .join('\n');
+}
+
+/** The `scores` object of the JSON response template, one placeholder per dimension. */
+export function scoresTemplate(dimensions: RubricDimension[]): string {
+  const lines = dimensions.map(
+    (dimension) => `    "${dimension.key}": <number ${dimension.scale.min}-${dimension.scale.max}>`
+  );
+  return `{\n${lines.join(',\n')}\n  }`;
+}
@@ -0,0 +1,118 @@
+import assert from 'node:assert/strict';
+import { HttpError } from '../_shared/http.ts';
+import type { LLMCompletion, LLMProvider, LLMRequest } from '../_shared/llm/index.ts';
+import { DEFAULT_DIMENSIONS } from './rubric.ts';
+import { completeValidatedFeedback, validateFeedback } from './schema.ts';
+
+const USER_MESSAGE_IDS = [1, 3];
+
+const validReply = (overrides: Record<string, unknown> = {}) =>
+  JSON.stringify({
+    summary: 'Clear and friendly, but slow to get to the point.',
+    scores: { clarity: 3, empathy: 4, assertiveness: 2.5 },
+    recommendations: [{ text: 'Lead with your main point.', message_ids: [1] }],
+    annotations: [{ message_id: 1, dimension: 'clarity', severity: 'medium', strengths: [], issues: ['Buried the ask.'] }],
+    rewrites: [{ message_id: 3, rewrite: 'Can we agree on Friday?', reasons: ['Asks for a decision.'] }],
+    ...overrides,
+  });
+
+Deno.test('validateFeedback accepts a reply that matches the schema, even inside a markdown fence', () => {
+  const result = validateFeedback('```json\n' + validReply() + '\n```', DEFAULT_DIMENSIONS, USER_MESSAGE_IDS);
+
+  assert.equal(result.ok, true);
+  if (!result.ok) return;
+  assert.deepEqual(result.value.scores, { clarity: 3, empathy: 4, assertiveness: 2.5 });
+  assert.equal(result.value.rewrites[0].message_id, 3);
+});
+
+Deno.test('validateFeedback reports text that is not JSON', () => {
+  const result = validateFeedback('Great job overall!', DEFAULT_DIMENSIONS, USER_MESSAGE_IDS);
+
+  assert.equal(result.ok, false);
+  if (result.ok) return;
+  assert.match(result.errors[0], /not valid JSON/);
+});
+
+Deno.test('validateFeedback rejects scores outside the scale instead of clamping them', () => {
+  const result = validateFeedback(validReply({ scores: { clarity: 7, empathy: 4 } }), DEFAULT_DIMENSIONS, USER_MESSAGE_IDS);
+
+  assert.equal(result.ok, false);
+  if (result.ok) return;
+  assert.ok(result.errors.includes('"scores.clarity" must be between 0 and 5, got 7'));
+  assert.ok(result.errors.includes('"scores.assertiveness" must be a number'));
+});
+
+Deno.test("validateFeedback rejects references to messages that aren't the user's", () => {
+  const result = validateFeedback(
+    validReply({ rewrites: [{ message_id: 2, rewrite: 'Better.', reasons: ['Shorter.'] }] }),
+    DEFAULT_DIMENSIONS,
+    USER_MESSAGE_IDS
+  );
+
+  assert.equal(result.ok, false);
+  if (result.ok) return;
+  assert.deepEqual(result.errors, ['"rewrites[0].message_id" must be the id of one of the user\'s messages']);
+});
+
+Deno.test('validateFeedback allows one rewrite per user message, however long the session', () => {
+  const userMessageIds = Array.from({ length: 20 }, (_, index) => index + 1);
+  const rewrites = userMessageIds.map((message_id) => ({ message_id, rewrite: 'Better.', reasons: ['Shorter.'] }));
+
+  assert.equal(validateFeedback(validReply({ rewrites }), DEFAULT_DIMENSIONS, userMessageIds).ok, true);
+
+  const result = validateFeedback(validReply({ rewrites }), DEFAULT_DIMENSIONS, userMessageIds.slice(0, 19));
+  assert.equal(result.ok, false);
+  if (result.ok) return;
+  assert.match(result.errors[0], /"rewrites" must have at most 19 items/);
+});
+
+Deno.test('validateFeedback requires every goal and stage the scenario defines', () => {
+  const goals = [{ key: 'ask', label: 'Ask for a decision', cues: ['decide'] }];
+  const stages = ['open', 'close'].map((key) => ({ key, label: key, persona: '', entry: {}, exit: {}, max_turns: null }));
+  const result = validateFeedback(
+    validReply({ goals: [], stages: [{ key: 'open', scores: { clarity: 3, empathy: 3, assertiveness: 3 } }] }),
+    DEFAULT_DIMENSIONS,
+    USER_MESSAGE_IDS,
+    goals,
+    stages
+  );
+
+  assert.equal(result.ok, false);
+  if (result.ok) return;
+  assert.deepEqual(result.errors, ['"goals" is missing: ask', '"stages" is missing: close']);
+});
+
+/** Replies with each scripted response in turn and records what it was asked. */
+function scriptedProvider(replies: string[]) {
+  const requests: LLMRequest[] = [];
+  const provider: LLMProvider = {
+    config: { provider: 'mock', model: 'scripted', temperature: 0, max_tokens: 100 },
+    complete(request): Promise<LLMCompletion> {
+      requests.push({ ...request, messages: [...request.messages] });
+      return Promise.resolve({ content: replies[requests.length - 1], model: 'scripted', usage: { prompt_tokens: 0, completion_tokens: 0 } });
+    },
+    stream: () => Promise.reject(new Error('not used')),
+  };
+  return { provider, requests };
+}
+
+Deno.test('completeValidatedFeedback feeds validation errors back until a reply validates', async () => {
+  const { provider, requests } = scriptedProvider(['not json', validReply()]);
+  const feedback = await completeValidatedFeedback(provider, [{ role: 'user', content: 'Grade this.' }], DEFAULT_DIMENSIONS, USER_MESSAGE_IDS, [], [], () => Promise.resolve());
+
+  assert.equal(feedback.rejected.length, 1);
+  assert.equal(requests.length, 2);
+  const repair = requests[1].messages.at(-1);
+  assert.equal(repair?.role, 'user');
+  assert.match(repair?.content ?? '', /did not match the required format/);
+});
+
+Deno.test('completeValidatedFeedback gives up with a 502 after the last attempt', async () => {
+  const { provider, requests } = scriptedProvider(['not json', 'still not json', '{}']);
+
+  await assert.rejects(
+    completeValidatedFeedback(provider, [{ role: 'user', content: 'Grade this.' }], DEFAULT_DIMENSIONS, USER_MESSAGE_IDS, [], [], () => Promise.resolve()),
+    (error: unknown) => error instanceof HttpError && error.status === 502 && error.code === 'feedback_invalid'
+  );
+  assert.equal(requests.length, 3);
+});
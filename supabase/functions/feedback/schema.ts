@@ -0,0 +1,384 @@
+import type { GoalStatus, ScenarioGoal } from '../_shared/goals.ts';
+import { HttpError } from '../_shared/http.ts';
+import type { LLMCompletion, LLMMessage, LLMProvider } from '../_shared/llm/index.ts';
+import type { ScenarioStage } from '../_shared/stages.ts';
+import type { RubricDimension } from './rubric.ts';
+
+export type Severity = 'low' | 'medium' | 'high';
+
+/** What one user message did well or badly, against one rubric dimension. */
+export interface MessageAnnotation {
+  message_id: number;
+  dimension: string;
+  severity: Severity;
+  strengths: string[];
+  issues: string[];
+}
+
+export interface Recommendation {
+  text: string;
+  /** User messages that prompted the recommendation. */
+  message_ids: number[];
+}
+
+/** A better way the user could have phrased one of their messages. */
+export interface MessageRewrite {
+  message_id: number;
+  rewrite: string;
+  /** One line per change explaining why it helps. */
+  reasons: string[];
+}
+
+/** The grader's verdict on one scenario goal. */
+export interface GoalResult {
+  key: string;
+  status: GoalStatus;
+  /** User messages that show the goal being met or attempted. */
+  message_ids: number[];
+  evidence: string;
+}
+
+/** Scores for the user's turns within one stage of a staged scenario. */
+export interface StageScores {
+  key: string;
+  scores: Record<string, number>;
+}
+
+export interface FeedbackOutput {
+  summary: string;
+  scores: Record<string, number>;
+  recommendations: Recommendation[];
+  goals: GoalResult[];
+  stages: StageScores[];
+  annotations: MessageAnnotation[];
+  rewrites: MessageRewrite[];
+}
+
+export type ValidationResult =
+  | { ok: true; value: FeedbackOutput }
+  | { ok: false; errors: string[] };
+
+const MIN_RECOMMENDATIONS = 1;
+const MAX_RECOMMENDATIONS = 5;
+const SEVERITIES: Severity[] = ['low', 'medium', 'high'];
+const GOAL_STATUSES: GoalStatus[] = ['met', 'partial', 'missed'];
+
+/** The JSON object in a model reply, tolerating markdown fences and prose around it. */
+function extractJson(text: string): unknown {
+  const unfenced = text.replace(/```(?:json)?/gi, '');
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new Error('no JSON object found');
+  }
+  return JSON.parse(unfenced.slice(start, end + 1));
+}
+
+/**
+ * Checks a feedback reply against the schema the prompt asked for. Scores must be numbers inside
+ * each dimension's scale and message references must point at the user's own messages; nothing
+ * is clamped or defaulted, so every problem is reported back to the model for repair.
+ */
+export function validateFeedback(
+  text: string,
+  dimensions: RubricDimension[],
+  userMessageIds: number[],
+  goals: ScenarioGoal[] = [],
+  stages: ScenarioStage[] = []
+): ValidationResult {
+  let parsed: unknown;
+  try {
+    parsed = extractJson(text);
+  } catch (error) {
+    return { ok: false, errors: [`Response is not valid JSON: ${(error as Error).message}`] };
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { ok: false, errors: ['Response must be a JSON object'] };
+  }
+
+  const output = parsed as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (typeof output.summary !== 'string' || !output.summary.trim()) {
+    errors.push('"summary" must be a non-empty string');
+  }
+
+  const scores = readScores(output.scores, dimensions, 'scores', errors);
+
+  const recommendations: Recommendation[] = [];
+  if (
+    !Array.isArray(output.recommendations) ||
+    output.recommendations.length < MIN_RECOMMENDATIONS ||
+    output.recommendations.length > MAX_RECOMMENDATIONS
+  ) {
+    errors.push(`"recommendations" must be an array of ${MIN_RECOMMENDATIONS}-${MAX_RECOMMENDATIONS} items`);
+  } else {
+    output.recommendations.forEach((item: unknown, index: number) => {
+      const entry = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+      const path = `"recommendations[${index}]`;
+      if (typeof entry.text !== 'string' || !entry.text.trim()) {
+        errors.push(`${path}.text" must be a non-empty string`);
+        return;
+      }
+      const messageIds = readMessageIds(entry.message_ids, userMessageIds, `${path}.message_ids"`, errors);
+      recommendations.push({ text: entry.text.trim().replace(/^[•\-*]\s*/, ''), message_ids: messageIds });
+    });
+  }
+
+  // Scenarios without goals don't ask for them, so whatever the model sends is ignored
+  const goalResults: GoalResult[] = [];
+  if (goals.length > 0) {
+    if (!Array.isArray(output.goals)) {
+      errors.push('"goals" must be an array');
+    } else {
+      output.goals.forEach((item: unknown, index: number) => {
+        const entry = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+        const path = `"goals[${index}]`;
+        const messageIds = readMessageIds(entry.message_ids, userMessageIds, `${path}.message_ids"`, errors);
+
+        if (typeof entry.key !== 'string' || !goals.some((goal) => goal.key === entry.key)) {
+          errors.push(`${path}.key" must be one of: ${goals.map((goal) => goal.key).join(', ')}`);
+          return;
+        }
+        if (goalResults.some((result) => result.key === entry.key)) {
+          errors.push(`${path}.key" repeats "${entry.key}"; report each goal once`);
+          return;
+        }
+        if (!GOAL_STATUSES.includes(entry.status as GoalStatus)) {
+          errors.push(`${path}.status" must be one of: ${GOAL_STATUSES.join(', ')}`);
+        } else if (entry.status !== 'missed' && messageIds.length === 0) {
+          errors.push(`${path}.message_ids" must cite at least one user message for a ${entry.status} goal`);
+        }
+        if (typeof entry.evidence !== 'string' || !entry.evidence.trim()) {
+          errors.push(`${path}.evidence" must be a non-empty string`);
+        }
+
+        goalResults.push({
+          key: entry.key,
+          status: entry.status as GoalStatus,
+          message_ids: messageIds,
+          evidence: typeof entry.evidence === 'string' ? entry.evidence.trim() : '',
+        });
+      });
+
+      const missing = goals.filter((goal) => !goalResults.some((result) => result.key === goal.key));
+      if (missing.length > 0) {
+        errors.push(`"goals" is missing: ${missing.map((goal) => goal.key).join(', ')}`);
+      }
+    }
+  }
+
+  // Like goals, stage scores are only asked for, and only checked, when the scenario is staged
+  const stageScores: StageScores[] = [];
+  if (stages.length > 0) {
+    if (!Array.isArray(output.stages)) {
+      errors.push('"stages" must be an array');
+    } else {
+      output.stages.forEach((item: unknown, index: number) => {
+        const entry = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+        if (typeof entry.key !== 'string' || !stages.some((stage) => stage.key === entry.key)) {
+          errors.push(`"stages[${index}].key" must be one of: ${stages.map((stage) => stage.key).join(', ')}`);
+          return;
+        }
+        if (stageScores.some((result) => result.key === entry.key)) {
+          errors.push(`"stages[${index}].key" repeats "${entry.key}"; score each stage once`);
+          return;
+        }
+        stageScores.push({ key: entry.key, scores: readScores(entry.scores, dimensions, `stages[${index}].scores`, errors) });
+      });
+
+      const missing = stages.filter((stage) => !stageScores.some((result) => result.key === stage.key));
+      if (missing.length > 0) {
+        errors.push(`"stages" is missing: ${missing.map((stage) => stage.key).join(', ')}`);
+      }
+    }
+  }
+
+  const annotations: MessageAnnotation[] = [];
+  if (!Array.isArray(output.annotations)) {
+    errors.push('"annotations" must be an array');
+  } else if (output.annotations.length > userMessageIds.length) {
+    errors.push(`"annotations" must have at most ${userMessageIds.length} items, one per user message; keep the ones that mattered most`);
+  } else {
+    output.annotations.forEach((item: unknown, index: number) => {
+      const entry = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+      const path = `"annotations[${index}]`;
+      const strengths = readStrings(entry.strengths, `${path}.strengths"`, errors);
+      const issues = readStrings(entry.issues, `${path}.issues"`, errors);
+
+      if (typeof entry.message_id !== 'number' || !userMessageIds.includes(entry.message_id)) {
+        errors.push(`${path}.message_id" must be the id of one of the user's messages`);
+      }
+      if (typeof entry.dimension !== 'string' || !dimensions.some((dimension) => dimension.key === entry.dimension)) {
+        errors.push(`${path}.dimension" must be one of: ${dimensions.map((dimension) => dimension.key).join(', ')}`);
+      }
+      if (!SEVERITIES.includes(entry.severity as Severity)) {
+        errors.push(`${path}.severity" must be one of: ${SEVERITIES.join(', ')}`);
+      }
+      if (strengths.length === 0 && issues.length === 0) {
+        errors.push(`${path}" needs at least one strength or issue`);
+      }
+
+      annotations.push({
+        message_id: entry.message_id as number,
+        dimension: entry.dimension as string,
+        severity: entry.severity as Severity,
+        strengths,
+        issues,
+      });
+    });
+  }
+
+  const rewrites: MessageRewrite[] = [];
+  if (!Array.isArray(output.rewrites)) {
+    errors.push('"rewrites" must be an array');
+  } else if (output.rewrites.length > userMessageIds.length) {
+    errors.push(`"rewrites" must have at most ${userMessageIds.length} items, one per user message`);
+  } else {
+    output.rewrites.forEach((item: unknown, index: number) => {
+      const entry = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+      const path = `"rewrites[${index}]`;
+      const reasons = readStrings(entry.reasons, `${path}.reasons"`, errors);
+
+      if (typeof entry.message_id !== 'number' || !userMessageIds.includes(entry.message_id)) {
+        errors.push(`${path}.message_id" must be the id of one of the user's messages`);
+      } else if (rewrites.some((rewrite) => rewrite.message_id === entry.message_id)) {
+        errors.push(`${path}.message_id" repeats an earlier rewrite; give one rewrite per message`);
+      }
+      if (typeof entry.rewrite !== 'string' || !entry.rewrite.trim()) {
+        errors.push(`${path}.rewrite" must be a non-empty string`);
+      }
+      if (reasons.length === 0) {
+        errors.push(`${path}.reasons" must list at least one reason`);
+      }
+
+      rewrites.push({
+        message_id: entry.message_id as number,
+        rewrite: typeof entry.rewrite === 'string' ? entry.rewrite.trim() : '',
+        reasons,
+      });
+    });
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+
+  return {
+    ok: true,
+    value: {
+      summary: (output.summary as string).trim(),
+      scores,
+      recommendations,
+      goals: goalResults,
+      stages: stageScores,
+      annotations,
+      rewrites,
+    },
+  };
+}
+
+/** One score per dimension, each a number inside the dimension's scale. */
+function readScores(value: unknown, dimensions: RubricDimension[], path: string, errors: string[]): Record<string, number> {
+  const scores: Record<string, number> = {};
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    errors.push(`"${path}" must be an object`);
+    return scores;
+  }
+
+  for (const dimension of dimensions) {
+    const score = (value as Record<string, unknown>)[dimension.key];
+    const { min, max } = dimension.scale;
+    if (typeof score !== 'number' || !Number.isFinite(score)) {
+      errors.push(`"${path}.${dimension.key}" must be a number`);
+    } else if (score < min || score > max) {
+      errors.push(`"${path}.${dimension.key}" must be between ${min} and ${max}, got ${score}`);
+    } else {
+      scores[dimension.key] = Math.round(score * 10) / 10;
+    }
+  }
+  return scores;
+}
+
+function readStrings(value: unknown, path: string, errors: string[]): string[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+    errors.push(`${path} must be an array of strings`);
+    return [];
+  }
+  return value.map((item: string) => item.trim()).filter(Boolean);
+}
+
+function readMessageIds(value: unknown, userMessageIds: number[], path: string, errors: string[]): number[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some((id) => typeof id !== 'number' || !userMessageIds.includes(id))) {
+    errors.push(`${path} must be an array of ids of the user's messages`);
+    return [];
+  }
+  return value as number[];
+}
+
+/** Follow-up turn asking the model to fix its previous reply. */
+export function repairPrompt(errors: string[]): string {
+  return `Your previous response did not match the required format:
+${errors.map((error) => `- ${error}`).join('\n')}
+
+Respond again with ONLY the corrected JSON object, in exactly the format requested. No markdown, no commentary.`;
+}
+
+export interface FeedbackAttempt {
+  raw: string;
+  errors: string[];
+}
+
+export interface ValidatedFeedback {
+  value: FeedbackOutput;
+  /** The reply that passed validation, verbatim. */
+  raw: string;
+  model: string;
+  /** Rejected replies before the accepted one. */
+  rejected: FeedbackAttempt[];
+}
+
+/**
+ * Requests feedback until a reply validates, feeding the validation errors back to the model
+ * between attempts. `onCompletion` sees every call for usage accounting. Throws a 502
+ * `feedback_invalid` HttpError once FEEDBACK_MAX_ATTEMPTS (default 3) replies have failed.
+ */
+export async function completeValidatedFeedback(
+  provider: LLMProvider,
+  messages: LLMMessage[],
+  dimensions: RubricDimension[],
+  userMessageIds: number[],
+  goals: ScenarioGoal[],
+  stages: ScenarioStage[],
+  onCompletion: (completion: LLMCompletion, latencyMs: number) => Promise<void>
+): Promise<ValidatedFeedback> {
+  const maxAttempts = Math.max(1, Number(Deno.env.get('FEEDBACK_MAX_ATTEMPTS')) || 3);
+  const conversation = [...messages];
+  const rejected: FeedbackAttempt[] = [];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const startedAt = Date.now();
+    const completion = await provider.complete({ messages: conversation, responseFormat: 'json' });
+    await onCompletion(completion, Date.now() - startedAt);
+
+    const result = validateFeedback(completion.content, dimensions, userMessageIds, goals, stages);
+    if (result.ok) {
+      return { value: result.value, raw: completion.content, model: completion.model, rejected };
+    }
+
+    console.warn(`Feedback attempt ${attempt} failed validation:`, result.errors);
+    rejected.push({ raw: completion.content, errors: result.errors });
+    conversation.push(
+      { role: 'assistant', content: completion.content },
+      { role: 'user', content: repairPrompt(result.errors) }
+    );
+  }
+
+  throw new HttpError(
+    502,
+    'feedback_invalid',
+    "We couldn't produce reliable feedback for this session. Please try again in a moment.",
+    { attempts: rejected.length }
+  );
+}
@@ -0,0 +1,316 @@
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { stringify } from 'npm:yaml@2.5.1';
+import { authenticate, requireAdmin } from '../_shared/auth.ts';
+import { corsHeaders, errorResponse, HttpError, jsonResponse } from '../_shared/http.ts';
+import { backfillEmbeddings, docEmbedder, embedDoc } from '../_shared/docs.ts';
+import { PACK_FORMAT, PACK_VERSION, parsePack, type PackScenario, type ScenarioPack } from './schema.ts';
+
+type PackFormat = 'json' | 'yaml';
+
+/**
+ * What to do with a pack scenario whose id or title already exists: leave the existing one,
+ * overwrite it (including its docs), or import the pack's version alongside it under a new title.
+ */
+type ConflictStrategy = 'skip' | 'overwrite' | 'copy';
+
+type PacksRequest =
+  | { action: 'export'; scenario_ids?: string[]; format?: PackFormat; name?: string }
+  | { action: 'import'; source: string; on_conflict?: ConflictStrategy; dry_run?: boolean }
+  | { action: 'embed'; limit?: number; retry_failed?: boolean };
+
+interface ExistingScenario {
+  id: string;
+  title: string;
+  owner_id: string | null;
+}
+
+/** A scenario a pack scenario can clash with; the id is null for one a dry run would create without a fixed id. */
+interface KnownScenario {
+  id: string | null;
+  title: string;
+}
+
+/** What happened, or with `dry_run` what would happen, to one scenario in the pack. */
+interface ImportResult {
+  title: string;
+  outcome: 'created' | 'updated' | 'skipped' | 'copied';
+  scenario_id: string | null;
+  /**
+   * Set when the pack scenario clashed with an existing one, or with one earlier in the same pack
+   * (whose id is null on a dry run that kept no id).
+   */
+  conflict?: { scenario_id: string | null; title: string; on: 'id' | 'title' };
+}
+
+const CONFLICT_STRATEGIES: ConflictStrategy[] = ['skip', 'overwrite', 'copy'];
+
+/** Most docs one `embed` call will take on, so it finishes inside the function time limit. */
+const MAX_EMBED_LIMIT = 100;
+
+const SCENARIO_COLUMNS =
+  'id, title, description, objective, ai_persona, icon, difficulty_level, estimated_duration, is_active, rubric, goals, stages, personas, llm_config';
+
+async function exportPack(
+  supabase: SupabaseClient,
+  scenarioIds: string[] | undefined,
+  format: PackFormat,
+  name: string | undefined
+): Promise<{ filename: string; content: string }> {
+  // Private scenarios belong to the users who wrote them and never leave the environment
+  let query = supabase.from('scenario').select(SCENARIO_COLUMNS).is('owner_id', null).order('created_at');
+  if (scenarioIds && scenarioIds.length > 0) query = query.in('id', scenarioIds);
+
+  const { data: scenarios, error } = await query;
+  if (error) throw error;
+  if (!scenarios || scenarios.length === 0) {
+    throw new HttpError(404, 'scenarios_not_found', 'None of those scenarios exist');
+  }
+
+  const { data: docs, error: docsError } = await supabase
+    .from('scenario_doc')
+    .select('scenario_id, content, metadata')
+    .in('scenario_id', scenarios.map((scenario) => scenario.id))
+    .order('id');
+  if (docsError) throw docsError;
+
+  const pack: ScenarioPack = {
+    format: PACK_FORMAT,
+    version: PACK_VERSION,
+    ...(name ? { name } : {}),
+    exported_at: new Date().toISOString(),
+    scenarios: scenarios.map((scenario) => ({
+      ...scenario,
+      goals: Array.isArray(scenario.goals) ? scenario.goals : [],
+      stages: Array.isArray(scenario.stages) ? scenario.stages : [],
+      personas: Array.isArray(scenario.personas) ? scenario.personas : [],
+      docs: (docs ?? [])
+        .filter((doc) => doc.scenario_id === scenario.id)
+        .map(({ content, metadata }) => ({ content, metadata: metadata ?? {} })),
+    })) as PackScenario[],
+  };
+
+  const slug = (name ?? 'scenarios').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'scenarios';
+  return format === 'yaml'
+    ? { filename: `${slug}.pack.yaml`, content: stringify(pack, { lineWidth: 0 }) }
+    : { filename: `${slug}.pack.json`, content: JSON.stringify(pack, null, 2) };
+}
+
+/** The pack's scenario as a `scenario` row, with the defaults the table would apply. */
+function scenarioRow(scenario: PackScenario) {
+  return {
+    title: scenario.title.trim(),
+    description: scenario.description.trim(),
+    objective: scenario.objective.trim(),
+    ai_persona: scenario.ai_persona.trim(),
+    icon: scenario.icon ?? 'message-circle',
+    difficulty_level: scenario.difficulty_level ?? 'beginner',
+    estimated_duration: scenario.estimated_duration ?? 10,
+    is_active: scenario.is_active ?? true,
+    rubric: scenario.rubric,
+    goals: scenario.goals ?? [],
+    stages: scenario.stages ?? [],
+    personas: scenario.personas ?? [],
+    llm_config: scenario.llm_config ?? {},
+  };
+}
+
+/** A title no existing scenario uses: "Title (imported)", then "Title (imported 2)" and so on. */
+function copyTitle(title: string, taken: Set<string>): string {
+  for (let n = 1; ; n++) {
+    const candidate = `${title} (imported${n > 1 ? ` ${n}` : ''})`;
+    if (!taken.has(candidate.toLowerCase())) return candidate;
+  }
+}
+
+/**
+ * Inserts a scenario's knowledge chunks with fresh embeddings for this environment's model. When
+ * no embedder is configured they go in without one, for the `embed` backfill to fill in later;
+ * a doc that fails to embed goes in with the error recorded.
+ */
+async function insertDocs(supabase: SupabaseClient, scenarioId: string, scenario: PackScenario): Promise<number[]> {
+  const docs = scenario.docs ?? [];
+  if (docs.length === 0) return [];
+
+  const embedder = docEmbedder();
+  const rows = [];
+  for (const doc of docs) {
+    rows.push({
+      scenario_id: scenarioId,
+      content: doc.content,
+      metadata: doc.metadata ?? {},
+      ...(await embedDoc(embedder, doc.content)),
+    });
+  }
+
+  const { data, error } = await supabase.from('scenario_doc').insert(rows).select('id');
+  if (error) throw error;
+  return (data ?? []).map((row) => row.id);
+}
+
+/**
+ * Imports each scenario in turn. A scenario that fails part-way is rolled back (a new row is
+ * deleted; an overwrite keeps its old row and docs), and the error names the scenario it stopped at.
+ */
+async function importPack(
+  supabase: SupabaseClient,
+  pack: ScenarioPack,
+  strategy: ConflictStrategy,
+  dryRun: boolean
+): Promise<ImportResult[]> {
+  const { data, error } = await supabase.from('scenario').select('id, title, owner_id');
+  if (error) throw error;
+
+  // Only shared scenarios can conflict, but a private scenario's id still can't be reused
+  const existing = data as ExistingScenario[];
+  const shared = existing.filter((scenario) => scenario.owner_id === null);
+  const usedIds = new Set(existing.map((scenario) => scenario.id));
+  const byId = new Map<string, KnownScenario>(shared.map((scenario) => [scenario.id, scenario]));
+  const byTitle = new Map<string, KnownScenario>(shared.map((scenario) => [scenario.title.toLowerCase(), scenario]));
+  const takenTitles = new Set(byTitle.keys());
+  const results: ImportResult[] = [];
+
+  // Scenarios the import writes are tracked as it goes, so two in one pack conflict like any others
+  const remember = (known: KnownScenario) => {
+    byTitle.set(known.title.toLowerCase(), known);
+    takenTitles.add(known.title.toLowerCase());
+    if (known.id) {
+      byId.set(known.id, known);
+      usedIds.add(known.id);
+    }
+  };
+
+  for (const scenario of pack.scenarios) {
+    const row = scenarioRow(scenario);
+    const idMatch = scenario.id ? byId.get(scenario.id) : undefined;
+    const titleMatch = byTitle.get(row.title.toLowerCase());
+    const match = idMatch ?? titleMatch;
+    const conflict = match ? { scenario_id: match.id, title: match.title, on: idMatch ? ('id' as const) : ('title' as const) } : undefined;
+
+    if (match && strategy === 'skip') {
+      results.push({ title: row.title, outcome: 'skipped', scenario_id: match.id, conflict });
+      continue;
+    }
+
+    if (match && strategy === 'overwrite') {
+      if (!dryRun && match.id) {
+        let newDocIds: number[] = [];
+        let updated = false;
+        try {
+          const { data: oldDocs, error: oldDocsError } = await supabase.from('scenario_doc').select('id').eq('scenario_id', match.id);
+          if (oldDocsError) throw oldDocsError;
+
+          // New docs go in before the row changes, so until the update succeeds the old version is intact
+          newDocIds = await insertDocs(supabase, match.id, scenario);
+          const { error: updateError } = await supabase.from('scenario').update(row).eq('id', match.id);
+          if (updateError) throw updateError;
+          updated = true;
+
+          if (oldDocs && oldDocs.length > 0) {
+            const { error: deleteError } = await supabase
+              .from('scenario_doc')
+              .delete()
+              .in('id', oldDocs.map((doc) => doc.id));
+            if (deleteError) throw deleteError;
+          }
+        } catch (importError) {
+          if (!updated && newDocIds.length > 0) {
+            await supabase.from('scenario_doc').delete().in('id', newDocIds);
+          }
+          throw new HttpError(500, 'import_failed', `Import stopped at "${row.title}": ${importError.message}`, { results });
+        }
+      }
+      // The overwrite may have retitled it
+      if (byTitle.get(match.title.toLowerCase()) === match) byTitle.delete(match.title.toLowerCase());
+      remember({ id: match.id, title: row.title });
+      results.push({ title: row.title, outcome: 'updated', scenario_id: match.id, conflict });
+      continue;
+    }
+
+    // A new scenario, or a copy of a conflicting one under a title nobody uses
+    const title = match ? copyTitle(row.title, takenTitles) : row.title;
+    const keepId = scenario.id && !usedIds.has(scenario.id) ? scenario.id : null;
+
+    let scenarioId: string | null = null;
+    if (!dryRun) {
+      const { data: created, error: insertError } = await supabase
+        .from('scenario')
+        .insert({ ...(keepId ? { id: keepId } : {}), ...row, title })
+        .select('id')
+        .single();
+      if (insertError) {
+        throw new HttpError(500, 'import_failed', `Import stopped at "${row.title}": ${insertError.message}`, { results });
+      }
+      scenarioId = created.id;
+
+      try {
+        await insertDocs(supabase, created.id, scenario);
+      } catch (docsError) {
+        await supabase.from('scenario').delete().eq('id', created.id);
+        throw new HttpError(500, 'import_failed', `Import stopped at "${row.title}": ${docsError.message}`, { results });
+      }
+    }
+
+    remember({ id: scenarioId ?? keepId, title });
+    results.push({ title, outcome: match ? 'copied' : 'created', scenario_id: scenarioId, conflict });
+  }
+
+  return results;
+}
+
+/**
+ * Exports scenarios, with their rubrics, goals and knowledge chunks, as a versioned pack, and
+ * imports packs from other environments. `embed` fills in doc embeddings that are missing, e.g.
+ * for docs seeded by SQL; run it until nothing remains. Admins only.
+ */
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+    const user = await authenticate(req, supabase);
+    await requireAdmin(supabase, user.id);
+
+    const body: PacksRequest = await req.json();
+
+    if (body.action === 'export') {
+      const format = body.format === 'yaml' ? 'yaml' : 'json';
+      return jsonResponse(await exportPack(supabase, body.scenario_ids, format, body.name));
+    }
+
+    if (body.action === 'import') {
+      const strategy = body.on_conflict ?? 'skip';
+      if (!CONFLICT_STRATEGIES.includes(strategy)) {
+        throw new HttpError(400, 'invalid_request', `on_conflict must be one of: ${CONFLICT_STRATEGIES.join(', ')}`);
+      }
+
+      const { pack, errors } = parsePack(typeof body.source === 'string' ? body.source : '');
+      if (!pack) {
+        throw new HttpError(422, 'invalid_pack', `The pack has ${errors.length} problem${errors.length === 1 ? '' : 's'}`, { errors });
+      }
+
+      const results = await importPack(supabase, pack, strategy, Boolean(body.dry_run));
+      return jsonResponse({ dry_run: Boolean(body.dry_run), results });
+    }
+
+    if (body.action === 'embed') {
+      const embedder = docEmbedder();
+      if (!embedder) {
+        throw new HttpError(409, 'embedder_not_configured', 'Configure an embedding provider before backfilling embeddings');
+      }
+      const limit = typeof body.limit === 'number' && body.limit >= 1 ? Math.min(Math.floor(body.limit), MAX_EMBED_LIMIT) : undefined;
+      return jsonResponse(await backfillEmbeddings(supabase, embedder, { limit, retryFailed: Boolean(body.retry_failed) }));
+    }
+
+    throw new HttpError(400, 'invalid_request', 'action must be "export", "import" or "embed"');
+  } catch (error) {
+    console.error('Packs error:', error);
+    return errorResponse(error);
+  }
+});
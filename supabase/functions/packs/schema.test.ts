@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { parsePack } from './schema.ts';
+
+const VALID_PACK = `format: ai-coach-scenario-pack
+version: 1
+scenarios:
+  - title: Salary Negotiation
+    description: Negotiate an offer.
+    objective: Agree a higher salary.
+    ai_persona: A hiring manager with a fixed budget.
+    rubric:
+      dimensions:
+        - key: clarity
+          label: Clarity
+          description: Clear asks
+          weight: 1
+          scale: { min: 0, max: 5 }
+`;
+
+Deno.test('parsePack accepts a valid YAML pack', () => {
+  const { pack, errors } = parsePack(VALID_PACK);
+
+  assert.deepEqual(errors, []);
+  assert.equal(pack?.scenarios[0].title, 'Salary Negotiation');
+});
+
+Deno.test('parsePack reports a bad value on its own line', () => {
+  const { pack, errors } = parsePack(VALID_PACK.replace('weight: 1', 'weight: -1'));
+
+  assert.equal(pack, null);
+  assert.deepEqual(errors, [
+    { line: 13, path: 'scenarios[0].rubric.dimensions[0].weight', message: 'weight must be a positive number' },
+  ]);
+});
+
+Deno.test('parsePack reports a missing field on the line of the object that should contain it', () => {
+  const { errors } = parsePack(VALID_PACK.replace('    objective: Agree a higher salary.\n', ''));
+
+  assert.deepEqual(errors, [
+    { line: 4, path: 'scenarios[0].objective', message: 'objective is required and must be non-empty text' },
+  ]);
+});
+
+Deno.test('parsePack reports JSON syntax errors with their line', () => {
+  const { pack, errors } = parsePack('{\n  "format": "ai-coach-scenario-pack",\n  "version": 1,\n  "scenarios": [\n}');
+
+  assert.equal(pack, null);
+  assert.equal(errors[0].line, 5);
+});
+
+Deno.test('parsePack rejects an empty file without a line', () => {
+  assert.deepEqual(parsePack('  \n').errors, [{ line: null, path: '', message: 'The pack is empty' }]);
+});
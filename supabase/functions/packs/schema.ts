@@ -0,0 +1,345 @@
+import { isNode, LineCounter, parseDocument } from 'npm:yaml@2.5.1';
+
+export const PACK_FORMAT = 'ai-coach-scenario-pack';
+
+/** Bump when the pack shape changes incompatibly; older versions must keep importing. */
+export const PACK_VERSION = 1;
+
+const SUPPORTED_VERSIONS = [1];
+
+const DIFFICULTY_LEVELS = ['beginner', 'intermediate', 'advanced'];
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const KEY = /^[a-z][a-z0-9_]*$/;
+
+export interface PackDimension {
+  key: string;
+  label: string;
+  description: string;
+  weight: number;
+  scale: { min: number; max: number };
+}
+
+export interface PackGoal {
+  key: string;
+  label: string;
+  cues: string[];
+  question?: boolean;
+}
+
+export interface PackStageCondition {
+  min_turns?: number;
+  goals?: string[];
+  cues?: string[];
+}
+
+export interface PackStage {
+  key: string;
+  label: string;
+  persona: string;
+  entry?: PackStageCondition;
+  exit?: PackStageCondition;
+  max_turns?: number | null;
+}
+
+export interface PackPersona {
+  key: string;
+  name: string;
+  role: string;
+  agenda?: string;
+  temperament?: string;
+}
+
+/** A `scenario_doc` knowledge chunk. Embeddings aren't portable between models, so they're recomputed on import. */
+export interface PackDoc {
+  content: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface PackScenario {
+  /** Kept on import when no scenario in the target environment uses it yet. */
+  id?: string;
+  title: string;
+  description: string;
+  objective: string;
+  ai_persona: string;
+  icon?: string;
+  difficulty_level?: string;
+  estimated_duration?: number;
+  is_active?: boolean;
+  rubric: { dimensions: PackDimension[] };
+  goals?: PackGoal[];
+  stages?: PackStage[];
+  personas?: PackPersona[];
+  llm_config?: Record<string, unknown>;
+  docs?: PackDoc[];
+}
+
+export interface ScenarioPack {
+  format: typeof PACK_FORMAT;
+  version: number;
+  name?: string;
+  exported_at?: string;
+  scenarios: PackScenario[];
+}
+
+/** One problem with a pack, located in the source so authors can fix it in their own file. */
+export interface PackError {
+  /** 1-based; null when the problem has no position, e.g. an empty file. */
+  line: number | null;
+  path: string;
+  message: string;
+}
+
+type Path = (string | number)[];
+
+const formatPath = (path: Path) =>
+  path.reduce<string>((text, part) => (typeof part === 'number' ? `${text}[${part}]` : text ? `${text}.${part}` : part), '');
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const isText = (value: unknown) => typeof value === 'string' && value.trim() !== '';
+
+/** Checks a parsed pack, returning each problem with the path of the value it concerns. */
+function validatePack(pack: unknown): { path: Path; message: string }[] {
+  const problems: { path: Path; message: string }[] = [];
+  const fail = (path: Path, message: string) => problems.push({ path, message });
+
+  if (!isObject(pack)) {
+    fail([], 'A pack must be an object with format, version and scenarios');
+    return problems;
+  }
+  if (pack.format !== PACK_FORMAT) fail(['format'], `format must be "${PACK_FORMAT}"`);
+  if (!SUPPORTED_VERSIONS.includes(pack.version as number)) {
+    fail(['version'], `version must be one of: ${SUPPORTED_VERSIONS.join(', ')}`);
+  }
+  if (!Array.isArray(pack.scenarios) || pack.scenarios.length === 0) {
+    fail(['scenarios'], 'scenarios must be a non-empty list');
+    return problems;
+  }
+
+  const titles = new Set<string>();
+  const ids = new Set<string>();
+
+  pack.scenarios.forEach((scenario: unknown, index: number) => {
+    const at = (...rest: Path): Path => ['scenarios', index, ...rest];
+    if (!isObject(scenario)) {
+      fail(at(), 'Each scenario must be an object');
+      return;
+    }
+
+    for (const field of ['title', 'description', 'objective', 'ai_persona']) {
+      if (!isText(scenario[field])) fail(at(field), `${field} is required and must be non-empty text`);
+    }
+    if (isText(scenario.title)) {
+      const title = String(scenario.title).trim().toLowerCase();
+      if (titles.has(title)) fail(at('title'), `Another scenario in this pack is also titled "${scenario.title}"`);
+      titles.add(title);
+    }
+    if (scenario.id !== undefined) {
+      if (typeof scenario.id !== 'string' || !UUID.test(scenario.id)) fail(at('id'), 'id must be a UUID');
+      else if (ids.has(scenario.id)) fail(at('id'), 'Another scenario in this pack has the same id');
+      else ids.add(scenario.id);
+    }
+    if (scenario.icon !== undefined && !isText(scenario.icon)) fail(at('icon'), 'icon must be non-empty text');
+    if (scenario.difficulty_level !== undefined && !DIFFICULTY_LEVELS.includes(scenario.difficulty_level as string)) {
+      fail(at('difficulty_level'), `difficulty_level must be one of: ${DIFFICULTY_LEVELS.join(', ')}`);
+    }
+    if (
+      scenario.estimated_duration !== undefined &&
+      !(Number.isInteger(scenario.estimated_duration) && (scenario.estimated_duration as number) > 0)
+    ) {
+      fail(at('estimated_duration'), 'estimated_duration must be a whole number of minutes');
+    }
+    if (scenario.is_active !== undefined && typeof scenario.is_active !== 'boolean') {
+      fail(at('is_active'), 'is_active must be true or false');
+    }
+    if (scenario.llm_config !== undefined && !isObject(scenario.llm_config)) {
+      fail(at('llm_config'), 'llm_config must be an object');
+    }
+
+    const dimensions = isObject(scenario.rubric) ? scenario.rubric.dimensions : undefined;
+    if (!Array.isArray(dimensions) || dimensions.length === 0) {
+      fail(at('rubric'), 'rubric must have a non-empty dimensions list');
+    } else {
+      const keys = new Set<string>();
+      dimensions.forEach((dimension: unknown, d: number) => {
+        const dimensionAt = (...rest: Path) => at('rubric', 'dimensions', d, ...rest);
+        if (!isObject(dimension)) {
+          fail(dimensionAt(), 'Each dimension must be an object');
+          return;
+        }
+        if (typeof dimension.key !== 'string' || !KEY.test(dimension.key)) {
+          fail(dimensionAt('key'), 'key must be lowercase letters, digits and underscores, starting with a letter');
+        } else if (keys.has(dimension.key)) {
+          fail(dimensionAt('key'), `Another dimension also uses the key "${dimension.key}"`);
+        } else {
+          keys.add(dimension.key);
+        }
+        if (!isText(dimension.label)) fail(dimensionAt('label'), 'label is required');
+        if (typeof dimension.description !== 'string') fail(dimensionAt('description'), 'description must be text');
+        if (!(typeof dimension.weight === 'number' && dimension.weight > 0)) {
+          fail(dimensionAt('weight'), 'weight must be a positive number');
+        }
+        const scale = dimension.scale;
+        if (!isObject(scale) || typeof scale.min !== 'number' || typeof scale.max !== 'number' || scale.max <= scale.min) {
+          fail(dimensionAt('scale'), 'scale must have numeric min and max, with max above min');
+        }
+      });
+    }
+
+    if (scenario.goals !== undefined) {
+      if (!Array.isArray(scenario.goals)) {
+        fail(at('goals'), 'goals must be a list');
+      } else {
+        const keys = new Set<string>();
+        scenario.goals.forEach((goal: unknown, g: number) => {
+          const goalAt = (...rest: Path) => at('goals', g, ...rest);
+          if (!isObject(goal)) {
+            fail(goalAt(), 'Each goal must be an object');
+            return;
+          }
+          if (typeof goal.key !== 'string' || !KEY.test(goal.key)) {
+            fail(goalAt('key'), 'key must be lowercase letters, digits and underscores, starting with a letter');
+          } else if (keys.has(goal.key)) {
+            fail(goalAt('key'), `Another goal also uses the key "${goal.key}"`);
+          } else {
+            keys.add(goal.key);
+          }
+          if (!isText(goal.label)) fail(goalAt('label'), 'label is required');
+          if (!Array.isArray(goal.cues) || !goal.cues.every(isText)) fail(goalAt('cues'), 'cues must be a list of phrases');
+          if (goal.question !== undefined && typeof goal.question !== 'boolean') {
+            fail(goalAt('question'), 'question must be true or false');
+          }
+        });
+      }
+    }
+
+    if (scenario.stages !== undefined) {
+      if (!Array.isArray(scenario.stages)) {
+        fail(at('stages'), 'stages must be a list');
+      } else {
+        const goalKeys = Array.isArray(scenario.goals)
+          ? scenario.goals.map((goal: unknown) => (isObject(goal) ? goal.key : undefined))
+          : [];
+        const keys = new Set<string>();
+        scenario.stages.forEach((stage: unknown, t: number) => {
+          const stageAt = (...rest: Path) => at('stages', t, ...rest);
+          if (!isObject(stage)) {
+            fail(stageAt(), 'Each stage must be an object');
+            return;
+          }
+          if (typeof stage.key !== 'string' || !KEY.test(stage.key)) {
+            fail(stageAt('key'), 'key must be lowercase letters, digits and underscores, starting with a letter');
+          } else if (keys.has(stage.key)) {
+            fail(stageAt('key'), `Another stage also uses the key "${stage.key}"`);
+          } else {
+            keys.add(stage.key);
+          }
+          if (!isText(stage.label)) fail(stageAt('label'), 'label is required');
+          if (!isText(stage.persona)) fail(stageAt('persona'), 'persona is required');
+          if (stage.max_turns !== undefined && stage.max_turns !== null && !(Number.isInteger(stage.max_turns) && (stage.max_turns as number) > 0)) {
+            fail(stageAt('max_turns'), 'max_turns must be a positive whole number or null');
+          }
+          for (const side of ['entry', 'exit']) {
+            const condition = stage[side];
+            if (condition === undefined) continue;
+            if (!isObject(condition)) {
+              fail(stageAt(side), `${side} must be an object`);
+              continue;
+            }
+            if (condition.min_turns !== undefined && !(Number.isInteger(condition.min_turns) && (condition.min_turns as number) > 0)) {
+              fail(stageAt(side, 'min_turns'), 'min_turns must be a positive whole number');
+            }
+            if (condition.goals !== undefined && (!Array.isArray(condition.goals) || !condition.goals.every((key) => goalKeys.includes(key)))) {
+              fail(stageAt(side, 'goals'), "goals must list keys of this scenario's goals");
+            }
+            if (condition.cues !== undefined && (!Array.isArray(condition.cues) || !condition.cues.every(isText))) {
+              fail(stageAt(side, 'cues'), 'cues must be a list of phrases');
+            }
+          }
+        });
+      }
+    }
+
+    if (scenario.personas !== undefined) {
+      if (!Array.isArray(scenario.personas)) {
+        fail(at('personas'), 'personas must be a list');
+      } else {
+        const keys = new Set<string>();
+        scenario.personas.forEach((persona: unknown, p: number) => {
+          const personaAt = (...rest: Path) => at('personas', p, ...rest);
+          if (!isObject(persona)) {
+            fail(personaAt(), 'Each persona must be an object');
+            return;
+          }
+          if (typeof persona.key !== 'string' || !KEY.test(persona.key)) {
+            fail(personaAt('key'), 'key must be lowercase letters, digits and underscores, starting with a letter');
+          } else if (keys.has(persona.key)) {
+            fail(personaAt('key'), `Another persona also uses the key "${persona.key}"`);
+          } else {
+            keys.add(persona.key);
+          }
+          if (!isText(persona.name)) fail(personaAt('name'), 'name is required');
+          if (!isText(persona.role)) fail(personaAt('role'), 'role is required');
+          for (const field of ['agenda', 'temperament']) {
+            if (persona[field] !== undefined && typeof persona[field] !== 'string') fail(personaAt(field), `${field} must be text`);
+          }
+        });
+      }
+    }
+
+    if (scenario.docs !== undefined) {
+      if (!Array.isArray(scenario.docs)) {
+        fail(at('docs'), 'docs must be a list');
+      } else {
+        scenario.docs.forEach((doc: unknown, k: number) => {
+          if (!isObject(doc) || !isText(doc.content)) fail(at('docs', k, 'content'), 'Each doc needs non-empty content');
+          else if (doc.metadata !== undefined && !isObject(doc.metadata)) fail(at('docs', k, 'metadata'), 'metadata must be an object');
+        });
+      }
+    }
+  });
+
+  return problems;
+}
+
+/**
+ * Parses and validates a pack written in JSON or YAML. Every problem is reported with the line
+ * it is on; a missing field is reported on the line of the object that should contain it.
+ */
+export function parsePack(source: string): { pack: ScenarioPack | null; errors: PackError[] } {
+  if (!source.trim()) {
+    return { pack: null, errors: [{ line: null, path: '', message: 'The pack is empty' }] };
+  }
+
+  // JSON is valid YAML except for tab indentation; swapping it for spaces keeps every line number
+  const yamlSource = source.replace(/^\t+/gm, (tabs) => '  '.repeat(tabs.length));
+  const lineCounter = new LineCounter();
+  const document = parseDocument(yamlSource, { lineCounter, uniqueKeys: true });
+
+  if (document.errors.length > 0) {
+    return {
+      pack: null,
+      errors: document.errors.map((error) => ({
+        line: error.linePos?.[0].line ?? null,
+        path: '',
+        message: error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, ''),
+      })),
+    };
+  }
+
+  const lineOf = (path: Path): number | null => {
+    for (let depth = path.length; depth >= 0; depth--) {
+      const node = depth === 0 ? document.contents : document.getIn(path.slice(0, depth), true);
+      if (isNode(node) && node.range) return lineCounter.linePos(node.range[0]).line;
+    }
+    return null;
+  };
+
+  const pack = document.toJS();
+  const errors = validatePack(pack).map(({ path, message }) => ({ line: lineOf(path), path: formatPath(path), message }));
+
+  return errors.length > 0 ? { pack: null, errors } : { pack: pack as ScenarioPack, errors: [] };
+}
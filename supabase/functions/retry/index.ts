@@ -0,0 +1,113 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { authenticate, loadOwnedSession } from '../_shared/auth.ts';
+import { corsHeaders, errorResponse, HttpError, jsonResponse } from '../_shared/http.ts';
+
+interface RetryRequest {
+  session_id: string;
+  /** The user message to replay from; it and everything after it are left out of the copy. */
+  message_id: number;
+}
+
+interface RetrySession {
+  scenario_id: string;
+  current_difficulty: string | null;
+  scenario: { title: string };
+}
+
+interface CopiedMessage {
+  id: number;
+  turn_id: string | null;
+  role: string;
+  persona: string | null;
+  content: string;
+  metadata: Record<string, unknown> | null;
+  created_at: string;
+}
+
+/**
+ * Branches a session just before one of the user's turns: a new session with the same scenario
+ * and a copy of the earlier messages, ready for the user to take that turn again.
+ */
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+    const user = await authenticate(req, supabase);
+    const { session_id, message_id }: RetryRequest = await req.json();
+
+    if (!session_id || typeof message_id !== 'number') {
+      throw new HttpError(400, 'invalid_request', 'session_id and message_id are required');
+    }
+
+    const session = await loadOwnedSession<RetrySession>(
+      supabase,
+      session_id,
+      user.id,
+      'scenario_id, current_difficulty, scenario(title)'
+    );
+
+    const { data: messages, error: messagesError } = await supabase
+      .from('message')
+      .select('id, turn_id, role, persona, content, metadata, created_at')
+      .eq('session_id', session_id)
+      .order('created_at');
+
+    if (messagesError) throw messagesError;
+
+    const history = (messages || []) as CopiedMessage[];
+    const index = history.findIndex((message) => message.id === message_id && message.role === 'user');
+    if (index === -1) {
+      throw new HttpError(404, 'message_not_found', 'That message is not one of your turns in this session');
+    }
+
+    const { data: branch, error: branchError } = await supabase
+      .from('session')
+      .insert({
+        user_id: user.id,
+        scenario_id: session.scenario_id,
+        status: 'active',
+        current_difficulty: session.current_difficulty,
+        // The retried turn is taken again in the stage it was first spoken in
+        current_stage: typeof history[index].metadata?.stage === 'string' ? history[index].metadata?.stage : null,
+        branched_from_session_id: session_id,
+        branched_from_message_id: message_id,
+      })
+      .select('id')
+      .single();
+
+    if (branchError) throw branchError;
+
+    // Original timestamps keep the copied history in order ahead of the retried turn
+    if (index > 0) {
+      const { error: copyError } = await supabase.from('message').insert(
+        history.slice(0, index).map((message) => ({
+          session_id: branch.id,
+          turn_id: message.turn_id,
+          role: message.role,
+          persona: message.persona,
+          content: message.content,
+          metadata: message.metadata ?? {},
+          created_at: message.created_at,
+        }))
+      );
+
+      if (copyError) {
+        await supabase.from('session').delete().eq('id', branch.id);
+        throw copyError;
+      }
+    }
+
+    return jsonResponse({ session_id: branch.id, scenario_title: session.scenario.title });
+  } catch (error) {
+    console.error('Retry error:', error);
+    return errorResponse(error);
+  }
+});
@@ -0,0 +1,40 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { authenticate } from '../_shared/auth.ts';
+import { corsHeaders, errorResponse, jsonResponse } from '../_shared/http.ts';
+import { getUsageLimits, getUsageSummary } from '../_shared/usage.ts';
+
+const remaining = (limit: number | null, used: number) => (limit === null ? null : Math.max(0, limit - used));
+
+/** Reports the caller's AI allowance: limits, usage so far and what is left (`null` = unlimited). */
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+    const user = await authenticate(req, supabase);
+
+    const [limits, used] = await Promise.all([
+      getUsageLimits(supabase, user.id),
+      getUsageSummary(supabase, user.id),
+    ]);
+
+    return jsonResponse({
+      limits,
+      used,
+      remaining: {
+        daily_tokens: remaining(limits.daily_tokens, used.daily_tokens),
+        monthly_tokens: remaining(limits.monthly_tokens, used.monthly_tokens),
+      },
+    });
+  } catch (error) {
+    console.error('Usage error:', error);
+    return errorResponse(error);
+  }
+});
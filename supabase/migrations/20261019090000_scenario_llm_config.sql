@@ -0,0 +1,17 @@
+/*
+  # Per-scenario LLM configuration
+
+  Lets a scenario pick the provider, model, temperature and max_tokens used by the
+  chat and feedback Edge Functions. Values here override the LLM_* environment defaults.
+
+  Shape:
+    {
+      "chat":     { "provider": "anthropic", "model": "claude-3-5-haiku-latest", "temperature": 0.9 },
+      "feedback": { "model": "gpt-4o", "temperature": 0.2, "max_tokens": 800 }
+    }
+*/
+
+ALTER TABLE scenario ADD COLUMN IF NOT EXISTS llm_config jsonb DEFAULT '{}';
+
+COMMENT ON COLUMN scenario.llm_config IS 'Per-purpose (chat/feedback) LLM overrides: provider, model, temperature, max_tokens, base_url';
+
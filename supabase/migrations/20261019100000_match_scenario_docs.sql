@@ -0,0 +1,38 @@
+/*
+  # Scenario document similarity search
+
+  Adds the `match_scenario_docs` RPC used by the chat Edge Function to retrieve the
+  `scenario_doc` chunks most similar to the latest user turn (cosine similarity over
+  the ivfflat-indexed `embedding` column). Rows without an embedding are skipped.
+*/
+
+CREATE OR REPLACE FUNCTION match_scenario_docs(
+  query_embedding vector(1536),
+  target_scenario_id uuid,
+  match_count integer DEFAULT 3,
+  min_similarity double precision DEFAULT 0.3
+)
+RETURNS TABLE (
+  id bigint,
+  content text,
+  metadata jsonb,
+  similarity double precision
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    sd.id,
+    sd.content,
+    sd.metadata,
+    1 - (sd.embedding <=> query_embedding) AS similarity
+  FROM scenario_doc sd
+  WHERE sd.scenario_id = target_scenario_id
+    AND sd.embedding IS NOT NULL
+    AND 1 - (sd.embedding <=> query_embedding) >= min_similarity
+  ORDER BY sd.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
+
+GRANT EXECUTE ON FUNCTION match_scenario_docs(vector, uuid, integer, double precision) TO authenticated, service_role;
+
+COMMENT ON FUNCTION match_scenario_docs IS 'Top-k scenario_doc chunks for a scenario by cosine similarity to query_embedding';
@@ -0,0 +1,18 @@
+/*
+  # Server-owned, idempotent conversation turns
+
+  The chat Edge Function now stores both halves of every turn. Each turn carries a
+  client-supplied `turn_id` idempotency key so retries and double submits never create
+  duplicate rows. The opening persona message uses the session id as its turn id.
+
+  Clients no longer insert messages directly, so the insert policy is dropped.
+*/
+
+ALTER TABLE message ADD COLUMN IF NOT EXISTS turn_id uuid;
+
+ALTER TABLE message
+  ADD CONSTRAINT message_session_turn_role_key UNIQUE (session_id, turn_id, role);
+
+DROP POLICY IF EXISTS "Users can create messages in own sessions" ON message;
+
+COMMENT ON COLUMN message.turn_id IS 'Client-supplied idempotency key shared by the user and assistant halves of a turn';
@@ -0,0 +1,89 @@
+/*
+  # AI usage ledger, quotas and rate limits
+
+  ## New Tables
+
+  ### usage_ledger
+  One row per chat or feedback model call: prompt/completion tokens, model, latency and
+  estimated cost. Written by the Edge Functions with the service role; users can read their own rows.
+
+  ### usage_quota
+  Optional per-user overrides of the daily/monthly token quotas and request rate limit.
+  Users without a row get the QUOTA_DAILY_TOKENS, QUOTA_MONTHLY_TOKENS and
+  RATE_LIMIT_PER_MINUTE Edge Function defaults. NULL means "use the default".
+
+  ## Functions
+  - get_usage_summary(user) - tokens used today and this month (UTC) plus requests in the last minute
+*/
+
+CREATE TABLE IF NOT EXISTS usage_ledger (
+  id bigserial PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES app_user(id) ON DELETE CASCADE,
+  session_id uuid REFERENCES session(id) ON DELETE SET NULL,
+  purpose text NOT NULL CHECK (purpose IN ('chat', 'feedback')),
+  provider text NOT NULL,
+  model text NOT NULL,
+  prompt_tokens integer NOT NULL DEFAULT 0,
+  completion_tokens integer NOT NULL DEFAULT 0,
+  total_tokens integer GENERATED ALWAYS AS (prompt_tokens + completion_tokens) STORED,
+  latency_ms integer NOT NULL DEFAULT 0,
+  cost_usd numeric(12, 6) NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE usage_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_usage_ledger_user_created ON usage_ledger(user_id, created_at DESC);
+
+CREATE POLICY "Users can view own usage"
+  ON usage_ledger FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TABLE IF NOT EXISTS usage_quota (
+  user_id uuid PRIMARY KEY REFERENCES app_user(id) ON DELETE CASCADE,
+  daily_token_limit integer CHECK (daily_token_limit > 0),
+  monthly_token_limit integer CHECK (monthly_token_limit > 0),
+  requests_per_minute integer CHECK (requests_per_minute > 0),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE usage_quota ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_usage_quota_updated_at BEFORE UPDATE ON usage_quota FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE POLICY "Users can view own quota"
+  ON usage_quota FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION get_usage_summary(target_user_id uuid)
+RETURNS TABLE (
+  daily_tokens bigint,
+  monthly_tokens bigint,
+  requests_last_minute bigint
+)
+LANGUAGE sql STABLE
+AS $$
+  WITH bounds AS (
+    SELECT
+      date_trunc('day', now() AT TIME ZONE 'utc') AT TIME ZONE 'utc' AS day_start,
+      date_trunc('month', now() AT TIME ZONE 'utc') AT TIME ZONE 'utc' AS month_start,
+      now() - interval '1 minute' AS minute_start
+  )
+  SELECT
+    COALESCE(SUM(ul.total_tokens) FILTER (WHERE ul.created_at >= b.day_start), 0)::bigint,
+    COALESCE(SUM(ul.total_tokens) FILTER (WHERE ul.created_at >= b.month_start), 0)::bigint,
+    COUNT(*) FILTER (WHERE ul.created_at >= b.minute_start)
+  FROM bounds b
+  LEFT JOIN usage_ledger ul
+    ON ul.user_id = target_user_id
+    AND ul.created_at >= LEAST(b.month_start, b.minute_start);
+$$;
+
+-- Takes an arbitrary user id, so only the Edge Functions may call it
+REVOKE EXECUTE ON FUNCTION get_usage_summary(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_usage_summary(uuid) TO service_role;
+
+COMMENT ON TABLE usage_ledger IS 'Token usage, latency and estimated cost of every AI call, per user';
+COMMENT ON TABLE usage_quota IS 'Per-user overrides of AI token quotas and request rate limits';
@@ -0,0 +1,13 @@
+/*
+  # Rolling conversation summary
+
+  Long sessions no longer resend every message. The chat Edge Function folds older turns into a
+  persona-perspective summary stored on the session, and only sends messages after
+  `summary_through_message_id` verbatim.
+*/
+
+ALTER TABLE session ADD COLUMN IF NOT EXISTS conversation_summary text;
+ALTER TABLE session ADD COLUMN IF NOT EXISTS summary_through_message_id bigint;
+
+COMMENT ON COLUMN session.conversation_summary IS 'Persona-perspective running summary of turns up to summary_through_message_id';
+COMMENT ON COLUMN session.summary_through_message_id IS 'Last message folded into conversation_summary; later messages are sent verbatim';
@@ -0,0 +1,15 @@
+/*
+  # Adaptive difficulty
+
+  The chat Edge Function turns `scenario.difficulty_level` into concrete persona behaviour and
+  moves it up or down during a session based on a per-turn assessment of the user.
+  `current_difficulty` holds the live level; NULL means the scenario's starting level.
+
+  Per-turn assessments are stored on user `message.metadata.assessment` and level changes on the
+  assistant `message.metadata.difficulty_change`, so feedback can account for them.
+*/
+
+ALTER TABLE session ADD COLUMN IF NOT EXISTS current_difficulty text
+  CHECK (current_difficulty IN ('beginner', 'intermediate', 'advanced'));
+
+COMMENT ON COLUMN session.current_difficulty IS 'Live persona difficulty; NULL until the first adjustment (uses scenario.difficulty_level)';
@@ -0,0 +1,83 @@
+/*
+  # Rubric-driven scoring dimensions
+
+  `scenario.rubric` now defines the dimensions the feedback Edge Function scores, so each
+  scenario can grade the skills it actually practises. The legacy shape (a map of
+  dimension key to description) is still accepted and scored on a 0-5 scale.
+
+  Shape:
+    {
+      "dimensions": [
+        { "key": "value_framing", "label": "Value Framing", "description": "...", "weight": 2, "scale": { "min": 0, "max": 5 } }
+      ]
+    }
+
+  `feedback.rubric` snapshots the dimensions a session was graded against, so history
+  renders correctly after a scenario's rubric changes. NULL means the legacy
+  clarity/empathy/assertiveness set.
+*/
+
+ALTER TABLE feedback ADD COLUMN IF NOT EXISTS rubric jsonb;
+
+COMMENT ON COLUMN scenario.rubric IS 'Scored dimensions: { dimensions: [{ key, label, description, weight, scale: { min, max } }] }';
+COMMENT ON COLUMN feedback.rubric IS 'Dimensions this feedback was scored against; NULL for legacy clarity/empathy/assertiveness scores';
+
+UPDATE scenario SET rubric = '{"dimensions": [
+  {"key": "clarity", "label": "Clarity", "description": "Clear, structured answers that get to the point", "weight": 1, "scale": {"min": 0, "max": 5}},
+  {"key": "evidence", "label": "Evidence", "description": "Backs claims with concrete examples and results", "weight": 1, "scale": {"min": 0, "max": 5}},
+  {"key": "composure", "label": "Composure", "description": "Stays confident and professional under follow-up questions", "weight": 1, "scale": {"min": 0, "max": 5}}
+]}'
+WHERE title = 'Job Interview Practice';
+
+UPDATE scenario SET rubric = '{"dimensions": [
+  {"key": "clarity", "label": "Clarity", "description": "Names the problem and its impact clearly", "weight": 1, "scale": {"min": 0, "max": 5}},
+  {"key": "empathy", "label": "Empathy", "description": "Acknowledges the other person''s perspective and feelings", "weight": 1.5, "scale": {"min": 0, "max": 5}},
+  {"key": "assertiveness", "label": "Assertiveness", "description": "Holds their position respectfully", "weight": 1, "scale": {"min": 0, "max": 5}},
+  {"key": "resolution", "label": "Resolution", "description": "Moves towards a concrete, mutually acceptable outcome", "weight": 1, "scale": {"min": 0, "max": 5}}
+]}'
+WHERE title = 'Conflict Resolution';
+
+UPDATE scenario SET rubric = '{"dimensions": [
+  {"key": "clarity", "label": "Clarity", "description": "Delivers a clear, well-structured message", "weight": 1, "scale": {"min": 0, "max": 5}},
+  {"key": "engagement", "label": "Audience Engagement", "description": "Connects with the audience and adapts to their interest", "weight": 1, "scale": {"min": 0, "max": 5}},
+  {"key": "handling_questions", "label": "Handling Questions", "description": "Answers challenging questions directly and calmly", "weight": 1, "scale": {"min": 0, "max": 5}}
+]}'
+WHERE title = 'Public Speaking';
+
+UPDATE scenario SET rubric = '{"dimensions": [
+  {"key": "introduction", "label": "Self-Introduction", "description": "Introduces themself clearly and memorably", "weight": 1, "scale": {"min": 0, "max": 5}},
+  {"key": "curiosity", "label": "Curiosity", "description": "Shows genuine interest and asks good questions", "weight": 1, "scale": {"min": 0, "max": 5}},
+  {"key": "initiative", "label": "Initiative", "description": "Starts and steers the conversation towards a next step", "weight": 1, "scale": {"min": 0, "max": 5}}
+]}'
+WHERE title = 'Networking Event';
+
+UPDATE scenario SET rubric = '{"dimensions": [
+  {"key": "direction", "label": "Direction", "description": "Sets clear goals and expectations", "weight": 1.5, "scale": {"min": 0, "max": 5}},
+  {"key": "empathy", "label": "Empathy", "description": "Understands and responds to the team member''s needs", "weight": 1, "scale": {"min": 0, "max": 5}},
+  {"key": "decisiveness", "label": "Decisiveness", "description": "Makes and owns decisions with confidence", "weight": 1, "scale": {"min": 0, "max": 5}}
+]}'
+WHERE title = 'Team Leadership';
+
+UPDATE scenario SET rubric = '{"dimensions": [
+  {"key": "de_escalation", "label": "De-escalation", "description": "Lowers the temperature: acknowledges frustration without defensiveness", "weight": 2, "scale": {"min": 0, "max": 5}},
+  {"key": "problem_solving", "label": "Problem Solving", "description": "Identifies the issue and offers a concrete fix", "weight": 1, "scale": {"min": 0, "max": 5}},
+  {"key": "boundaries", "label": "Professional Boundaries", "description": "Stays courteous while being clear about what can and cannot be done", "weight": 1, "scale": {"min": 0, "max": 5}}
+]}'
+WHERE title = 'Customer Service';
+
+INSERT INTO scenario (title, description, objective, rubric, ai_persona, icon, difficulty_level, estimated_duration)
+SELECT
+  'Sales Negotiation',
+  'Negotiate a deal with a cost-conscious buyer. Practice framing value, handling objections and protecting your margin.',
+  'Close a deal that works for both sides by framing value instead of conceding on price.',
+  '{"dimensions": [
+    {"key": "value_framing", "label": "Value Framing", "description": "Ties the offer to outcomes the buyer cares about instead of features or price", "weight": 2, "scale": {"min": 0, "max": 5}},
+    {"key": "objection_handling", "label": "Objection Handling", "description": "Explores and addresses objections rather than dismissing them", "weight": 1.5, "scale": {"min": 0, "max": 5}},
+    {"key": "concessions", "label": "Concession Discipline", "description": "Trades concessions for something in return and protects margin", "weight": 1, "scale": {"min": 0, "max": 5}},
+    {"key": "closing", "label": "Closing", "description": "Asks for commitment and agrees on next steps", "weight": 1, "scale": {"min": 0, "max": 5}}
+  ]}',
+  'I am a procurement manager comparing your offer against two competitors. I am polite but push hard on price and will ask for discounts before committing to anything.',
+  'trending-up',
+  'intermediate',
+  15
+WHERE NOT EXISTS (SELECT 1 FROM scenario WHERE title = 'Sales Negotiation');
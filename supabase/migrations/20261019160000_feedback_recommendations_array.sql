@@ -0,0 +1,26 @@
+/*
+  # Structured feedback recommendations
+
+  The feedback Edge Function now validates the model's output against a schema and stores
+  recommendations as a JSON array of strings instead of one newline-delimited string.
+  Existing rows are split on newlines, with the leading bullet of each line removed.
+
+  `feedback.detailed_analysis` holds the validated output together with the raw model reply
+  and any rejected attempts, for auditing.
+*/
+
+ALTER TABLE feedback ADD COLUMN IF NOT EXISTS recommendations_list jsonb NOT NULL DEFAULT '[]';
+
+UPDATE feedback f
+SET recommendations_list = COALESCE((
+  SELECT jsonb_agg(regexp_replace(btrim(line), '^[•*-]\s*', '') ORDER BY position)
+  FROM regexp_split_to_table(f.recommendations, E'\n') WITH ORDINALITY AS lines(line, position)
+  WHERE btrim(line) <> ''
+), '[]');
+
+ALTER TABLE feedback DROP COLUMN recommendations;
+ALTER TABLE feedback RENAME COLUMN recommendations_list TO recommendations;
+ALTER TABLE feedback ALTER COLUMN recommendations DROP DEFAULT;
+
+COMMENT ON COLUMN feedback.recommendations IS 'Array of recommendation strings';
+COMMENT ON COLUMN feedback.detailed_analysis IS 'Validated model output, raw reply and rejected attempts: { validated, raw_output, model, rejected_attempts }';
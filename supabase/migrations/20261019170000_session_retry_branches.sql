@@ -0,0 +1,13 @@
+/*
+  # Retry branches
+
+  The retry Edge Function lets a user replay a conversation from one of their turns, usually
+  with the improved rewrite from their feedback. It copies the messages before that turn into
+  a new session; these columns record where the branch came from.
+*/
+
+ALTER TABLE session ADD COLUMN IF NOT EXISTS branched_from_session_id uuid REFERENCES session(id) ON DELETE SET NULL;
+ALTER TABLE session ADD COLUMN IF NOT EXISTS branched_from_message_id bigint;
+
+COMMENT ON COLUMN session.branched_from_session_id IS 'Session this retry was branched from';
+COMMENT ON COLUMN session.branched_from_message_id IS 'User message in the original session that the retry replaces';
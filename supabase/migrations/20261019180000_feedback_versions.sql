@@ -0,0 +1,50 @@
+/*
+  # Feedback versions
+
+  A session can now be graded more than once: users can regenerate feedback, or keep
+  practising after feedback and be re-scored. Every run inserts a new row with the next
+  `version` for its session, so earlier versions stay available for comparison.
+
+  `message_count` and `prompt_version` record what each version was generated from: how many
+  messages the session had at the time and which revision of the feedback prompt graded it.
+  Both are NULL for rows written before versioning. Existing rows are numbered in the order
+  they were created.
+*/
+
+ALTER TABLE feedback ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1;
+ALTER TABLE feedback ADD COLUMN IF NOT EXISTS message_count integer;
+ALTER TABLE feedback ADD COLUMN IF NOT EXISTS prompt_version text;
+
+UPDATE feedback f
+SET version = numbered.version
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY session_id ORDER BY created_at, id) AS version
+  FROM feedback
+) numbered
+WHERE f.id = numbered.id;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_feedback_session_version ON feedback(session_id, version);
+
+COMMENT ON COLUMN feedback.version IS 'Position of this feedback among the versions generated for its session, starting at 1';
+COMMENT ON COLUMN feedback.message_count IS 'Messages in the session when this version was generated';
+COMMENT ON COLUMN feedback.prompt_version IS 'Revision of the feedback prompt that produced this version';
+
+-- Count each session once, by its newest feedback
+CREATE OR REPLACE VIEW user_dashboard_stats AS
+SELECT 
+  u.id as user_id,
+  COUNT(s.id) as total_sessions,
+  COUNT(CASE WHEN s.status = 'completed' THEN 1 END) as completed_sessions,
+  AVG(CASE WHEN f.scores->>'clarity' IS NOT NULL THEN (f.scores->>'clarity')::numeric END) as avg_clarity,
+  AVG(CASE WHEN f.scores->>'empathy' IS NOT NULL THEN (f.scores->>'empathy')::numeric END) as avg_empathy,
+  AVG(CASE WHEN f.scores->>'assertiveness' IS NOT NULL THEN (f.scores->>'assertiveness')::numeric END) as avg_assertiveness,
+  MAX(s.started_at) as last_session_date
+FROM app_user u
+LEFT JOIN session s ON u.id = s.user_id
+LEFT JOIN LATERAL (
+  SELECT scores FROM feedback
+  WHERE feedback.session_id = s.id
+  ORDER BY version DESC
+  LIMIT 1
+) f ON true
+GROUP BY u.id;
@@ -0,0 +1,74 @@
+/*
+  # Scenario sub-goals
+
+  `scenario.goals` lists the concrete things a user should do during a scenario, such as
+  asking about the salary range. The chat Edge Function ticks goals off live by matching each
+  goal's `cues` against the user's turns and stores the keys a turn met in
+  `message.metadata.goals_met`; the feedback Edge Function has the grader report every goal as
+  met, partial or missed with the turns it relied on.
+
+  Shape:
+    [
+      { "key": "salary", "label": "Asked about the salary range", "cues": ["salary", "compensation"], "question": true }
+    ]
+
+  `question` means only a turn containing a question counts. An empty array disables tracking.
+*/
+
+ALTER TABLE scenario ADD COLUMN IF NOT EXISTS goals jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN scenario.goals IS 'Checklist sub-goals: [{ key, label, cues: string[], question? }]';
+
+UPDATE scenario SET goals = '[
+  {"key": "introduction", "label": "Gave a concise introduction", "cues": ["my name is", "i am a", "i''m a", "background in", "years of experience"]},
+  {"key": "example", "label": "Backed a claim with a concrete example", "cues": ["for example", "for instance", "in my last role", "one time", "i led", "as a result"]},
+  {"key": "role_question", "label": "Asked a question about the role or team", "cues": ["role", "team", "day to day", "day-to-day", "success look like", "expectations"], "question": true},
+  {"key": "next_steps", "label": "Asked about next steps", "cues": ["next steps", "timeline", "hear back", "process"], "question": true}
+]'
+WHERE title = 'Job Interview Practice';
+
+UPDATE scenario SET goals = '[
+  {"key": "acknowledge", "label": "Acknowledged the other person''s view", "cues": ["i understand", "i hear you", "i see why", "that makes sense", "i appreciate"]},
+  {"key": "name_issue", "label": "Named the problem and its impact", "cues": ["the problem is", "the issue is", "impact", "affects", "when you"]},
+  {"key": "ask_perspective", "label": "Asked for their perspective", "cues": ["how do you see", "what do you think", "your perspective", "from your side", "how do you feel"], "question": true},
+  {"key": "agree_action", "label": "Agreed a concrete next step", "cues": ["let''s agree", "going forward", "next time", "how about we", "can we agree"]}
+]'
+WHERE title = 'Conflict Resolution';
+
+UPDATE scenario SET goals = '[
+  {"key": "main_point", "label": "Stated the main point up front", "cues": ["the key point", "my main point", "today i want", "in short", "the goal is"]},
+  {"key": "structure", "label": "Signposted the structure", "cues": ["first", "second", "finally", "to summarise", "to summarize"]},
+  {"key": "answer_question", "label": "Answered a challenging question directly", "cues": ["good question", "to answer", "the short answer", "directly"]}
+]'
+WHERE title = 'Public Speaking';
+
+UPDATE scenario SET goals = '[
+  {"key": "introduction", "label": "Introduced themself", "cues": ["my name is", "i''m", "i work", "i am"]},
+  {"key": "open_question", "label": "Asked an open question about the other person", "cues": ["what do you", "how did you", "what brings you", "tell me about", "what are you working on"], "question": true},
+  {"key": "common_ground", "label": "Found common ground", "cues": ["me too", "same here", "i also", "we both", "that''s interesting"]},
+  {"key": "follow_up", "label": "Proposed a follow-up", "cues": ["connect", "linkedin", "coffee", "email", "follow up", "stay in touch"]}
+]'
+WHERE title = 'Networking Event';
+
+UPDATE scenario SET goals = '[
+  {"key": "set_goal", "label": "Set a clear goal or expectation", "cues": ["the goal is", "i expect", "by friday", "deadline", "target", "priority"]},
+  {"key": "check_in", "label": "Asked how the team member is doing", "cues": ["how are you", "what do you need", "support", "blockers", "what''s getting in the way"], "question": true},
+  {"key": "decision", "label": "Made and owned a decision", "cues": ["i''ve decided", "we will", "we''re going to", "my decision", "i''ll take responsibility"]}
+]'
+WHERE title = 'Team Leadership';
+
+UPDATE scenario SET goals = '[
+  {"key": "acknowledge", "label": "Acknowledged the customer''s frustration", "cues": ["i understand", "i''m sorry", "i apologize", "i apologise", "frustrating"]},
+  {"key": "clarify", "label": "Asked a clarifying question", "cues": ["order number", "can you tell me", "when did", "what happened", "could you"], "question": true},
+  {"key": "solution", "label": "Offered a concrete fix", "cues": ["i can", "i will", "refund", "replacement", "let me"]},
+  {"key": "confirm", "label": "Confirmed the resolution", "cues": ["does that work", "is there anything else", "are you happy", "does that help"], "question": true}
+]'
+WHERE title = 'Customer Service';
+
+UPDATE scenario SET goals = '[
+  {"key": "discover_needs", "label": "Asked about the buyer''s needs", "cues": ["what matters", "priorities", "what are you looking for", "challenges", "needs"], "question": true},
+  {"key": "value", "label": "Framed value in the buyer''s terms", "cues": ["save", "return on investment", "roi", "results", "outcome", "value"]},
+  {"key": "trade", "label": "Traded a concession for something in return", "cues": ["in exchange", "if you can", "in return", "provided that", "if you commit"]},
+  {"key": "close", "label": "Asked for commitment", "cues": ["sign", "move forward", "go ahead", "commit", "next steps"], "question": true}
+]'
+WHERE title = 'Sales Negotiation';
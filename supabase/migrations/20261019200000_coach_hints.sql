@@ -0,0 +1,21 @@
+/*
+  # Coaching hints
+
+  The new coach Edge Function gives the user a short private hint about their next move,
+  either on request or when the client sees them stall or struggle. Hints are stored as
+  messages with the `coach` role, outside any turn (`turn_id` is NULL), so the session keeps
+  a record of when help was given. The chat function never shows them to the persona, and it
+  marks the user's next message with `metadata.assisted_by` so feedback can discount it.
+
+  Hint calls are metered like chat and feedback, under the `coach` purpose.
+*/
+
+ALTER TABLE message DROP CONSTRAINT IF EXISTS message_role_check;
+ALTER TABLE message
+  ADD CONSTRAINT message_role_check CHECK (role IN ('user', 'assistant', 'coach'));
+
+ALTER TABLE usage_ledger DROP CONSTRAINT IF EXISTS usage_ledger_purpose_check;
+ALTER TABLE usage_ledger
+  ADD CONSTRAINT usage_ledger_purpose_check CHECK (purpose IN ('chat', 'feedback', 'coach'));
+
+COMMENT ON COLUMN message.role IS 'user and assistant make up the conversation; coach rows are private hints only the user sees';
@@ -0,0 +1,67 @@
+/*
+  # Admin role and scenario authoring
+
+  Scenarios were only ever added through seed inserts in migrations. Admins can now create
+  and edit them from the in-app authoring studio.
+
+  ## Changes
+  - `app_user.role`: 'user' (default) or 'admin'. Promote someone from the SQL editor:
+      UPDATE app_user SET role = 'admin' WHERE email = 'someone@example.com';
+  - `is_admin()`: whether the signed-in user is an admin; used by the policies below.
+  - A trigger stops signed-in users from giving themselves a role. Only an admin, the service
+    role or the SQL editor can change it.
+  - Admins can see every scenario, including inactive drafts, and insert and update them.
+    Scenarios are retired with `is_active` rather than deleted, since sessions reference them.
+*/
+
+ALTER TABLE app_user ADD COLUMN IF NOT EXISTS role text NOT NULL DEFAULT 'user' CHECK (role IN ('user', 'admin'));
+
+COMMENT ON COLUMN app_user.role IS 'user or admin; admins can author scenarios';
+
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM app_user WHERE id = auth.uid() AND role = 'admin');
+$$;
+
+-- Requests without a signed-in user (service role, SQL editor) may set any role
+CREATE OR REPLACE FUNCTION protect_app_user_role()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT is_admin() THEN
+    IF TG_OP = 'INSERT' AND NEW.role <> 'user' THEN
+      RAISE EXCEPTION 'Only admins can assign roles';
+    ELSIF TG_OP = 'UPDATE' AND NEW.role IS DISTINCT FROM OLD.role THEN
+      RAISE EXCEPTION 'Only admins can change roles';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_app_user_role ON app_user;
+CREATE TRIGGER protect_app_user_role
+  BEFORE INSERT OR UPDATE ON app_user
+  FOR EACH ROW EXECUTE FUNCTION protect_app_user_role();
+
+CREATE POLICY "Admins can view all scenarios"
+  ON scenario FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can create scenarios"
+  ON scenario FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update scenarios"
+  ON scenario FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
@@ -0,0 +1,97 @@
+/*
+  # Private scenarios
+
+  Users can now rehearse their own real conversations. The new brief Edge Function turns a
+  short plain-language brief into a draft scenario, which the user edits and saves as a
+  `scenario` row they own.
+
+  ## Changes
+  - `scenario.owner_id`: NULL for the shared catalogue, otherwise the user the scenario
+    belongs to. Deleting the user deletes their scenarios.
+  - Shared scenarios are only the ones without an owner. The old read policies let every
+    signed-in user see every (active) scenario, so they are replaced.
+  - Owners can see, create and update their own scenarios. Nobody else can, admins included;
+    the admin policies now cover the shared catalogue only.
+  - Private scenarios always use the default models: `llm_config` must stay empty, since
+    it would otherwise let any user pick the provider their sessions are billed to.
+  - Knowledge docs and new sessions follow the scenario's visibility, so a private scenario's
+    id can't be used by anyone but its owner.
+  - Brief calls are metered under the `brief` purpose.
+*/
+
+ALTER TABLE scenario ADD COLUMN IF NOT EXISTS owner_id uuid REFERENCES app_user(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_scenario_owner_id ON scenario(owner_id) WHERE owner_id IS NOT NULL;
+
+COMMENT ON COLUMN scenario.owner_id IS 'NULL for shared scenarios; otherwise the user who created this private scenario';
+
+ALTER TABLE scenario DROP CONSTRAINT IF EXISTS scenario_private_llm_config_check;
+ALTER TABLE scenario
+  ADD CONSTRAINT scenario_private_llm_config_check
+  CHECK (owner_id IS NULL OR llm_config IS NULL OR llm_config = '{}'::jsonb);
+
+DROP POLICY IF EXISTS "Anyone can view scenarios" ON scenario;
+DROP POLICY IF EXISTS "Authenticated users can view active scenarios" ON scenario;
+DROP POLICY IF EXISTS "Admins can view all scenarios" ON scenario;
+DROP POLICY IF EXISTS "Admins can create scenarios" ON scenario;
+DROP POLICY IF EXISTS "Admins can update scenarios" ON scenario;
+
+CREATE POLICY "Authenticated users can view active shared scenarios"
+  ON scenario FOR SELECT
+  TO authenticated
+  USING (owner_id IS NULL AND is_active = true);
+
+CREATE POLICY "Admins can view all shared scenarios"
+  ON scenario FOR SELECT
+  TO authenticated
+  USING (owner_id IS NULL AND is_admin());
+
+CREATE POLICY "Admins can create shared scenarios"
+  ON scenario FOR INSERT
+  TO authenticated
+  WITH CHECK (owner_id IS NULL AND is_admin());
+
+CREATE POLICY "Admins can update shared scenarios"
+  ON scenario FOR UPDATE
+  TO authenticated
+  USING (owner_id IS NULL AND is_admin())
+  WITH CHECK (owner_id IS NULL AND is_admin());
+
+CREATE POLICY "Users can view own scenarios"
+  ON scenario FOR SELECT
+  TO authenticated
+  USING (owner_id = auth.uid());
+
+CREATE POLICY "Users can create own scenarios"
+  ON scenario FOR INSERT
+  TO authenticated
+  WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Users can update own scenarios"
+  ON scenario FOR UPDATE
+  TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid());
+
+-- The subqueries run under the caller's scenario policies, so these follow the rules above
+DROP POLICY IF EXISTS "Anyone can view scenario docs" ON scenario_doc;
+DROP POLICY IF EXISTS "Authenticated users can view scenario docs" ON scenario_doc;
+
+CREATE POLICY "Authenticated users can view docs of visible scenarios"
+  ON scenario_doc FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM scenario WHERE scenario.id = scenario_doc.scenario_id));
+
+DROP POLICY IF EXISTS "Users can create own sessions" ON session;
+
+CREATE POLICY "Users can create own sessions"
+  ON session FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM scenario WHERE scenario.id = session.scenario_id)
+  );
+
+ALTER TABLE usage_ledger DROP CONSTRAINT IF EXISTS usage_ledger_purpose_check;
+ALTER TABLE usage_ledger
+  ADD CONSTRAINT usage_ledger_purpose_check CHECK (purpose IN ('chat', 'feedback', 'coach', 'brief'));
@@ -0,0 +1,68 @@
+/*
+  # Staged scenarios
+
+  `scenario.stages` splits a scenario into ordered beats the persona moves through, such as an
+  interview's warm-up, behavioural questions, curveball and closing. The chat Edge Function keeps
+  the session's stage in `session.current_stage`, adds the stage's `persona` to the scenario's
+  `ai_persona`, and moves on once the stage's `exit` conditions (or its `max_turns`) and the next
+  stage's `entry` conditions are met. An empty array means the scenario isn't staged.
+
+  Shape:
+    [
+      {
+        "key": "warm_up", "label": "Warm-up", "persona": "Put the candidate at ease ...",
+        "entry": {}, "exit": { "goals": ["introduction"], "min_turns": 1, "cues": ["..."] }, "max_turns": 3
+      }
+    ]
+
+  Conditions: `min_turns` counts user turns (in the session for entry, in the stage for exit),
+  `goals` lists scenario goal keys that must be met, and `cues` needs one phrase in the latest
+  turn. Every condition given must hold.
+
+  User messages store the stage they were spoken in as `metadata.stage`; assistant messages store
+  the stage they were written in and any `metadata.stage_change`. Feedback scores each stage.
+*/
+
+ALTER TABLE scenario ADD COLUMN IF NOT EXISTS stages jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN scenario.stages IS 'Ordered beats: [{ key, label, persona, entry, exit, max_turns }]';
+
+ALTER TABLE session ADD COLUMN IF NOT EXISTS current_stage text;
+
+COMMENT ON COLUMN session.current_stage IS 'Key of the live scenario stage; NULL until the first move (uses the first stage)';
+
+UPDATE scenario SET stages = '[
+  {
+    "key": "warm_up",
+    "label": "Warm-up",
+    "persona": "Greet the candidate, make a little small talk to put them at ease, then ask them to walk you through their background.",
+    "entry": {},
+    "exit": {"goals": ["introduction"]},
+    "max_turns": 3
+  },
+  {
+    "key": "behavioral",
+    "label": "Behavioural questions",
+    "persona": "Ask behavioural questions one at a time (\"Tell me about a time when ...\") and probe vague answers for the situation, what they did and the result.",
+    "entry": {},
+    "exit": {"min_turns": 3, "goals": ["example"]},
+    "max_turns": 5
+  },
+  {
+    "key": "curveball",
+    "label": "Curveball",
+    "persona": "Throw the candidate one unexpected question: an awkward gap in their CV, their biggest failure or why they might not be right for the role. Press once if the answer dodges it.",
+    "entry": {"min_turns": 4},
+    "exit": {"min_turns": 2},
+    "max_turns": 3
+  },
+  {
+    "key": "closing",
+    "label": "Closing",
+    "persona": "Wrap up the interview: ask whether they have any questions for you, answer them briefly and explain what happens next.",
+    "entry": {},
+    "exit": {},
+    "max_turns": null
+  }
+]'
+WHERE title = 'Job Interview Practice';
@@ -0,0 +1,76 @@
+/*
+  # Multi-persona scenarios
+
+  `scenario.personas` lets a scenario seat several characters, such as an interview panel or
+  the stakeholders in a project meeting. `ai_persona` still describes the setting; each persona
+  adds a name, role, agenda and temperament. The chat Edge Function decides who speaks next
+  (whoever the user addressed by name, otherwise whoever spoke last, with a quiet persona
+  occasionally cutting in) and stores one assistant message per speaker. An empty array keeps
+  the one-character behaviour.
+
+  Shape:
+    [
+      { "key": "chair", "name": "Priya Shah", "role": "Head of Engineering", "agenda": "...", "temperament": "..." }
+    ]
+
+  The first persona leads: they open the conversation and answer when nobody else is asked.
+
+  `message.persona` records which persona wrote an assistant message, so a turn can now hold
+  several assistant rows. The turn idempotency key becomes unique per speaker.
+*/
+
+ALTER TABLE scenario ADD COLUMN IF NOT EXISTS personas jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN scenario.personas IS 'Characters present: [{ key, name, role, agenda, temperament }]; the first one leads';
+
+ALTER TABLE message ADD COLUMN IF NOT EXISTS persona text;
+
+COMMENT ON COLUMN message.persona IS 'Key of the scenario persona that wrote an assistant message; NULL for single-persona scenarios';
+
+ALTER TABLE message DROP CONSTRAINT IF EXISTS message_session_turn_role_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS message_session_turn_role_persona_key
+  ON message (session_id, turn_id, role, COALESCE(persona, ''));
+
+INSERT INTO scenario (title, description, objective, rubric, ai_persona, personas, icon, difficulty_level, estimated_duration)
+SELECT
+  'Panel Interview',
+  'Face a three-person interview panel. Practise addressing several interviewers, handling a sceptic and keeping your answers consistent.',
+  'Convince the whole panel you are right for the role, including the interviewer who is not yet sold.',
+  '{"dimensions": [
+    {"key": "clarity", "label": "Clarity", "description": "Clear, structured answers that get to the point", "weight": 1, "scale": {"min": 0, "max": 5}},
+    {"key": "evidence", "label": "Evidence", "description": "Backs claims with concrete examples and results", "weight": 1, "scale": {"min": 0, "max": 5}},
+    {"key": "audience", "label": "Reading the Room", "description": "Addresses each panellist''s concerns and includes everyone, not just the friendliest face", "weight": 1.5, "scale": {"min": 0, "max": 5}},
+    {"key": "composure", "label": "Composure", "description": "Stays confident and professional when challenged", "weight": 1, "scale": {"min": 0, "max": 5}}
+  ]}',
+  'A hiring panel interviewing the user for a senior product role at a mid-sized software company. The panel sits together and takes turns asking questions.',
+  '[
+    {"key": "chair", "name": "Priya Shah", "role": "Head of Product and panel chair", "agenda": "Find out whether the candidate can own a roadmap and explain their decisions.", "temperament": "Warm and structured; keeps the interview moving and makes sure everyone gets their questions in."},
+    {"key": "engineer", "name": "Marcus Bell", "role": "Engineering Lead", "agenda": "Test whether the candidate respects technical constraints and can negotiate scope with engineers.", "temperament": "Sceptical and blunt; pushes for specifics and isn''t impressed by buzzwords."},
+    {"key": "designer", "name": "Lena Ortiz", "role": "Design Manager", "agenda": "Learn how the candidate involves users and designers in decisions.", "temperament": "Curious and friendly; asks open questions and follows up on anything vague."}
+  ]',
+  'users',
+  'advanced',
+  20
+WHERE NOT EXISTS (SELECT 1 FROM scenario WHERE title = 'Panel Interview');
+
+INSERT INTO scenario (title, description, objective, rubric, ai_persona, personas, icon, difficulty_level, estimated_duration)
+SELECT
+  'Stakeholder Meeting',
+  'Run a project check-in with stakeholders who want different things. Practise balancing competing priorities and getting a decision.',
+  'Leave the meeting with an agreed decision on whether to delay the launch, with both stakeholders on board.',
+  '{"dimensions": [
+    {"key": "facilitation", "label": "Facilitation", "description": "Keeps the meeting on track, gives each stakeholder space and summarises where things stand", "weight": 1.5, "scale": {"min": 0, "max": 5}},
+    {"key": "balance", "label": "Balancing Interests", "description": "Acknowledges each side''s concerns and looks for options that serve both", "weight": 1.5, "scale": {"min": 0, "max": 5}},
+    {"key": "clarity", "label": "Clarity", "description": "Explains trade-offs plainly and avoids jargon", "weight": 1, "scale": {"min": 0, "max": 5}},
+    {"key": "decision", "label": "Driving a Decision", "description": "Asks for a decision and agrees owners and next steps", "weight": 1, "scale": {"min": 0, "max": 5}}
+  ]}',
+  'A project check-in meeting the user is running as project lead. The launch is at risk of slipping by three weeks and the stakeholders disagree about what to do.',
+  '[
+    {"key": "sales", "name": "Tom Reyes", "role": "Sales Director", "agenda": "Keep the launch date: he has promised it to two large customers and fears losing them.", "temperament": "Impatient and persuasive; interrupts when he hears the word delay."},
+    {"key": "support", "name": "Aisha Okafor", "role": "Customer Support Manager", "agenda": "Delay until the known bugs are fixed, so her team isn''t flooded with complaints.", "temperament": "Calm and data-driven; quotes ticket numbers and won''t be rushed."}
+  ]',
+  'users',
+  'advanced',
+  15
+WHERE NOT EXISTS (SELECT 1 FROM scenario WHERE title = 'Stakeholder Meeting');
@@ -0,0 +1,45 @@
+/*
+  # Rate limits count requests, not model calls
+
+  One user action can make several model calls: an ensemble of feedback judges and their
+  repair attempts, one reply per persona in a multi-persona turn, or brief retries. Each of
+  them is a `usage_ledger` row, so counting rows tripped the per-minute rate limit on a single
+  action.
+
+  ## Changes
+  - `usage_ledger.request_id` groups the calls made while serving one Edge Function request
+  - `get_usage_summary` counts distinct requests for `requests_last_minute`; rows written
+    before this migration have no request id and still count once each
+*/
+
+ALTER TABLE usage_ledger ADD COLUMN IF NOT EXISTS request_id uuid;
+
+COMMENT ON COLUMN usage_ledger.request_id IS 'Edge Function request the call was made for; shared by every call one request makes';
+
+CREATE OR REPLACE FUNCTION get_usage_summary(target_user_id uuid)
+RETURNS TABLE (
+  daily_tokens bigint,
+  monthly_tokens bigint,
+  requests_last_minute bigint
+)
+LANGUAGE sql STABLE
+AS $$
+  WITH bounds AS (
+    SELECT
+      date_trunc('day', now() AT TIME ZONE 'utc') AT TIME ZONE 'utc' AS day_start,
+      date_trunc('month', now() AT TIME ZONE 'utc') AT TIME ZONE 'utc' AS month_start,
+      now() - interval '1 minute' AS minute_start
+  )
+  SELECT
+    COALESCE(SUM(ul.total_tokens) FILTER (WHERE ul.created_at >= b.day_start), 0)::bigint,
+    COALESCE(SUM(ul.total_tokens) FILTER (WHERE ul.created_at >= b.month_start), 0)::bigint,
+    COUNT(DISTINCT COALESCE(ul.request_id::text, ul.id::text)) FILTER (WHERE ul.created_at >= b.minute_start)
+  FROM bounds b
+  LEFT JOIN usage_ledger ul
+    ON ul.user_id = target_user_id
+    AND ul.created_at >= LEAST(b.month_start, b.minute_start);
+$$;
+
+-- Takes an arbitrary user id, so only the Edge Functions may call it
+REVOKE EXECUTE ON FUNCTION get_usage_summary(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_usage_summary(uuid) TO service_role;
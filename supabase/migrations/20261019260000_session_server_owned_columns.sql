@@ -0,0 +1,22 @@
+/*
+  # Sessions are written by the Edge Functions
+
+  The chat function injects `session.conversation_summary` into the persona's system prompt and
+  drives `current_difficulty` and `current_stage`; the feedback and retry functions set `status`,
+  `ended_at` and the branch columns. The original "Users can update own sessions" policy let
+  the browser rewrite any of them, e.g. planting instructions in the summary or skipping to the
+  last stage.
+
+  ## Changes
+  - Signed-in users can no longer update sessions; every update goes through the Edge
+    Functions with the service role
+  - Signed-in users can only set `user_id` and `scenario_id` when starting a session; everything
+    else, including `status`, takes its default
+*/
+
+DROP POLICY IF EXISTS "Users can update own sessions" ON session;
+
+REVOKE UPDATE ON session FROM anon, authenticated;
+
+REVOKE INSERT ON session FROM anon, authenticated;
+GRANT INSERT (user_id, scenario_id) ON session TO authenticated;
@@ -0,0 +1,57 @@
+/*
+  # Dashboard stats follow the rubric and stay per-user
+
+  Recreating `user_dashboard_stats` for feedback versions dropped the `security_invoker`
+  option the original schema set, so the view ran as its owner and returned every user's
+  stats to any signed-in user. It also only averaged the legacy clarity/empathy/assertiveness
+  keys, which rubric-driven scenarios don't score.
+
+  ## Changes
+  - The view runs with the caller's permissions again, so row level security limits it to
+    the caller's own sessions and feedback
+  - New `avg_overall_score` column: the rubric-weighted overall score of each session's
+    newest feedback version, on a 0-5 scale, matching `overallScore` in the app. Legacy rows
+    without a rubric snapshot weight each scored key equally on a 0-5 scale
+*/
+
+CREATE OR REPLACE VIEW user_dashboard_stats WITH (security_invoker = true) AS
+SELECT
+  u.id as user_id,
+  COUNT(s.id) as total_sessions,
+  COUNT(CASE WHEN s.status = 'completed' THEN 1 END) as completed_sessions,
+  AVG(CASE WHEN f.scores->>'clarity' IS NOT NULL THEN (f.scores->>'clarity')::numeric END) as avg_clarity,
+  AVG(CASE WHEN f.scores->>'empathy' IS NOT NULL THEN (f.scores->>'empathy')::numeric END) as avg_empathy,
+  AVG(CASE WHEN f.scores->>'assertiveness' IS NOT NULL THEN (f.scores->>'assertiveness')::numeric END) as avg_assertiveness,
+  MAX(s.started_at) as last_session_date,
+  AVG(overall.score) as avg_overall_score
+FROM app_user u
+LEFT JOIN session s ON u.id = s.user_id
+LEFT JOIN LATERAL (
+  SELECT
+    scores,
+    CASE WHEN jsonb_typeof(rubric) = 'array' AND jsonb_array_length(rubric) > 0 THEN rubric END as dimensions
+  FROM feedback
+  WHERE feedback.session_id = s.id
+  ORDER BY version DESC
+  LIMIT 1
+) f ON true
+LEFT JOIN LATERAL (
+  -- Weighted mean of each scored dimension as a fraction of its scale, scaled to 0-5
+  SELECT SUM(d.weight * LEAST(1, GREATEST(0, (d.score - d.min) / NULLIF(d.max - d.min, 0)))) / NULLIF(SUM(d.weight), 0) * 5 as score
+  FROM (
+    SELECT
+      (f.scores->>(dim->>'key'))::numeric as score,
+      COALESCE((dim->>'weight')::numeric, 1) as weight,
+      COALESCE((dim->'scale'->>'min')::numeric, 0) as min,
+      COALESCE((dim->'scale'->>'max')::numeric, 5) as max
+    FROM jsonb_array_elements(COALESCE(f.dimensions, '[]'::jsonb)) dim
+    WHERE jsonb_typeof(f.scores->(dim->>'key')) = 'number'
+    UNION ALL
+    SELECT value::numeric, 1, 0, 5
+    FROM jsonb_each(CASE WHEN f.dimensions IS NULL AND jsonb_typeof(f.scores) = 'object' THEN f.scores ELSE '{}'::jsonb END)
+    WHERE jsonb_typeof(value) = 'number'
+  ) d
+) overall ON true
+GROUP BY u.id;
+
+GRANT SELECT ON user_dashboard_stats TO authenticated;
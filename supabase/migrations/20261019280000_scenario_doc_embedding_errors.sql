@@ -0,0 +1,15 @@
+/*
+  # Record docs that couldn't be embedded
+
+  Doc embeddings are no longer filled in during chat turns: docs are embedded when they're
+  written, and docs left without one (seeded by SQL, or written while no embedder was
+  configured) are filled in by the packs function's `embed` backfill. A doc the embedder
+  rejects keeps the reason here, so the backfill moves past it instead of retrying it forever.
+
+  ## Changes
+  - New `scenario_doc.embedding_error` column, NULL unless embedding the doc failed
+*/
+
+ALTER TABLE scenario_doc ADD COLUMN IF NOT EXISTS embedding_error text;
+
+COMMENT ON COLUMN scenario_doc.embedding_error IS 'Why the last attempt to embed this doc failed; NULL when it is embedded or not yet tried';
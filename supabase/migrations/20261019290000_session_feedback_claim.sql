@@ -0,0 +1,16 @@
+/*
+  # Claim a session before grading it
+
+  Two feedback requests for the same session both ran every ensemble judge, and were both billed
+  for it, before the loser found its version number taken. The feedback function now claims the
+  session first and turns away a second request straight away.
+
+  ## Changes
+  - New `session.feedback_started_at` column: when feedback generation for the session started,
+    NULL while none is running. A claim older than a few minutes is treated as abandoned.
+    Written by the feedback Edge Function only, like the other server-owned session columns
+*/
+
+ALTER TABLE session ADD COLUMN IF NOT EXISTS feedback_started_at timestamptz;
+
+COMMENT ON COLUMN session.feedback_started_at IS 'When the running feedback generation for this session started; NULL when none is running';